@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { findTableByPlayer, playerAction } from '@/lib/tableManager';
+import { createPlayerView } from '@/lib/tableViews';
+import { BettingAction } from '@/lib/types';
+import { TableRuleError } from '@/lib/tableErrors';
+
+interface Params {
+  params: {
+    playerGuid: string;
+  };
+}
+
+const BETTING_ACTIONS: BettingAction[] = ['fold', 'check', 'call', 'bet', 'raise'];
+
+// POST /api/players/[playerGuid]/action - Fold, check, call, bet or raise (only fold without chips)
+export async function POST(request: NextRequest, { params }: Params) {
+  try {
+    const { playerGuid } = params;
+    const { action, amount } = await request.json().catch(() => ({}));
+    
+    if (!BETTING_ACTIONS.includes(action)) {
+      return NextResponse.json({ error: `Action must be one of ${BETTING_ACTIONS.join(', ')}` }, { status: 400 });
+    }
+    
+    const table = findTableByPlayer(playerGuid);
+    
+    if (!table) {
+      return NextResponse.json({ error: 'Player not found' }, { status: 404 });
+    }
+    
+    let updatedTable;
+    try {
+      updatedTable = await playerAction(table.tableGuid, playerGuid, action, amount);
+    } catch (error: any) {
+      // Out-of-turn or illegal actions are the player's mistake, not a server error
+      if (!(error instanceof TableRuleError)) {
+        throw error;
+      }
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    
+    return NextResponse.json(createPlayerView(updatedTable, playerGuid));
+  } catch (error: any) {
+    console.error('Error applying player action:', error);
+    return NextResponse.json({ error: error.message || 'Internal Server Error' }, { status: 500 });
+  }
+}
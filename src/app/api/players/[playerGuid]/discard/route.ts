@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { findTableByPlayer, discardCard } from '@/lib/tableManager';
+import { createPlayerView } from '@/lib/tableViews';
+import { TableRuleError } from '@/lib/tableErrors';
+
+interface Params {
+  params: {
+    playerGuid: string;
+  };
+}
+
+// POST /api/players/[playerGuid]/discard - Throw away a pocket card before the flop (Pineapple)
+export async function POST(request: NextRequest, { params }: Params) {
+  try {
+    const { playerGuid } = params;
+    const { cardCode } = await request.json().catch(() => ({}));
+    
+    if (typeof cardCode !== 'string') {
+      return NextResponse.json({ error: 'cardCode is required' }, { status: 400 });
+    }
+    
+    const table = findTableByPlayer(playerGuid);
+    
+    if (!table) {
+      return NextResponse.json({ error: 'Player not found' }, { status: 404 });
+    }
+    
+    let updatedTable;
+    try {
+      updatedTable = await discardCard(table.tableGuid, playerGuid, cardCode);
+    } catch (error: any) {
+      // Discarding at the wrong time or a card not held is the player's mistake
+      if (!(error instanceof TableRuleError)) {
+        throw error;
+      }
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    
+    return NextResponse.json(createPlayerView(updatedTable, playerGuid));
+  } catch (error: any) {
+    console.error('Error discarding card:', error);
+    return NextResponse.json({ error: error.message || 'Internal Server Error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { findTableByPlayer, setPlayerIdentity } from '@/lib/tableManager';
+import { createPlayerView } from '@/lib/tableViews';
+import { normalizeNickname, validateAvatar } from '@/lib/playerIdentity';
+import { setProfileIdentity } from '@/lib/profiles';
+import { TableRuleError } from '@/lib/tableErrors';
+
+interface Params {
+  params: {
+    playerGuid: string;
+  };
+}
+
+// POST /api/players/[playerGuid]/identity - Change the player's nickname and avatar ({ nickname, avatar })
+// An empty nickname goes back to the generated alias, and a null avatar removes it
+// The player's profile is changed too, so the next table they sit down at uses them
+export async function POST(request: NextRequest, { params }: Params) {
+  try {
+    const { playerGuid } = params;
+    const { nickname, avatar } = await request.json().catch(() => ({}));
+    
+    let identity;
+    try {
+      identity = {
+        nickname: nickname === undefined || nickname === null || nickname === '' ? null : normalizeNickname(nickname),
+        avatar: avatar === undefined || avatar === null ? null : validateAvatar(avatar)
+      };
+    } catch (error: any) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    
+    const table = findTableByPlayer(playerGuid);
+    
+    if (!table) {
+      return NextResponse.json({ error: 'Player not found' }, { status: 404 });
+    }
+    
+    let updatedTable;
+    try {
+      updatedTable = await setPlayerIdentity(table.tableGuid, playerGuid, identity.nickname, identity.avatar);
+    } catch (error: any) {
+      // Someone else at the table already goes by that nickname
+      if (!(error instanceof TableRuleError)) {
+        throw error;
+      }
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    
+    const profileId = table.players.find(player => player.playerGuid === playerGuid)?.profileId;
+    if (profileId) {
+      try {
+        setProfileIdentity(profileId, identity.nickname, identity.avatar);
+      } catch (error) {
+        console.error('Error updating player profile:', error);
+      }
+    }
+    
+    return NextResponse.json(createPlayerView(updatedTable, playerGuid));
+  } catch (error: any) {
+    console.error('Error changing nickname:', error);
+    return NextResponse.json({ error: error.message || 'Internal Server Error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { findTableByPlayer, rebuyPlayer } from '@/lib/tableManager';
+import { createPlayerView } from '@/lib/tableViews';
+import { TableRuleError } from '@/lib/tableErrors';
+
+interface Params {
+  params: {
+    playerGuid: string;
+  };
+}
+
+// POST /api/players/[playerGuid]/rebuy - Buy back in with a fresh stack after losing all your chips
+export async function POST(request: NextRequest, { params }: Params) {
+  try {
+    const { playerGuid } = params;
+    const table = findTableByPlayer(playerGuid);
+    
+    if (!table) {
+      return NextResponse.json({ error: 'Player not found' }, { status: 404 });
+    }
+    
+    let updatedTable;
+    try {
+      updatedTable = await rebuyPlayer(table.tableGuid, playerGuid);
+    } catch (error: any) {
+      // Chips left, or a table that isn't a cash game
+      if (!(error instanceof TableRuleError)) {
+        throw error;
+      }
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    
+    return NextResponse.json(createPlayerView(updatedTable, playerGuid));
+  } catch (error: any) {
+    console.error('Error rebuying:', error);
+    return NextResponse.json({ error: error.message || 'Internal Server Error' }, { status: 500 });
+  }
+}
@@ -1,7 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getAllTables } from '@/lib/tableManager';
-import { generateTableName } from '@/app/api/tables/tableNamer';
-import { generatePokerPlayerAlias } from '@/app/api/tables/playerNamer';
+import { findTableByPlayer } from '@/lib/tableManager';
+import { createPlayerView } from '@/lib/tableViews';
 
 interface Params {
   params: {
@@ -15,47 +14,14 @@ export async function GET(request: NextRequest, { params }: Params) {
     const { playerGuid } = params;
     
     // Find the table that contains this player
-    const tables = getAllTables();
-    let playerData = null;
-    let tableData = null;
+    const table = findTableByPlayer(playerGuid);
+    const playerView = table ? createPlayerView(table, playerGuid) : null;
     
-    for (const table of tables) {
-      const player = table.players.find(p => p.playerGuid === playerGuid);
-      
-      if (player) {
-        // Add player alias to player data
-        playerData = {
-          ...player,
-          playerAlias: generatePokerPlayerAlias(player.playerGuid)
-        };
-        
-        // Check player's role (dealer, small blind, big blind)
-        const playerIndex = table.players.findIndex(p => p.playerGuid === playerGuid);
-        const isDealer = playerIndex === table.dealerPosition;
-        const isSmallBlind = playerIndex === table.smallBlindPosition;
-        const isBigBlind = playerIndex === table.bigBlindPosition;
-        
-        tableData = {
-          tableGuid: table.tableGuid,
-          tableName: generateTableName(table.tableGuid),
-          gamePhase: table.gamePhase,
-          handNumber: table.handNumber,
-          isDealer,
-          isSmallBlind,
-          isBigBlind
-        };
-        break;
-      }
-    }
-    
-    if (!playerData || !tableData) {
+    if (!playerView) {
       return NextResponse.json({ error: 'Player not found' }, { status: 404 });
     }
     
-    return NextResponse.json({
-      player: playerData,
-      table: tableData
-    });
+    return NextResponse.json(playerView);
   } catch (error: any) {
     console.error('Error fetching player:', error);
     return NextResponse.json({ error: error.message || 'Internal Server Error' }, { status: 500 });
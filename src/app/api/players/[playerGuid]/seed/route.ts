@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { findTableByPlayer, setClientSeed } from '@/lib/tableManager';
+import { createPlayerView } from '@/lib/tableViews';
+import { TableRuleError } from '@/lib/tableErrors';
+
+interface Params {
+  params: {
+    playerGuid: string;
+  };
+}
+
+// POST /api/players/[playerGuid]/seed - Contribute a seed to the next hand's shuffle
+export async function POST(request: NextRequest, { params }: Params) {
+  try {
+    const { playerGuid } = params;
+    const { clientSeed } = await request.json().catch(() => ({}));
+    
+    if (typeof clientSeed !== 'string') {
+      return NextResponse.json({ error: 'clientSeed is required' }, { status: 400 });
+    }
+    
+    const table = findTableByPlayer(playerGuid);
+    
+    if (!table) {
+      return NextResponse.json({ error: 'Player not found' }, { status: 404 });
+    }
+    
+    let updatedTable;
+    try {
+      updatedTable = await setClientSeed(table.tableGuid, playerGuid, clientSeed);
+    } catch (error: any) {
+      // Seeds sent mid-hand or of the wrong length are the player's mistake
+      if (!(error instanceof TableRuleError)) {
+        throw error;
+      }
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    
+    return NextResponse.json(createPlayerView(updatedTable, playerGuid));
+  } catch (error: any) {
+    console.error('Error setting client seed:', error);
+    return NextResponse.json({ error: error.message || 'Internal Server Error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { findTableByPlayer, setSittingOut } from '@/lib/tableManager';
+import { createPlayerView } from '@/lib/tableViews';
+import { TableRuleError } from '@/lib/tableErrors';
+
+interface Params {
+  params: {
+    playerGuid: string;
+  };
+}
+
+// POST /api/players/[playerGuid]/sitout - Sit out from the next hand, or sit back in
+export async function POST(request: NextRequest, { params }: Params) {
+  try {
+    const { playerGuid } = params;
+    const { sittingOut } = await request.json().catch(() => ({}));
+    
+    if (typeof sittingOut !== 'boolean') {
+      return NextResponse.json({ error: 'sittingOut must be true or false' }, { status: 400 });
+    }
+    
+    const table = findTableByPlayer(playerGuid);
+    
+    if (!table) {
+      return NextResponse.json({ error: 'Player not found' }, { status: 404 });
+    }
+    
+    let updatedTable;
+    try {
+      updatedTable = await setSittingOut(table.tableGuid, playerGuid, sittingOut);
+    } catch (error: any) {
+      // A player who has already left can't sit out
+      if (!(error instanceof TableRuleError)) {
+        throw error;
+      }
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    
+    return NextResponse.json(createPlayerView(updatedTable, playerGuid));
+  } catch (error: any) {
+    console.error('Error changing sitting out:', error);
+    return NextResponse.json({ error: error.message || 'Internal Server Error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { findTableByPlayer } from '@/lib/tableManager';
+import { getPlayerStats } from '@/lib/profiles';
+
+interface Params {
+  params: {
+    playerGuid: string;
+  };
+}
+
+// GET /api/players/[playerGuid]/stats - Get the player's stats at this table and over their whole profile
+export async function GET(request: NextRequest, { params }: Params) {
+  try {
+    const { playerGuid } = params;
+    const table = findTableByPlayer(playerGuid);
+    
+    if (!table) {
+      return NextResponse.json({ error: 'Player not found' }, { status: 404 });
+    }
+    
+    return NextResponse.json({
+      bettingEnabled: table.bettingEnabled === true,
+      ...getPlayerStats(table, playerGuid)
+    });
+  } catch (error: any) {
+    console.error('Error fetching player stats:', error);
+    return NextResponse.json({ error: error.message || 'Internal Server Error' }, { status: 500 });
+  }
+}
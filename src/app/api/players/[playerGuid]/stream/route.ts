@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { findTableByPlayer, getTable } from '@/lib/tableManager';
+import { createPlayerView } from '@/lib/tableViews';
+import { createEventStream } from '@/lib/eventStream';
+
+// Streams stay open, so never cache or pre-render this route
+export const dynamic = 'force-dynamic';
+
+interface Params {
+  params: {
+    playerGuid: string;
+  };
+}
+
+// GET /api/players/[playerGuid]/stream - Stream a player's view as Server-Sent Events
+export async function GET(request: NextRequest, { params }: Params) {
+  try {
+    const { playerGuid } = params;
+    const table = findTableByPlayer(playerGuid);
+    
+    if (!table) {
+      return NextResponse.json({ error: 'Player not found' }, { status: 404 });
+    }
+    
+    // Tournament players can be moved to another table, which is seated before the old one lets them go,
+    // so look the player up again whenever their current table changes
+    let { tableGuid } = table;
+    
+    return createEventStream(
+      request,
+      () => {
+        const lastTable = getTable(tableGuid);
+        const currentTable = lastTable?.players.some(p => p.playerGuid === playerGuid)
+          ? lastTable
+          : findTableByPlayer(playerGuid);
+        
+        if (!currentTable) {
+          return null;
+        }
+        
+        tableGuid = currentTable.tableGuid;
+        return createPlayerView(currentTable, playerGuid);
+      },
+      changedTableGuid => changedTableGuid === tableGuid
+    );
+  } catch (error: any) {
+    console.error('Error streaming player:', error);
+    return NextResponse.json({ error: error.message || 'Internal Server Error' }, { status: 500 });
+  }
+}
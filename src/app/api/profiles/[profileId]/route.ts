@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getProfile, createProfileView } from '@/lib/profiles';
+import { isProfileId } from '@/lib/playerSession';
+
+interface Params {
+  params: {
+    profileId: string;
+  };
+}
+
+// GET /api/profiles/[profileId] - Get a player's profile, lifetime stats and the tables they played at
+export async function GET(request: NextRequest, { params }: Params) {
+  try {
+    const { profileId } = params;
+    const profile = isProfileId(profileId) ? getProfile(profileId) : null;
+    
+    if (!profile) {
+      return NextResponse.json({ error: 'Profile not found' }, { status: 404 });
+    }
+    
+    return NextResponse.json({ profile: createProfileView(profile) });
+  } catch (error: any) {
+    console.error('Error fetching profile:', error);
+    return NextResponse.json({ error: error.message || 'Internal Server Error' }, { status: 500 });
+  }
+}
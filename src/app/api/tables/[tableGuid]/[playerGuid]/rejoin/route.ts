@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getTable, createRejoinCode } from '@/lib/tableManager';
+import { isHost } from '@/lib/hostAuth';
+
+interface Params {
+  params: {
+    tableGuid: string;
+    playerGuid: string;
+  };
+}
+
+// POST /api/tables/[tableGuid]/[playerGuid]/rejoin - Create a one-time code that gets a player back to their seat
+export async function POST(request: NextRequest, { params }: Params) {
+  try {
+    const { tableGuid, playerGuid } = params;
+    const table = getTable(tableGuid);
+    
+    if (!table) {
+      return NextResponse.json({ error: 'Table not found' }, { status: 404 });
+    }
+    
+    if (!isHost(request, table)) {
+      return NextResponse.json({ error: 'Only the host can create rejoin codes' }, { status: 403 });
+    }
+    
+    if (!table.players.some(p => p.playerGuid === playerGuid)) {
+      return NextResponse.json({ error: 'Player not found in this table' }, { status: 404 });
+    }
+    
+    const { code, expiresAt } = await createRejoinCode(tableGuid, playerGuid);
+    
+    return NextResponse.json({
+      code,
+      expiresAt,
+      url: `/table/${tableGuid}/sitdown?code=${code}`
+    });
+  } catch (error: any) {
+    console.error('Error creating rejoin code:', error);
+    return NextResponse.json({ error: error.message || 'Internal Server Error' }, { status: 500 });
+  }
+}
@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getTable, removePlayer } from '@/lib/tableManager';
-import { generatePokerPlayerAlias } from '@/app/api/tables/playerNamer';
-import { generateTableName } from '@/app/api/tables/tableNamer';
+import { createAdminView } from '@/lib/tableViews';
+import { isHost } from '@/lib/hostAuth';
 
 interface Params {
   params: {
@@ -21,6 +21,10 @@ export async function DELETE(request: NextRequest, { params }: Params) {
       return NextResponse.json({ error: 'Table not found' }, { status: 404 });
     }
     
+    if (!isHost(request, table)) {
+      return NextResponse.json({ error: 'Only the host can remove players' }, { status: 403 });
+    }
+    
     // Check if player exists in the table
     const playerExists = table.players.some(p => p.playerGuid === playerGuid);
     
@@ -29,24 +33,11 @@ export async function DELETE(request: NextRequest, { params }: Params) {
     }
     
     // Remove the player
-    const updatedTable = removePlayer(tableGuid, playerGuid);
-    
-    // Return the updated table without the deck
-    const safeTable = {
-      ...updatedTable,
-      tableName: generateTableName(updatedTable.tableGuid),
-      // Add player aliases
-      players: updatedTable.players.map(player => ({
-        ...player,
-        playerAlias: generatePokerPlayerAlias(player.playerGuid)
-      })),
-      deck: [], // Don't expose the deck to clients
-      lastUpdated: new Date().toISOString()
-    };
+    const updatedTable = await removePlayer(tableGuid, playerGuid);
     
     return NextResponse.json({ 
       success: true,
-      table: safeTable
+      table: createAdminView(updatedTable)
     });
   } catch (error: any) {
     console.error('Error removing player:', error);
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getTable } from '@/lib/tableManager';
+import { createAdminView } from '@/lib/tableViews';
+import { isHost } from '@/lib/hostAuth';
+
+interface Params {
+  params: {
+    tableGuid: string;
+  };
+}
+
+// GET /api/tables/[tableGuid]/admin - Get the host view of a table
+export async function GET(request: NextRequest, { params }: Params) {
+  try {
+    const { tableGuid } = params;
+    const table = getTable(tableGuid);
+    
+    if (!table) {
+      return NextResponse.json({ error: 'Table not found' }, { status: 404 });
+    }
+    
+    if (!isHost(request, table)) {
+      return NextResponse.json({ error: 'Only the host can open the host view. Ask the host to hand control to this device.' }, { status: 403 });
+    }
+    
+    return NextResponse.json({ table: createAdminView(table) });
+  } catch (error: any) {
+    console.error('Error fetching table:', error);
+    return NextResponse.json({ error: error.message || 'Internal Server Error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getTable } from '@/lib/tableManager';
+import { createAdminView } from '@/lib/tableViews';
+import { createEventStream } from '@/lib/eventStream';
+import { isHost } from '@/lib/hostAuth';
+
+// Streams stay open, so never cache or pre-render this route
+export const dynamic = 'force-dynamic';
+
+interface Params {
+  params: {
+    tableGuid: string;
+  };
+}
+
+// GET /api/tables/[tableGuid]/admin/stream - Stream the host view of a table as Server-Sent Events
+export async function GET(request: NextRequest, { params }: Params) {
+  try {
+    const { tableGuid } = params;
+    const table = getTable(tableGuid);
+    
+    if (!table) {
+      return NextResponse.json({ error: 'Table not found' }, { status: 404 });
+    }
+    
+    if (!isHost(request, table)) {
+      return NextResponse.json({ error: 'Only the host can open the host view. Ask the host to hand control to this device.' }, { status: 403 });
+    }
+    
+    return createEventStream(
+      request,
+      () => {
+        const table = getTable(tableGuid);
+        return table ? { table: createAdminView(table) } : null;
+      },
+      changedTableGuid => changedTableGuid === tableGuid
+    );
+  } catch (error: any) {
+    console.error('Error streaming table:', error);
+    return NextResponse.json({ error: error.message || 'Internal Server Error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getTable, setTournamentClockRunning } from '@/lib/tableManager';
+import { setTournamentClocksRunning } from '@/lib/tournamentManager';
+import { createAdminView } from '@/lib/tableViews';
+import { isHost } from '@/lib/hostAuth';
+import { TableRuleError } from '@/lib/tableErrors';
+
+interface Params {
+  params: {
+    tableGuid: string;
+  };
+}
+
+// POST /api/tables/[tableGuid]/clock - Start or pause the tournament blind clock
+export async function POST(request: NextRequest, { params }: Params) {
+  try {
+    const { tableGuid } = params;
+    const { running } = await request.json().catch(() => ({}));
+    const table = getTable(tableGuid);
+    
+    if (!table) {
+      return NextResponse.json({ error: 'Table not found' }, { status: 404 });
+    }
+    
+    if (!isHost(request, table)) {
+      return NextResponse.json({ error: 'Only the host can run the blind clock' }, { status: 403 });
+    }
+    
+    if (typeof running !== 'boolean') {
+      return NextResponse.json({ error: 'running must be true or false' }, { status: 400 });
+    }
+    
+    let updatedTable;
+    try {
+      // A multi-table tournament runs one clock across all its tables
+      if (table.tournamentGuid) {
+        await setTournamentClocksRunning(table.tournamentGuid, running);
+        updatedTable = getTable(tableGuid) ?? table;
+      } else {
+        updatedTable = await setTournamentClockRunning(tableGuid, running);
+      }
+    } catch (error: any) {
+      // The table has no tournament
+      if (!(error instanceof TableRuleError)) {
+        throw error;
+      }
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    
+    return NextResponse.json({
+      table: createAdminView(updatedTable)
+    });
+  } catch (error: any) {
+    console.error('Error updating the blind clock:', error);
+    return NextResponse.json({ error: error.message || 'Internal Server Error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getHandHistory } from '@/lib/tableManager';
+import { verifyHand } from '@/lib/provablyFair';
+
+interface Params {
+  params: {
+    tableGuid: string;
+    handNumber: string;
+  };
+}
+
+// GET /api/tables/[tableGuid]/hands/[handNumber]/verify - Re-derive a finished hand's deck from its revealed seeds
+export async function GET(request: NextRequest, { params }: Params) {
+  try {
+    const { tableGuid } = params;
+    const handNumber = parseInt(params.handNumber, 10);
+    
+    if (!Number.isInteger(handNumber)) {
+      return NextResponse.json({ error: 'handNumber must be a whole number' }, { status: 400 });
+    }
+    
+    // Seeds are only revealed once a hand is over, so only finished hands can be verified
+    const entry = getHandHistory(tableGuid).find(hand => hand.handNumber === handNumber);
+    
+    if (!entry) {
+      return NextResponse.json({ error: 'Hand not found or not finished yet' }, { status: 404 });
+    }
+    
+    const verification = verifyHand(entry);
+    
+    if (!verification) {
+      return NextResponse.json({ error: 'This hand was dealt before shuffles could be verified' }, { status: 404 });
+    }
+    
+    return NextResponse.json({ verification });
+  } catch (error: any) {
+    console.error('Error verifying hand:', error);
+    return NextResponse.json({ error: error.message || 'Internal Server Error' }, { status: 500 });
+  }
+}
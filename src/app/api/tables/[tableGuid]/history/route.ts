@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getTable, getHandHistory } from '@/lib/tableManager';
+import { formatPokerStarsHistory } from '@/lib/handHistory';
+import { isHost } from '@/lib/hostAuth';
+
+interface Params {
+  params: {
+    tableGuid: string;
+  };
+}
+
+// GET /api/tables/[tableGuid]/history - Get the completed hands played at a table
+// Add ?format=pokerstars to download the hands as a PokerStars hand history file
+export async function GET(request: NextRequest, { params }: Params) {
+  try {
+    const { tableGuid } = params;
+    const table = getTable(tableGuid);
+    
+    if (!table) {
+      return NextResponse.json({ error: 'Table not found' }, { status: 404 });
+    }
+    
+    if (!isHost(request, table)) {
+      return NextResponse.json({ error: 'Only the host can view the hand history' }, { status: 403 });
+    }
+    
+    const history = getHandHistory(tableGuid);
+    const format = request.nextUrl.searchParams.get('format');
+    
+    if (format === 'pokerstars') {
+      return new NextResponse(formatPokerStarsHistory(history), {
+        headers: {
+          'Content-Type': 'text/plain; charset=utf-8',
+          'Content-Disposition': `attachment; filename="dealme-${tableGuid}.txt"`,
+        },
+      });
+    }
+    
+    return NextResponse.json({ history });
+  } catch (error: any) {
+    console.error('Error fetching hand history:', error);
+    return NextResponse.json({ error: error.message || 'Internal Server Error' }, { status: 500 });
+  }
+}
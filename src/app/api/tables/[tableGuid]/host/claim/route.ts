@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getTable, claimHostHandoff } from '@/lib/tableManager';
+import { setHostCookie } from '@/lib/hostAuth';
+
+interface Params {
+  params: {
+    tableGuid: string;
+  };
+}
+
+// GET /api/tables/[tableGuid]/host/claim?code=... - Take control of a table with a handoff link, then open it
+export async function GET(request: NextRequest, { params }: Params) {
+  try {
+    const { tableGuid } = params;
+    const code = request.nextUrl.searchParams.get('code');
+    
+    if (!code) {
+      return NextResponse.json({ error: 'code is required' }, { status: 400 });
+    }
+    
+    if (!getTable(tableGuid)) {
+      return NextResponse.json({ error: 'Table not found' }, { status: 404 });
+    }
+    
+    let table;
+    try {
+      table = await claimHostHandoff(tableGuid, code);
+    } catch (error: any) {
+      // Wrong, used or expired codes
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+    
+    const response = NextResponse.redirect(new URL(`/table/${tableGuid}`, request.url));
+    setHostCookie(response, table);
+    
+    return response;
+  } catch (error: any) {
+    console.error('Error claiming host handoff:', error);
+    return NextResponse.json({ error: error.message || 'Internal Server Error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getTable, createHostHandoff } from '@/lib/tableManager';
+import { isHost } from '@/lib/hostAuth';
+
+interface Params {
+  params: {
+    tableGuid: string;
+  };
+}
+
+// POST /api/tables/[tableGuid]/host/handoff - Create a one-time link that gives another device control of the table
+export async function POST(request: NextRequest, { params }: Params) {
+  try {
+    const { tableGuid } = params;
+    const table = getTable(tableGuid);
+    
+    if (!table) {
+      return NextResponse.json({ error: 'Table not found' }, { status: 404 });
+    }
+    
+    if (!isHost(request, table)) {
+      return NextResponse.json({ error: 'Only the host can hand off control' }, { status: 403 });
+    }
+    
+    const code = await createHostHandoff(tableGuid);
+    
+    return NextResponse.json({
+      url: `/api/tables/${tableGuid}/host/claim?code=${code}`
+    });
+  } catch (error: any) {
+    console.error('Error creating host handoff:', error);
+    return NextResponse.json({ error: error.message || 'Internal Server Error' }, { status: 500 });
+  }
+}
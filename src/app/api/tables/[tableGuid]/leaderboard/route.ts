@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getTable, getHandHistory } from '@/lib/tableManager';
+import { createLeaderboard } from '@/lib/playerStats';
+import { isHost } from '@/lib/hostAuth';
+
+interface Params {
+  params: {
+    tableGuid: string;
+  };
+}
+
+// GET /api/tables/[tableGuid]/leaderboard - Get everyone dealt in at the table, ranked by their results
+export async function GET(request: NextRequest, { params }: Params) {
+  try {
+    const { tableGuid } = params;
+    const table = getTable(tableGuid);
+    
+    if (!table) {
+      return NextResponse.json({ error: 'Table not found' }, { status: 404 });
+    }
+    
+    if (!isHost(request, table)) {
+      return NextResponse.json({ error: 'Only the host can view the leaderboard' }, { status: 403 });
+    }
+    
+    return NextResponse.json({ leaderboard: createLeaderboard(table, getHandHistory(tableGuid)) });
+  } catch (error: any) {
+    console.error('Error fetching leaderboard:', error);
+    return NextResponse.json({ error: error.message || 'Internal Server Error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getTable } from '@/lib/tableManager';
+import { createLedgerView, formatLedgerCsv } from '@/lib/ledger';
+import { isHost } from '@/lib/hostAuth';
+
+interface Params {
+  params: {
+    tableGuid: string;
+  };
+}
+
+// GET /api/tables/[tableGuid]/ledger - Get the session's buy-ins, cash-outs and the payments that settle it
+// Add ?format=csv to download the balances and payments as a spreadsheet
+export async function GET(request: NextRequest, { params }: Params) {
+  try {
+    const { tableGuid } = params;
+    const table = getTable(tableGuid);
+    
+    if (!table) {
+      return NextResponse.json({ error: 'Table not found' }, { status: 404 });
+    }
+    
+    if (!isHost(request, table)) {
+      return NextResponse.json({ error: 'Only the host can view the ledger' }, { status: 403 });
+    }
+    
+    const ledger = createLedgerView(table);
+    const format = request.nextUrl.searchParams.get('format');
+    
+    if (format === 'csv') {
+      return new NextResponse(formatLedgerCsv(ledger), {
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="dealme-ledger-${tableGuid}.csv"`,
+        },
+      });
+    }
+    
+    return NextResponse.json({ ledger });
+  } catch (error: any) {
+    console.error('Error fetching ledger:', error);
+    return NextResponse.json({ error: error.message || 'Internal Server Error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getTable, claimRejoinCode } from '@/lib/tableManager';
+import { setPlayerCookie } from '@/lib/playerSession';
+
+interface Params {
+  params: {
+    tableGuid: string;
+  };
+}
+
+// POST /api/tables/[tableGuid]/rejoin - Get back to a seat with a rejoin code from the host
+export async function POST(request: NextRequest, { params }: Params) {
+  try {
+    const { tableGuid } = params;
+    const { code } = await request.json().catch(() => ({}));
+    
+    if (typeof code !== 'string' || !code.trim()) {
+      return NextResponse.json({ error: 'code is required' }, { status: 400 });
+    }
+    
+    if (!getTable(tableGuid)) {
+      return NextResponse.json({ error: 'Table not found' }, { status: 404 });
+    }
+    
+    let player;
+    try {
+      player = await claimRejoinCode(tableGuid, code);
+    } catch (error: any) {
+      // Wrong, used or expired codes
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+    
+    const response = NextResponse.json({
+      playerGuid: player.playerGuid,
+      redirect: `/player/${player.playerGuid}`
+    });
+    
+    setPlayerCookie(response, tableGuid, player.playerGuid);
+    
+    return response;
+  } catch (error: any) {
+    console.error('Error rejoining table:', error);
+    return NextResponse.json({ error: error.message || 'Internal Server Error' }, { status: 500 });
+  }
+}
@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getTable, resetHandToWaiting } from '@/lib/tableManager';
-import { generatePokerPlayerAlias } from '@/app/api/tables/playerNamer';
-import { generateTableName } from '@/app/api/tables/tableNamer';
+import { balanceAfterHand } from '@/lib/tournamentManager';
+import { createAdminView } from '@/lib/tableViews';
+import { isHost } from '@/lib/hostAuth';
 
 interface Params {
   params: {
@@ -9,21 +10,6 @@ interface Params {
   };
 }
 
-// Helper function to create a safe version of the table to return to clients
-function createSafeTable(table: Table) {
-  return {
-    ...table,
-    tableName: generateTableName(table.tableGuid),
-    // Add player aliases
-    players: table.players.map(player => ({
-      ...player,
-      playerAlias: generatePokerPlayerAlias(player.playerGuid)
-    })),
-    deck: [], // Don't expose the deck to clients
-    lastUpdated: new Date().toISOString() // Add timestamp for client synchronization
-  };
-}
-
 // POST /api/tables/[tableGuid]/reset - Reset a hand to waiting state
 export async function POST(request: NextRequest, { params }: Params) {
   try {
@@ -34,12 +20,16 @@ export async function POST(request: NextRequest, { params }: Params) {
       return NextResponse.json({ error: 'Table not found' }, { status: 404 });
     }
     
-    // Reset the hand to waiting state
-    const updatedTable = resetHandToWaiting(tableGuid);
+    if (!isHost(request, table)) {
+      return NextResponse.json({ error: 'Only the host can reset the hand' }, { status: 403 });
+    }
+    
+    // Reset the hand to waiting state, then balance a tournament table against the others
+    const updatedTable = await balanceAfterHand(await resetHandToWaiting(tableGuid));
     
     // Return the updated table
     return NextResponse.json({
-      table: createSafeTable(updatedTable)
+      table: createAdminView(updatedTable)
     });
   } catch (error: any) {
     console.error('Error resetting hand:', error);
@@ -1,7 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getTable, deleteTable, advanceGamePhase } from '@/lib/tableManager';
-import { generatePokerPlayerAlias } from '@/app/api/tables/playerNamer';
-import { generateTableName } from '@/app/api/tables/tableNamer';
+import { balanceAfterHand } from '@/lib/tournamentManager';
+import { createTableView, createAdminView } from '@/lib/tableViews';
+import { isHost } from '@/lib/hostAuth';
+import { TableRuleError } from '@/lib/tableErrors';
 
 interface Params {
   params: {
@@ -9,22 +11,7 @@ interface Params {
   };
 }
 
-// GET /api/tables/[tableGuid] - Get a specific table
-// Helper function to create a safe version of the table to return to clients
-function createSafeTable(table: Table) {
-  return {
-    ...table,
-    tableName: generateTableName(table.tableGuid),
-    // Add player aliases
-    players: table.players.map(player => ({
-      ...player,
-      playerAlias: generatePokerPlayerAlias(player.playerGuid)
-    })),
-    deck: [], // Don't expose the deck to clients
-    lastUpdated: new Date().toISOString() // Add timestamp for client synchronization
-  };
-}
-
+// GET /api/tables/[tableGuid] - Get the public display view of a table
 export async function GET(request: NextRequest, { params }: Params) {
   try {
     const { tableGuid } = params;
@@ -34,7 +21,7 @@ export async function GET(request: NextRequest, { params }: Params) {
       return NextResponse.json({ error: 'Table not found' }, { status: 404 });
     }
     
-    return NextResponse.json({ table: createSafeTable(table) });
+    return NextResponse.json({ table: createTableView(table) });
   } catch (error: any) {
     console.error('Error fetching table:', error);
     return NextResponse.json({ error: error.message || 'Internal Server Error' }, { status: 500 });
@@ -51,7 +38,11 @@ export async function DELETE(request: NextRequest, { params }: Params) {
       return NextResponse.json({ error: 'Table not found' }, { status: 404 });
     }
     
-    deleteTable(tableGuid);
+    if (!isHost(request, table)) {
+      return NextResponse.json({ error: 'Only the host can delete this table' }, { status: 403 });
+    }
+    
+    await deleteTable(tableGuid);
     
     return NextResponse.json({ success: true });
   } catch (error: any) {
@@ -70,12 +61,28 @@ export async function POST(request: NextRequest, { params }: Params) {
       return NextResponse.json({ error: 'Table not found' }, { status: 404 });
     }
     
+    if (!isHost(request, table)) {
+      return NextResponse.json({ error: 'Only the host can advance the game' }, { status: 403 });
+    }
+    
     // Advance the game phase
-    const updatedTable = advanceGamePhase(tableGuid);
+    let advancedTable;
+    try {
+      advancedTable = await advanceGamePhase(tableGuid);
+    } catch (error: any) {
+      // Players still owing a decision is the table's state, not a server error
+      if (!(error instanceof TableRuleError)) {
+        throw error;
+      }
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    
+    // A tournament table that has finished its hand is balanced against the others
+    const updatedTable = await balanceAfterHand(advancedTable);
     
     // Return the updated table
     return NextResponse.json({
-      table: createSafeTable(updatedTable)
+      table: createAdminView(updatedTable)
     });
   } catch (error: any) {
     console.error('Error advancing game phase:', error);
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getTable, updateTableSettings } from '@/lib/tableManager';
+import { createAdminView } from '@/lib/tableViews';
+import { isHost } from '@/lib/hostAuth';
+import { TableOptions } from '@/lib/types';
+import { TableRuleError } from '@/lib/tableErrors';
+
+interface Params {
+  params: {
+    tableGuid: string;
+  };
+}
+
+// POST /api/tables/[tableGuid]/settings - Change the table's settings between hands
+export async function POST(request: NextRequest, { params }: Params) {
+  try {
+    const { tableGuid } = params;
+    const options: TableOptions = await request.json().catch(() => ({}));
+    const table = getTable(tableGuid);
+    
+    if (!table) {
+      return NextResponse.json({ error: 'Table not found' }, { status: 404 });
+    }
+    
+    if (!isHost(request, table)) {
+      return NextResponse.json({ error: 'Only the host can change the table settings' }, { status: 403 });
+    }
+    
+    let updatedTable;
+    try {
+      updatedTable = await updateTableSettings(tableGuid, options);
+    } catch (error: any) {
+      // Invalid settings, or a hand in progress
+      if (!(error instanceof TableRuleError)) {
+        throw error;
+      }
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    
+    return NextResponse.json({
+      table: createAdminView(updatedTable)
+    });
+  } catch (error: any) {
+    console.error('Error updating table settings:', error);
+    return NextResponse.json({ error: error.message || 'Internal Server Error' }, { status: 500 });
+  }
+}
@@ -1,5 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getTable, addPlayer } from '@/lib/tableManager';
+import {
+  getSessionPlayerGuid,
+  getLastPlayerGuid,
+  setPlayerCookie,
+  getSessionProfile,
+  createProfileCredentials,
+  setProfileCookie
+} from '@/lib/playerSession';
+import { getPlayerInSeat } from '@/lib/seats';
+import { getPlayerAlias, normalizeNickname, validateAvatar } from '@/lib/playerIdentity';
+import { recordSitDown } from '@/lib/profiles';
+import { TableRuleError } from '@/lib/tableErrors';
 
 interface Params {
   params: {
@@ -7,68 +19,124 @@ interface Params {
   };
 }
 
-// Map to track in-flight requests to prevent duplicates
-// Using a Map with tableGuid as key and Set of RequestIds as values
-const inFlightRequests = new Map<string, Set<string>>();
-
-// Clean up completed requests after a delay
-const cleanupRequest = (tableGuid: string, requestId: string) => {
-  setTimeout(() => {
-    const requests = inFlightRequests.get(tableGuid);
-    if (requests) {
-      requests.delete(requestId);
-      if (requests.size === 0) {
-        inFlightRequests.delete(tableGuid);
-      }
-    }
-  }, 5000); // Clean up after 5 seconds
-};
-
-// POST /api/tables/[tableGuid]/sitdown - Add a player to a table
-export async function POST(request: NextRequest, { params }: Params) {
+// GET /api/tables/[tableGuid]/sitdown - Get the seats to choose from, or the seat this device already has
+// Also returns the nickname and avatar from this device's profile, to start the form with
+export async function GET(request: NextRequest, { params }: Params) {
   try {
     const { tableGuid } = params;
+    const table = getTable(tableGuid);
+    
+    if (!table) {
+      return NextResponse.json({ error: 'Table not found' }, { status: 404 });
+    }
     
-    // Generate a unique ID for this request
-    const requestId = crypto.randomUUID();
+    const existingPlayerGuid = getSessionPlayerGuid(request, table);
     
-    // Check if this table has in-flight requests
-    if (!inFlightRequests.has(tableGuid)) {
-      inFlightRequests.set(tableGuid, new Set());
+    if (existingPlayerGuid) {
+      return NextResponse.json({
+        playerGuid: existingPlayerGuid,
+        redirect: `/player/${existingPlayerGuid}`
+      });
     }
     
-    // Add this request to the in-flight set
-    const requests = inFlightRequests.get(tableGuid)!;
+    const seats = Array.from({ length: table.maxPlayers }, (_, index) => {
+      const player = getPlayerInSeat(table, index + 1);
+      return {
+        seat: index + 1,
+        playerAlias: player ? getPlayerAlias(player) : null,
+        avatar: player?.avatar
+      };
+    });
+    
+    const profile = getSessionProfile(request);
+    
+    return NextResponse.json({
+      seats,
+      profile: profile ? { nickname: profile.nickname, avatar: profile.avatar } : null
+    });
+  } catch (error: any) {
+    console.error('Error fetching seats:', error);
+    return NextResponse.json({ error: error.message || 'Internal Server Error' }, { status: 500 });
+  }
+}
+
+// POST /api/tables/[tableGuid]/sitdown - Add a player to a table, optionally in a chosen seat and with a
+// nickname and avatar ({ seat, nickname, avatar }); without a nickname the player gets a generated alias
+// A device that already has a seat here gets that seat back instead of a new one
+export async function POST(request: NextRequest, { params }: Params) {
+  try {
+    const { tableGuid } = params;
+    const { seat, nickname, avatar } = await request.json().catch(() => ({}));
     
-    // If there are already too many in-flight requests, return a 429 to prevent abuse
-    if (requests.size >= 3) { // Limit to 3 concurrent sit-down requests per table
-      return NextResponse.json({ 
-        error: 'Too many sit-down requests for this table. Please try again.' 
-      }, { status: 429 });
+    if (seat !== undefined && !Number.isInteger(seat)) {
+      return NextResponse.json({ error: 'seat must be a whole number' }, { status: 400 });
     }
     
-    requests.add(requestId);
+    let identity;
+    try {
+      identity = {
+        nickname: nickname === undefined || nickname === '' ? undefined : normalizeNickname(nickname),
+        avatar: avatar === undefined || avatar === null ? undefined : validateAvatar(avatar)
+      };
+    } catch (error: any) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
     
     const table = getTable(tableGuid);
     
     if (!table) {
-      // Clean up the request ID since we're returning early
-      requests.delete(requestId);
       return NextResponse.json({ error: 'Table not found' }, { status: 404 });
     }
     
-    // Add a new player to the table
-    const { player, table: updatedTable } = addPlayer(tableGuid);
+    const existingPlayerGuid = getSessionPlayerGuid(request, table);
+    
+    if (existingPlayerGuid) {
+      return NextResponse.json({
+        playerGuid: existingPlayerGuid,
+        redirect: `/player/${existingPlayerGuid}`
+      });
+    }
+    
+    // Sit down under the profile this device proved it owns, or start a new one
+    const sessionProfile = getSessionProfile(request);
+    const profileCredentials = sessionProfile?.secret
+      ? { profileId: sessionProfile.profileId, secret: sessionProfile.secret }
+      : createProfileCredentials();
+    
+    // Add a new player to the table (queued behind any other changes to this table)
+    // Someone coming back after cashing out rebuys under their old guid
+    let player;
+    try {
+      ({ player } = await addPlayer(tableGuid, seat, getLastPlayerGuid(request, table), {
+        ...identity,
+        profileId: profileCredentials.profileId
+      }));
+    } catch (error: any) {
+      // The table filled up, someone else took the seat first or already goes by that nickname
+      if (!(error instanceof TableRuleError)) {
+        throw error;
+      }
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
     console.log('Added player at table ' + tableGuid);
     
-    // Schedule cleanup of this request ID
-    cleanupRequest(tableGuid, requestId);
+    // The profile keeps the seat and the nickname for next time; the player is seated either way
+    try {
+      recordSitDown(profileCredentials.profileId, profileCredentials.secret, tableGuid, player.playerGuid, identity);
+    } catch (error) {
+      console.error('Error updating player profile:', error);
+    }
     
     // Return the player GUID for redirection
-    return NextResponse.json({
+    const response = NextResponse.json({
       playerGuid: player.playerGuid,
       redirect: `/player/${player.playerGuid}`
     }, { status: 201 });
+    
+    setPlayerCookie(response, tableGuid, player.playerGuid);
+    setProfileCookie(response, profileCredentials.profileId, profileCredentials.secret);
+    
+    return response;
   } catch (error: any) {
     console.error('Error adding player to table:', error);
     return NextResponse.json({ error: error.message || 'Internal Server Error' }, { status: 500 });
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getTable } from '@/lib/tableManager';
+import { createTableView } from '@/lib/tableViews';
+import { createEventStream } from '@/lib/eventStream';
+
+// Streams stay open, so never cache or pre-render this route
+export const dynamic = 'force-dynamic';
+
+interface Params {
+  params: {
+    tableGuid: string;
+  };
+}
+
+// GET /api/tables/[tableGuid]/stream - Stream the public display view of a table as Server-Sent Events
+export async function GET(request: NextRequest, { params }: Params) {
+  try {
+    const { tableGuid } = params;
+    
+    if (!getTable(tableGuid)) {
+      return NextResponse.json({ error: 'Table not found' }, { status: 404 });
+    }
+    
+    return createEventStream(
+      request,
+      () => {
+        const table = getTable(tableGuid);
+        return table ? { table: createTableView(table) } : null;
+      },
+      changedTableGuid => changedTableGuid === tableGuid
+    );
+  } catch (error: any) {
+    console.error('Error streaming table:', error);
+    return NextResponse.json({ error: error.message || 'Internal Server Error' }, { status: 500 });
+  }
+}
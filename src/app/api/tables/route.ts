@@ -1,10 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createTable, getAllTables } from '@/lib/tableManager';
+import { TableOptions } from '@/lib/types';
+import { resolveTableSettings, validateTableSettings } from '@/lib/tableSettings';
+import { isHost, setHostCookie } from '@/lib/hostAuth';
 
-// GET /api/tables - Get all tables
-export async function GET() {
+// GET /api/tables - Get the tables this device is hosting
+export async function GET(request: NextRequest) {
   try {
-    const tables = getAllTables();
+    const tables = getAllTables().filter(table => isHost(request, table));
     
     // Create a safe version of each table to return (remove cards from deck)
     const safeTables = tables.map(table => ({
@@ -12,6 +15,7 @@ export async function GET() {
       gamePhase: table.gamePhase,
       playerCount: table.players.length,
       maxPlayers: table.maxPlayers,
+      variant: table.variant ?? 'holdem',
     }));
     
     return NextResponse.json({ tables: safeTables });
@@ -22,14 +26,28 @@ export async function GET() {
 }
 
 // POST /api/tables - Create a new table
-export async function POST() {
+export async function POST(request: NextRequest) {
   try {
-    const table = createTable();
+    // The body is optional; without one the table is created with the default settings (no chips)
+    const options: TableOptions = await request.json().catch(() => ({}));
+    const settings = resolveTableSettings(options);
+    const validationError = validateTableSettings(settings);
     
-    return NextResponse.json({
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+    
+    const table = createTable(settings);
+    
+    const response = NextResponse.json({
       tableGuid: table.tableGuid,
       redirect: `/table/${table.tableGuid}`
     }, { status: 201 });
+    
+    // The device that created the table is its host
+    setHostCookie(response, table);
+    
+    return response;
   } catch (error: any) {
     console.error('Error creating table:', error);
     return NextResponse.json({ error: error.message || 'Internal Server Error' }, { status: 500 });
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getMultiTableTournament, getTournamentTables, balanceTournament } from '@/lib/tournamentManager';
+import { createMultiTableTournamentView } from '@/lib/tableViews';
+import { isHost } from '@/lib/hostAuth';
+
+interface Params {
+  params: {
+    tournamentGuid: string;
+  };
+}
+
+// POST /api/tournaments/[tournamentGuid]/balance - Balance the tournament's tables now (this also runs after every hand)
+export async function POST(request: NextRequest, { params }: Params) {
+  try {
+    const { tournamentGuid } = params;
+    const tournament = getMultiTableTournament(tournamentGuid);
+    
+    if (!tournament) {
+      return NextResponse.json({ error: 'Tournament not found' }, { status: 404 });
+    }
+    
+    // Hosting any of its tables is enough to run the tournament
+    if (!getTournamentTables(tournament).some(table => isHost(request, table))) {
+      return NextResponse.json({ error: 'Only the host can balance the tables' }, { status: 403 });
+    }
+    
+    const balanced = await balanceTournament(tournamentGuid);
+    
+    return NextResponse.json({
+      tournament: createMultiTableTournamentView(balanced, getTournamentTables(balanced))
+    });
+  } catch (error: any) {
+    console.error('Error balancing tournament:', error);
+    return NextResponse.json({ error: error.message || 'Internal Server Error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getMultiTableTournament, getTournamentTables } from '@/lib/tournamentManager';
+import { createMultiTableTournamentView } from '@/lib/tableViews';
+
+interface Params {
+  params: {
+    tournamentGuid: string;
+  };
+}
+
+// GET /api/tournaments/[tournamentGuid] - Get a multi-table tournament's tables and eliminations
+export async function GET(request: NextRequest, { params }: Params) {
+  try {
+    const { tournamentGuid } = params;
+    const tournament = getMultiTableTournament(tournamentGuid);
+    
+    if (!tournament) {
+      return NextResponse.json({ error: 'Tournament not found' }, { status: 404 });
+    }
+    
+    return NextResponse.json({
+      tournament: createMultiTableTournamentView(tournament, getTournamentTables(tournament))
+    });
+  } catch (error: any) {
+    console.error('Error fetching tournament:', error);
+    return NextResponse.json({ error: error.message || 'Internal Server Error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createMultiTableTournament } from '@/lib/tournamentManager';
+import { resolveTableSettings, validateTableSettings } from '@/lib/tableSettings';
+import { MAX_TOURNAMENT_TABLES } from '@/lib/tournament';
+import { setHostCookie } from '@/lib/hostAuth';
+import { getTable } from '@/lib/tableManager';
+import { TableOptions } from '@/lib/types';
+
+// POST /api/tournaments - Open a multi-table tournament: several tables sharing one set of settings
+export async function POST(request: NextRequest) {
+  try {
+    const { tableCount, settings: options } = await request.json().catch(() => ({})) as
+      { tableCount?: number; settings?: TableOptions };
+    const settings = resolveTableSettings(options ?? {});
+    const validationError = validateTableSettings(settings);
+    
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+    
+    if (!settings.tournament) {
+      return NextResponse.json({ error: 'A multi-table tournament needs tournament blind levels' }, { status: 400 });
+    }
+    
+    if (typeof tableCount !== 'number' || !Number.isInteger(tableCount) || tableCount < 2 || tableCount > MAX_TOURNAMENT_TABLES) {
+      return NextResponse.json({ error: `tableCount must be between 2 and ${MAX_TOURNAMENT_TABLES}` }, { status: 400 });
+    }
+    
+    const tournament = createMultiTableTournament(settings, tableCount);
+    
+    const response = NextResponse.json({
+      tournamentGuid: tournament.tournamentGuid,
+      redirect: `/tournament/${tournament.tournamentGuid}`
+    }, { status: 201 });
+    
+    // The device that opened the tournament hosts every one of its tables
+    for (const tableGuid of tournament.tableGuids) {
+      const table = getTable(tableGuid);
+      if (table) {
+        setHostCookie(response, table);
+      }
+    }
+    
+    return response;
+  } catch (error: any) {
+    console.error('Error creating tournament:', error);
+    return NextResponse.json({ error: error.message || 'Internal Server Error' }, { status: 500 });
+  }
+}
@@ -5,12 +5,18 @@ import { useRouter } from 'next/navigation';
 import Link from 'next/link';
 import { generateTableName } from '@/app/api/tables/tableNamer';
 import ThemeToggle from '@/components/ThemeToggle';
+import { GAME_VARIANTS } from '@/lib/gameVariants';
+import TableSettingsForm from '@/components/TableSettingsForm';
+import { DEFAULT_TABLE_SETTINGS, validateTableSettings } from '@/lib/tableSettings';
+import { MAX_TOURNAMENT_TABLES } from '@/lib/tournament';
+import { GameVariantId, TableSettings } from '@/lib/types';
 
 interface TableInfo {
   tableGuid: string;
   playerCount: number;
   maxPlayers: number;
   gamePhase: string;
+  variant: GameVariantId;
 }
 
 interface ConfirmModalProps {
@@ -54,6 +60,8 @@ export default function Home() {
   const [error, setError] = useState<string | null>(null);
   const [deleteConfirmOpen, setDeleteConfirmOpen] = useState<boolean>(false);
   const [tableToDelete, setTableToDelete] = useState<string | null>(null);
+  const [settings, setSettings] = useState<TableSettings>(DEFAULT_TABLE_SETTINGS);
+  const [tableCount, setTableCount] = useState<number>(1); // More than one opens a multi-table tournament
   const router = useRouter();
   
   // Update page title
@@ -123,13 +131,24 @@ export default function Home() {
     }
   };
   
-  // Create a new table
+  // Several tables share one tournament, which keeps them balanced as players bust
+  const isMultiTable = settings.tournament !== null && tableCount > 1;
+  
+  // Check the form as it is filled in, so mistakes show before the table is created
+  const settingsError = validateTableSettings(settings) ??
+    (settings.tournament && (!Number.isInteger(tableCount) || tableCount < 1 || tableCount > MAX_TOURNAMENT_TABLES)
+      ? `Tables must be between 1 and ${MAX_TOURNAMENT_TABLES}`
+      : null);
+  
+  // Create a new table, or every table of a multi-table tournament
   const handleCreateTable = async () => {
     try {
       setLoading(true);
       
-      const response = await fetch('/api/tables', {
+      const response = await fetch(isMultiTable ? '/api/tournaments' : '/api/tables', {
         method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(isMultiTable ? { tableCount, settings } : settings),
       });
       
       const data = await response.json();
@@ -162,25 +181,47 @@ export default function Home() {
       <div className="mb-8">
         <button 
           onClick={handleCreateTable} 
-          disabled={loading}
+          disabled={loading || settingsError !== null}
           className="btn"
         >
-          {loading ? 'Creating...' : 'Create New Table'}
+          {loading ? 'Creating...' : isMultiTable ? `Create Tournament (${tableCount} tables)` : 'Create New Table'}
         </button>
+        
+        {settings.tournament && (
+          <label className="ml-3 text-sm">
+            <span className="mr-1">Tables</span>
+            <input
+              type="number"
+              min={1}
+              max={MAX_TOURNAMENT_TABLES}
+              value={tableCount}
+              onChange={e => setTableCount(parseInt(e.target.value, 10) || 0)}
+              className="w-16 px-2 py-1 rounded border dark:bg-gray-800 dark:border-gray-600"
+            />
+          </label>
+        )}
+        
+        <div className="mt-3">
+          <TableSettingsForm settings={settings} onChange={setSettings} />
+        </div>
+        {settingsError && (
+          <p className="mt-2 text-sm text-red-600">{settingsError}</p>
+        )}
       </div>
       
-      <h2 className="text-xl font-semibold mb-4">Active Tables</h2>
+      <h2 className="text-xl font-semibold mb-4">Your Tables</h2>
       
       {loading ? (
         <p>Loading tables...</p>
       ) : tables.length === 0 ? (
-        <p>No active tables. Create one to get started!</p>
+        <p>You are not hosting any tables on this device. Create one to get started!</p>
       ) : (
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
           {tables.map(table => (
             <div key={table.tableGuid} className="card">
               <h3 className="text-lg font-semibold mb-2">{generateTableName(table.tableGuid)} ({table.tableGuid.substring(0, 4)}...)</h3>
               <p className="mb-1">Players: {table.playerCount}/{table.maxPlayers}</p>
+              <p className="mb-1">Game: {(GAME_VARIANTS[table.variant] ?? GAME_VARIANTS.holdem).name}</p>
               <p className="mb-4">Phase: {table.gamePhase}</p>
               <div className="flex space-x-2">
                 <Link href={`/table/${table.tableGuid}`} className="btn flex-grow text-center">
@@ -1,23 +1,95 @@
 "use client";
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import { useParams } from 'next/navigation';
+import Link from 'next/link';
 import Card from '@/components/Card';
 import FlippableCard from '@/components/FlippableCard';
-import { usePolling } from '@/lib/usePolling';
-import { Player as PlayerType } from '@/lib/types';
+import { useTableStream } from '@/lib/useTableStream';
+import { Player as PlayerType, PlayerView, BettingAction, MissedBlinds, PlayerAvatar as Avatar, Card as CardType, GameVariantId } from '@/lib/types';
+import { GAME_VARIANTS, describePlayerHand } from '@/lib/gameVariants';
 import { generatePokerPlayerAlias } from '@/app/api/tables/playerNamer';
 import ThemeToggle from '@/components/ThemeToggle';
+import PlayerAvatar from '@/components/PlayerAvatar';
+import PlayerIdentityForm from '@/components/PlayerIdentityForm';
+import PlayerStatsPanel from '@/components/PlayerStatsPanel';
 
 interface PlayerData {
   player: PlayerType;
   tableGuid: string;
   tableName?: string;
   gamePhase: string;
+  phaseName: string;
+  variant: GameVariantId;
+  variantName: string;
+  holeCards: number;
+  discardsRequired: number;
   handNumber: number;
+  communityCards: CardType[];
+  handStrengthHint: boolean;
+  serverSeedHash: string;
+  clientSeed?: string;
   isDealer?: boolean;
   isSmallBlind?: boolean;
   isBigBlind?: boolean;
+  bettingEnabled: boolean;
+  pot: number;
+  currentBet: number;
+  bigBlind: number;
+  isMyTurn: boolean;
+  toCall: number;
+  minRaiseTo: number;
+  maxRaiseTo: number;
+  canRaise: boolean;
+  canRebuy: boolean;
+}
+
+// Flatten the player view returned by the API into page state
+function toPlayerData(data: PlayerView): PlayerData {
+  return {
+    player: data.player,
+    tableGuid: data.table.tableGuid,
+    tableName: data.table.tableName,
+    gamePhase: data.table.gamePhase,
+    phaseName: data.table.phaseName,
+    variant: data.table.variant,
+    variantName: data.table.variantName,
+    holeCards: data.table.holeCards,
+    discardsRequired: data.table.discardsRequired,
+    handNumber: data.table.handNumber,
+    communityCards: data.table.communityCards,
+    handStrengthHint: data.table.handStrengthHint,
+    serverSeedHash: data.table.serverSeedHash,
+    clientSeed: data.table.clientSeed,
+    isDealer: data.table.isDealer,
+    isSmallBlind: data.table.isSmallBlind,
+    isBigBlind: data.table.isBigBlind,
+    bettingEnabled: data.table.bettingEnabled,
+    pot: data.table.pot,
+    currentBet: data.table.currentBet,
+    bigBlind: data.table.bigBlind,
+    isMyTurn: data.table.isMyTurn,
+    toCall: data.table.toCall,
+    minRaiseTo: data.table.minRaiseTo,
+    maxRaiseTo: data.table.maxRaiseTo,
+    canRaise: data.table.canRaise,
+    canRebuy: data.table.canRebuy,
+  };
+}
+
+// Name the blinds a player missed while sitting out (e.g., "small and big blinds")
+function describeMissedBlinds(missedBlinds: MissedBlinds): string {
+  if (missedBlinds.small && missedBlinds.big) {
+    return 'small and big blinds';
+  }
+  return missedBlinds.big ? 'big blind' : 'small blind';
+}
+
+// Generate a random seed to contribute to the shuffle (e.g., "9f86d081884c7d65")
+function createRandomSeed(): string {
+  return Array.from(window.crypto.getRandomValues(new Uint8Array(8)))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
 }
 
 // Add CSS to prevent iOS contextual menu on images and text selection
@@ -60,6 +132,24 @@ export default function PlayerPage() {
   const [error, setError] = useState<string | null>(null);
   const [lastContentUpdate, setLastContentUpdate] = useState<Date | null>(null);
   const [showAllCards, setShowAllCards] = useState<boolean>(false);
+  const [betAmount, setBetAmount] = useState<number>(0);
+  const [isActing, setIsActing] = useState<boolean>(false);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [discardSelection, setDiscardSelection] = useState<string | null>(null);
+  const [seedInput, setSeedInput] = useState<string>('');
+  const [isSendingSeed, setIsSendingSeed] = useState<boolean>(false);
+  const [isChangingSitOut, setIsChangingSitOut] = useState<boolean>(false);
+  const [isRebuying, setIsRebuying] = useState<boolean>(false);
+  const [isEditingIdentity, setIsEditingIdentity] = useState<boolean>(false);
+  const [nicknameDraft, setNicknameDraft] = useState<string>('');
+  const [avatarDraft, setAvatarDraft] = useState<Avatar | null>(null);
+  const [isSavingIdentity, setIsSavingIdentity] = useState<boolean>(false);
+  const [identityError, setIdentityError] = useState<string | null>(null);
+  const [activeTab, setActiveTab] = useState<'cards' | 'stats'>('cards');
+  const [showHandName, setShowHandName] = useState<boolean>(false);
+  const autoSeededHashRef = useRef<string | null>(null);
+  const [movedToTable, setMovedToTable] = useState<string | null>(null);
+  const tableGuidRef = useRef<string | null>(null);
   
   // Get player alias for the title if playerData exists
   const playerAlias = playerData?.player.playerAlias || 
@@ -71,6 +161,16 @@ export default function PlayerPage() {
     document.title = pageTitle;
   }, [pageTitle]);
   
+  // The hand helper is off until the player turns it on, and the phone remembers their choice
+  useEffect(() => {
+    setShowHandName(localStorage.getItem('showHandName') === 'true');
+  }, []);
+  
+  const toggleHandName = () => {
+    localStorage.setItem('showHandName', String(!showHandName));
+    setShowHandName(!showHandName);
+  };
+  
   // Handler for background press
   const handleBackgroundPress = useCallback((event: React.MouseEvent | React.TouchEvent) => {
     // Only respond to presses on the container itself, not its children
@@ -89,47 +189,27 @@ export default function PlayerPage() {
     return false;
   }, []);
   
-  // Set up polling
+  // Subscribe to live updates, polling only if the stream drops
   const { 
     data, 
     error: pollingError, 
     isLoading: pollingLoading,
     lastUpdated 
-  } = usePolling(`/api/players/${playerGuid}`, {
-    interval: 2000, // Poll every 5 seconds
+  } = useTableStream(`/api/players/${playerGuid}/stream`, `/api/players/${playerGuid}`, {
+    interval: 2000, // Fallback poll every 2 seconds
     onData: (data) => {
       if (data.player) {
         // Only update state if something has actually changed to prevent flickering
         setLoading(false);
         
-        // Check if we need to update the state
-        if (!playerData) {
-          // Initial data load
-          setPlayerData({
-            player: data.player,
-            tableGuid: data.table.tableGuid,
-            tableName: data.table.tableName,
-            gamePhase: data.table.gamePhase,
-            handNumber: data.table.handNumber,
-            isDealer: data.table.isDealer,
-            isSmallBlind: data.table.isSmallBlind,
-            isBigBlind: data.table.isBigBlind,
-          });
-          setLastContentUpdate(new Date());
-          return;
-        }
-        
-        setPlayerData({
-          player: data.player,
-          tableGuid: data.table.tableGuid,
-          tableName: data.table.tableName,
-          gamePhase: data.table.gamePhase,
-          handNumber: data.table.handNumber,
-          isDealer: data.table.isDealer,
-          isSmallBlind: data.table.isSmallBlind,
-          isBigBlind: data.table.isBigBlind,
-        });
+        setPlayerData(toPlayerData(data));
         setLastContentUpdate(new Date());
+        
+        // Tournament tables move players to keep the tables even; the stream follows them to their new seat
+        if (tableGuidRef.current && tableGuidRef.current !== data.table.tableGuid) {
+          setMovedToTable(data.table.tableName);
+        }
+        tableGuidRef.current = data.table.tableGuid;
       }
     },
     onError: (err) => {
@@ -140,7 +220,7 @@ export default function PlayerPage() {
   // Handle connection errors by setting a state but not showing an error message
   const [connectionError, setConnectionError] = useState<boolean>(false);
   
-  // First load is handled by the usePolling hook
+  // First load is handled by the useTableStream hook
   useEffect(() => {
     if (pollingError) {
       // Instead of showing an error, just track the error state
@@ -151,6 +231,200 @@ export default function PlayerPage() {
     }
   }, [pollingError]);
   
+  // Keep the bet slider at a legal amount whenever it becomes our turn
+  useEffect(() => {
+    if (playerData?.isMyTurn) {
+      setBetAmount(Math.min(playerData.minRaiseTo, playerData.maxRaiseTo));
+    }
+  }, [playerData?.isMyTurn, playerData?.minRaiseTo, playerData?.maxRaiseTo]);
+  
+  // Contribute a seed to the next hand's shuffle
+  const sendSeed = useCallback(async (clientSeed: string) => {
+    try {
+      setIsSendingSeed(true);
+      
+      const response = await fetch(`/api/players/${playerGuid}/seed`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ clientSeed }),
+      });
+      
+      const data = await response.json();
+      
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to send seed');
+      }
+      
+      setPlayerData(toPlayerData(data));
+      setLastContentUpdate(new Date());
+      setSeedInput('');
+    } catch (err: any) {
+      setActionError(err.message);
+    } finally {
+      setIsSendingSeed(false);
+    }
+  }, [playerGuid]);
+  
+  // Every phone contributes a random seed to each shuffle unless the player picks their own
+  // Only try once per commitment so a rejected seed doesn't retry in a loop
+  useEffect(() => {
+    if (
+      playerData?.gamePhase === 'Waiting' &&
+      !playerData.clientSeed &&
+      autoSeededHashRef.current !== playerData.serverSeedHash
+    ) {
+      autoSeededHashRef.current = playerData.serverSeedHash;
+      sendSeed(createRandomSeed());
+    }
+  }, [playerData?.gamePhase, playerData?.clientSeed, playerData?.serverSeedHash, sendSeed]);
+  
+  // Sit out from the next hand (keeping the seat), or sit back in
+  const handleSitOut = async (sittingOut: boolean) => {
+    try {
+      setIsChangingSitOut(true);
+      setActionError(null);
+      
+      const response = await fetch(`/api/players/${playerGuid}/sitout`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ sittingOut }),
+      });
+      
+      const data = await response.json();
+      
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to change sitting out');
+      }
+      
+      setPlayerData(toPlayerData(data));
+      setLastContentUpdate(new Date());
+    } catch (err: any) {
+      setActionError(err.message);
+    } finally {
+      setIsChangingSitOut(false);
+    }
+  };
+  
+  // Buy back in with a fresh stack after losing all the chips
+  const handleRebuy = async () => {
+    try {
+      setIsRebuying(true);
+      setActionError(null);
+      
+      const response = await fetch(`/api/players/${playerGuid}/rebuy`, { method: 'POST' });
+      const data = await response.json();
+      
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to rebuy');
+      }
+      
+      setPlayerData(toPlayerData(data));
+      setLastContentUpdate(new Date());
+    } catch (err: any) {
+      setActionError(err.message);
+    } finally {
+      setIsRebuying(false);
+    }
+  };
+  
+  // Open the nickname and avatar editor with what the player has now
+  const startEditingIdentity = () => {
+    if (!playerData) return;
+    
+    // A generated alias isn't a nickname, so the box starts empty until one is picked
+    const isGenerated = playerData.player.playerAlias === generatePokerPlayerAlias(playerData.player.playerGuid);
+    setNicknameDraft(isGenerated ? '' : playerData.player.playerAlias ?? '');
+    setAvatarDraft(playerData.player.avatar ?? null);
+    setIdentityError(null);
+    setIsEditingIdentity(true);
+  };
+  
+  // Save a new nickname and avatar; an empty nickname goes back to the generated alias
+  const handleSaveIdentity = async () => {
+    try {
+      setIsSavingIdentity(true);
+      setIdentityError(null);
+      
+      const response = await fetch(`/api/players/${playerGuid}/identity`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ nickname: nicknameDraft.trim(), avatar: avatarDraft }),
+      });
+      
+      const data = await response.json();
+      
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to change nickname');
+      }
+      
+      setPlayerData(toPlayerData(data));
+      setLastContentUpdate(new Date());
+      setIsEditingIdentity(false);
+    } catch (err: any) {
+      setIdentityError(err.message);
+    } finally {
+      setIsSavingIdentity(false);
+    }
+  };
+  
+  // Throw away the selected pocket card (Pineapple)
+  const handleDiscard = async () => {
+    if (!discardSelection) return;
+    
+    try {
+      setIsActing(true);
+      setActionError(null);
+      
+      const response = await fetch(`/api/players/${playerGuid}/discard`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ cardCode: discardSelection }),
+      });
+      
+      const data = await response.json();
+      
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to discard');
+      }
+      
+      setPlayerData(toPlayerData(data));
+      setLastContentUpdate(new Date());
+      setDiscardSelection(null);
+    } catch (err: any) {
+      setActionError(err.message);
+    } finally {
+      setIsActing(false);
+    }
+  };
+  
+  // Send a betting action to the server
+  const handleAction = async (action: BettingAction, amount?: number) => {
+    try {
+      setIsActing(true);
+      setActionError(null);
+      
+      const response = await fetch(`/api/players/${playerGuid}/action`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action, amount }),
+      });
+      
+      const data = await response.json();
+      
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to act');
+      }
+      
+      // Update local state immediately rather than waiting for the next poll
+      setPlayerData(toPlayerData(data));
+      setLastContentUpdate(new Date());
+    } catch (err: any) {
+      setActionError(err.message);
+    } finally {
+      setIsActing(false);
+    }
+  };
+  
   if (loading || pollingLoading) {
     // Silently load
   }
@@ -170,6 +444,11 @@ export default function PlayerPage() {
     return <div className="container mx-auto px-4 py-8">Player not found</div>;
   }
   
+  // Name the player's best hand for the hand helper, when the host allows it and the player has it on
+  const handName = playerData.handStrengthHint && showHandName && !playerData.player.hasFolded
+    ? describePlayerHand(GAME_VARIANTS[playerData.variant], playerData.player.pocketCards, playerData.communityCards)
+    : null;
+  
   return (
     <>
       <div className="container mx-auto px-2 py-2 flex flex-col h-screen">
@@ -179,7 +458,24 @@ export default function PlayerPage() {
       <div className="bg-white dark:bg-slate-800 shadow-sm rounded-lg p-2 mb-2 flex justify-between items-center">
         <div className="flex flex-col">
           <h1 className="text-lg font-bold flex items-center">
+            <PlayerAvatar avatar={playerData.player.avatar} name={playerData.player.playerAlias ?? ''} className="w-6 h-6 text-sm mr-1" />
             {playerData.player.playerAlias}
+            <button
+              onClick={startEditingIdentity}
+              className="ml-1 text-sm font-normal text-gray-400 hover:text-gray-600 dark:hover:text-gray-200"
+              title="Change nickname and avatar"
+            >
+              ✎
+            </button>
+            {playerData.player.profileId && (
+              <Link
+                href={`/profile/${playerData.player.profileId}`}
+                className="ml-1 text-xs font-normal text-blue-600 dark:text-blue-400 hover:underline"
+              >
+                Profile
+              </Link>
+            )}
+            <span className="ml-2 text-sm font-normal text-gray-500">Seat {playerData.player.seat}</span>
             <div className="flex ml-2 space-x-1">
               {playerData.isDealer && (
                 <span 
@@ -209,13 +505,30 @@ export default function PlayerPage() {
           </h1>
           <div className="flex text-xs space-x-3 text-gray-600 dark:text-gray-300">
             <span><strong>Table:</strong> {playerData.tableName ? `${playerData.tableName} (${playerData.tableGuid.substring(0, 4)})` : playerData.tableGuid.substring(0, 4)}</span>
-            <span><strong>Phase:</strong> {playerData.gamePhase}</span>
+            <span><strong>Game:</strong> {playerData.variantName}</span>
+            <span><strong>Phase:</strong> {playerData.phaseName}</span>
             {playerData.gamePhase !== 'Waiting' && (
               <span><strong>Hand:</strong> {`#${playerData.handNumber}`}</span>
             )}
           </div>
         </div>
         <div className="self-start flex items-center space-x-2">
+          <button 
+            onClick={() => handleSitOut(!playerData.player.sittingOut)} 
+            disabled={isChangingSitOut}
+            className="px-2 py-1 rounded text-xs bg-gray-200 dark:bg-gray-700 disabled:opacity-50"
+          >
+            {playerData.player.sittingOut ? 'Sit Back In' : 'Sit Out'}
+          </button>
+          {playerData.handStrengthHint && (
+            <button 
+              onClick={toggleHandName} 
+              className="px-2 py-1 rounded text-xs bg-gray-200 dark:bg-gray-700"
+              title="Name your best hand while your cards are revealed"
+            >
+              Hand Helper: {showHandName ? 'On' : 'Off'}
+            </button>
+          )}
           <ThemeToggle className="mr-2" />
           {connectionError ? (
             <span 
@@ -237,9 +550,35 @@ export default function PlayerPage() {
         </div>
       </div>
       
-      {/* Cards - taking up most of the screen */}
+      {movedToTable && (
+        <div className="bg-amber-100 dark:bg-amber-900/30 border-l-4 border-amber-500 text-amber-800 dark:text-amber-300 p-2 mb-2 flex justify-between items-center text-sm">
+          <span>You have moved to {movedToTable}, seat {playerData.player.seat}</span>
+          <button onClick={() => setMovedToTable(null)} className="px-2 text-xs">Dismiss</button>
+        </div>
+      )}
+      
+      {/* Switch between the cards and the player's stats */}
+      <div className="flex mb-2 text-sm rounded-lg overflow-hidden bg-gray-200 dark:bg-gray-700">
+        {(['cards', 'stats'] as const).map(tab => (
+          <button
+            key={tab}
+            onClick={() => setActiveTab(tab)}
+            className={`flex-1 py-1 capitalize ${activeTab === tab ? 'bg-blue-500 text-white font-semibold' : ''}`}
+          >
+            {tab}
+          </button>
+        ))}
+      </div>
+      
+      {activeTab === 'stats' && (
+        <div className="flex-grow overflow-auto p-2">
+          <PlayerStatsPanel playerGuid={playerData.player.playerGuid} handNumber={playerData.handNumber} />
+        </div>
+      )}
+      
+      {/* Cards - taking up most of the screen (kept mounted on the stats tab so nothing resets) */}
       <div 
-        className="flex-grow flex items-center justify-center p-2 md:p-4 card-view touch-none select-none relative"
+        className={`${activeTab === 'cards' ? 'flex' : 'hidden'} flex-grow items-center justify-center p-2 md:p-4 card-view touch-none select-none relative`}
         onMouseDown={handleBackgroundPress}
         onMouseUp={handleBackgroundRelease}
         onMouseLeave={handleBackgroundRelease}
@@ -254,9 +593,59 @@ export default function PlayerPage() {
             Tap background to reveal all cards
           </div>
         )}
+        {/* Hand helper - only while the cards are revealed, so the hand name is as private as the cards */}
+        {handName && (
+          <div className={`absolute bottom-2 left-0 right-0 text-center text-lg font-semibold pointer-events-none transition-opacity duration-300 ${showAllCards ? 'opacity-100' : 'opacity-0'}`}>
+            {handName}
+          </div>
+        )}
         {playerData.gamePhase === 'Waiting' ? (
           <div className="text-center py-8 text-gray-500">
             <p className="text-xl md:text-2xl">Waiting for dealer to start hand #{playerData.handNumber}...</p>
+            {playerData.player.sittingOut && (
+              <p className="mt-2 text-amber-600">You are sitting out and won't be dealt in until you sit back in</p>
+            )}
+            {playerData.canRebuy && (
+              <div className="mt-2">
+                <p className="text-amber-600">You are out of chips</p>
+                <button 
+                  onClick={handleRebuy} 
+                  disabled={isRebuying}
+                  className="mt-1 px-3 py-1 rounded bg-green-600 hover:bg-green-700 text-white font-semibold disabled:opacity-50"
+                >
+                  Rebuy
+                </button>
+              </div>
+            )}
+            {playerData.bettingEnabled && playerData.player.missedBlinds && (
+              <p className="mt-2 text-amber-600">
+                You will post the {describeMissedBlinds(playerData.player.missedBlinds)} you missed when you are next dealt in
+              </p>
+            )}
+            {/* Seed for the provably fair shuffle */}
+            <div className="mt-4 text-xs space-y-1">
+              <p title={playerData.serverSeedHash}>
+                <strong>Shuffle commitment:</strong> {playerData.serverSeedHash.substring(0, 16)}...
+              </p>
+              <p><strong>Your seed:</strong> {playerData.clientSeed ?? 'sending...'}</p>
+              <div className="flex items-center justify-center space-x-1">
+                <input 
+                  type="text" 
+                  value={seedInput} 
+                  maxLength={64}
+                  placeholder="Choose your own seed"
+                  onChange={e => setSeedInput(e.target.value)}
+                  className="w-40 px-2 py-1 rounded border dark:bg-gray-800 dark:border-gray-600"
+                />
+                <button 
+                  onClick={() => sendSeed(seedInput)} 
+                  disabled={isSendingSeed || seedInput.length === 0}
+                  className="px-2 py-1 rounded bg-gray-200 dark:bg-gray-700 disabled:opacity-50"
+                >
+                  Set
+                </button>
+              </div>
+            </div>
             {/* Display position information during the waiting phase */}
             <div className="mt-4 flex flex-col items-center justify-center space-y-1">
               {playerData.isDealer && (
@@ -294,19 +683,25 @@ export default function PlayerPage() {
         ) : (
           <div className="flex justify-center items-center gap-4 md:gap-6 lg:gap-8 max-w-6xl mx-auto card-container touch-none select-none">
             {playerData.player.pocketCards.map((card, index) => (
-              <div key={index} className="flex-1 max-w-[45%] md:max-w-none card-container touch-none">
-                {/* Different size for different devices */}
+              <div 
+                key={card.code} 
+                className="flex-1 md:max-w-none card-container touch-none"
+                style={{ maxWidth: `${Math.floor(90 / Math.max(playerData.player.pocketCards.length, 2))}%` }}
+              >
+                {/* Different size for different devices, smaller when holding more than three cards */}
                 <div className="hidden lg:block card-container touch-none">
-                  <FlippableCard card={card} size="xl" isForceFlipped={showAllCards} />
+                  <FlippableCard card={card} size={playerData.player.pocketCards.length > 3 ? 'lg' : 'xl'} isForceFlipped={showAllCards} />
                 </div>
                 <div className="block lg:hidden card-container touch-none">
-                  <FlippableCard card={card} size="lg" isForceFlipped={showAllCards} />
+                  <FlippableCard card={card} size={playerData.player.pocketCards.length > 3 ? 'md' : 'lg'} isForceFlipped={showAllCards} />
                 </div>
               </div>
             ))}
-            {/* If no cards yet but not in waiting state, show empty slots */}
-            {playerData.player.pocketCards.length === 0 && 
-              Array.from({ length: 2 }).map((_, index) => (
+            {/* Folded cards are gone; otherwise, if no cards yet, show empty slots */}
+            {playerData.player.hasFolded ? (
+              <p className="text-xl md:text-2xl text-gray-500">You folded this hand</p>
+            ) : playerData.player.pocketCards.length === 0 && 
+              Array.from({ length: playerData.holeCards }).map((_, index) => (
                 <div key={`empty-${index}`} className="flex-1 max-w-[45%] md:max-w-none">
                   {/* Different size for different devices */}
                   <div className="hidden lg:block">
@@ -321,7 +716,156 @@ export default function PlayerPage() {
           </div>
         )}
       </div>
+      
+      {/* Discard step - Pineapple players throw away a card before the flop */}
+      {playerData.discardsRequired > 0 && (
+        <div className="bg-white dark:bg-slate-800 shadow-sm rounded-lg p-2 mt-2">
+          <p className="text-sm mb-2 text-gray-700 dark:text-gray-200">
+            Choose {playerData.discardsRequired === 1 ? 'a card' : `${playerData.discardsRequired} cards`} to discard before the flop
+          </p>
+          <div className="flex items-center justify-center gap-2 mb-2">
+            {playerData.player.pocketCards.map(card => (
+              <button
+                key={card.code}
+                onClick={() => setDiscardSelection(card.code)}
+                className={`rounded-lg ${discardSelection === card.code ? 'ring-4 ring-red-500 opacity-60' : ''}`}
+                aria-label={`Discard ${card.code}`}
+              >
+                <Card card={card} size="sm" />
+              </button>
+            ))}
+          </div>
+          <button
+            onClick={handleDiscard}
+            disabled={isActing || !discardSelection}
+            className="w-full py-2 rounded bg-red-600 hover:bg-red-700 text-white font-semibold disabled:opacity-50"
+          >
+            Discard
+          </button>
+        </div>
+      )}
+      
+      {/* Without chips there are no turns: a player can fold whenever they are in the hand */}
+      {!playerData.bettingEnabled && playerData.gamePhase !== 'Waiting' && playerData.gamePhase !== 'Showdown' &&
+        playerData.player.pocketCards.length > 0 && !playerData.player.hasFolded && (
+        <div className="bg-white dark:bg-slate-800 shadow-sm rounded-lg p-2 mt-2">
+          {actionError && (
+            <p className="text-sm text-red-600 mb-2">{actionError}</p>
+          )}
+          <button 
+            onClick={() => handleAction('fold')} 
+            disabled={isActing}
+            className="w-full py-2 rounded bg-red-600 hover:bg-red-700 text-white font-semibold disabled:opacity-50"
+          >
+            Fold
+          </button>
+        </div>
+      )}
+      
+      {/* Betting controls - only when chips are tracked and a hand is running */}
+      {playerData.bettingEnabled && playerData.gamePhase !== 'Waiting' && (
+        <div className="bg-white dark:bg-slate-800 shadow-sm rounded-lg p-2 mt-2">
+          <div className="flex justify-between text-sm mb-2 text-gray-700 dark:text-gray-200">
+            <span><strong>Stack:</strong> {playerData.player.stack}</span>
+            <span><strong>Pot:</strong> {playerData.pot}</span>
+            {playerData.player.currentBet > 0 && (
+              <span><strong>Your bet:</strong> {playerData.player.currentBet}</span>
+            )}
+          </div>
+          
+          {actionError && (
+            <p className="text-sm text-red-600 mb-2">{actionError}</p>
+          )}
+          
+          {playerData.player.hasFolded ? (
+            <p className="text-center text-gray-500">You folded this hand</p>
+          ) : !playerData.isMyTurn ? (
+            <p className="text-center text-gray-500">Waiting for other players...</p>
+          ) : (
+            <div className="space-y-2">
+              <div className="grid grid-cols-3 gap-2">
+                <button 
+                  onClick={() => handleAction('fold')} 
+                  disabled={isActing}
+                  className="py-2 rounded bg-red-600 hover:bg-red-700 text-white font-semibold"
+                >
+                  Fold
+                </button>
+                {playerData.toCall === 0 ? (
+                  <button 
+                    onClick={() => handleAction('check')} 
+                    disabled={isActing}
+                    className="py-2 rounded bg-gray-600 hover:bg-gray-700 text-white font-semibold"
+                  >
+                    Check
+                  </button>
+                ) : (
+                  <button 
+                    onClick={() => handleAction('call')} 
+                    disabled={isActing}
+                    className="py-2 rounded bg-blue-600 hover:bg-blue-700 text-white font-semibold"
+                  >
+                    Call {playerData.toCall}
+                  </button>
+                )}
+                <button 
+                  onClick={() => handleAction(playerData.currentBet === 0 ? 'bet' : 'raise', betAmount)} 
+                  disabled={isActing || !playerData.canRaise}
+                  className="py-2 rounded bg-green-600 hover:bg-green-700 text-white font-semibold disabled:opacity-50"
+                >
+                  {playerData.currentBet === 0 ? 'Bet' : 'Raise to'} {betAmount}
+                </button>
+              </div>
+              {!playerData.canRaise && playerData.player.stack > playerData.toCall && (
+                <p className="text-center text-sm text-gray-500">The all-in was less than a full raise, so you can only call or fold</p>
+              )}
+              <input 
+                type="range"
+                min={Math.min(playerData.minRaiseTo, playerData.maxRaiseTo)}
+                max={playerData.maxRaiseTo}
+                step={1}
+                value={betAmount}
+                onChange={e => setBetAmount(parseInt(e.target.value, 10))}
+                className="w-full"
+              />
+            </div>
+          )}
+        </div>
+      )}
     </div>
+    
+    {isEditingIdentity && (
+      <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-2" onClick={() => setIsEditingIdentity(false)}>
+        <div className="card p-4 w-full max-w-md" onClick={(e) => e.stopPropagation()}>
+          <h2 className="text-lg font-semibold mb-3">Nickname and Avatar</h2>
+          <PlayerIdentityForm
+            nickname={nicknameDraft}
+            avatar={avatarDraft}
+            placeholder={generatePokerPlayerAlias(playerData.player.playerGuid)}
+            onNicknameChange={setNicknameDraft}
+            onAvatarChange={setAvatarDraft}
+          />
+          {identityError && (
+            <p className="mt-2 text-sm text-red-600">{identityError}</p>
+          )}
+          <div className="flex justify-end space-x-2 mt-4">
+            <button
+              onClick={() => setIsEditingIdentity(false)}
+              className="px-3 py-1 rounded bg-gray-200 dark:bg-gray-700 dark:text-gray-200"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSaveIdentity}
+              disabled={isSavingIdentity}
+              className="px-3 py-1 rounded bg-blue-500 hover:bg-blue-600 text-white disabled:opacity-50"
+            >
+              Save
+            </button>
+          </div>
+        </div>
+      </div>
+    )}
     </>
   );
 }
@@ -0,0 +1,109 @@
+"use client";
+
+import { useState, useEffect } from 'react';
+import { useParams } from 'next/navigation';
+import Link from 'next/link';
+import ThemeToggle from '@/components/ThemeToggle';
+import PlayerAvatar from '@/components/PlayerAvatar';
+import PlayerStatsSummary, { formatNetResult } from '@/components/PlayerStatsSummary';
+import { ProfileView } from '@/lib/types';
+
+export default function ProfilePage() {
+  const { profileId } = useParams();
+  const [profile, setProfile] = useState<ProfileView | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  
+  useEffect(() => {
+    const fetchProfile = async () => {
+      try {
+        const response = await fetch(`/api/profiles/${profileId}`);
+        const data = await response.json();
+        
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to fetch the profile');
+        }
+        
+        setProfile(data.profile);
+      } catch (err: any) {
+        setError(err.message || 'Failed to fetch the profile');
+      }
+    };
+    
+    fetchProfile();
+  }, [profileId]);
+  
+  useEffect(() => {
+    document.title = `${profile?.playerAlias ?? 'Profile'} - DealMe 2`;
+  }, [profile?.playerAlias]);
+  
+  if (error) {
+    return <div className="container mx-auto px-4 py-8">{error}</div>;
+  }
+  
+  if (!profile) {
+    return <div className="container mx-auto px-4 py-8">Loading profile...</div>;
+  }
+  
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="flex justify-between items-center mb-6">
+        <div className="flex items-center">
+          <Link href="/" className="mr-2 px-1 py-0.5 bg-gray-200 dark:bg-gray-700 rounded text-sm hover:bg-gray-300 dark:hover:bg-gray-600 dark:text-gray-200">
+            All Tables
+          </Link>
+          <h1 className="text-3xl font-bold flex items-center">
+            <PlayerAvatar avatar={profile.avatar ?? undefined} name={profile.playerAlias} className="w-9 h-9 text-2xl mr-2" />
+            {profile.playerAlias}
+          </h1>
+        </div>
+        <ThemeToggle />
+      </div>
+      
+      <p className="mb-2 text-gray-500">
+        {profile.stats.tablesPlayed} {profile.stats.tablesPlayed === 1 ? 'table' : 'tables'} played since {new Date(profile.createdAt).toLocaleDateString()}
+      </p>
+      <PlayerStatsSummary stats={profile.stats} className="mb-6" />
+      
+      <h2 className="text-xl font-semibold mb-4">Sessions</h2>
+      {profile.sessions.length === 0 ? (
+        <p>No sessions yet.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left border-b dark:border-gray-700">
+                <th className="py-1">Table</th>
+                <th className="py-1">Sat down</th>
+                <th className="py-1">Last hand</th>
+                <th className="py-1 text-right">Hands</th>
+                <th className="py-1 text-right">Won</th>
+                <th className="py-1 text-right">VPIP</th>
+                <th className="py-1">Best hand</th>
+                <th className="py-1 text-right">Net</th>
+              </tr>
+            </thead>
+            <tbody>
+              {profile.sessions.map(session => (
+                <tr key={`${session.tableGuid}-${session.joinedAt}`} className="border-b dark:border-gray-700">
+                  <td className="py-1">
+                    {session.tableName} ({session.tableGuid.substring(0, 4)})
+                    {session.isSeated && <span className="ml-2 text-green-600 font-semibold">Playing</span>}
+                  </td>
+                  <td className="py-1">{new Date(session.joinedAt).toLocaleString()}</td>
+                  <td className="py-1">{session.lastHandAt ? new Date(session.lastHandAt).toLocaleString() : ''}</td>
+                  <td className="py-1 text-right">{session.stats.handsDealt}</td>
+                  <td className="py-1 text-right">{session.stats.handsWon}</td>
+                  <td className="py-1 text-right">{session.stats.vpip === null ? '' : `${session.stats.vpip}%`}</td>
+                  <td className="py-1">{session.stats.bestHand ?? ''}</td>
+                  <td className={`py-1 text-right ${session.stats.netResult < 0 ? 'text-red-600' : session.stats.netResult > 0 ? 'text-green-600' : ''}`}>
+                    {formatNetResult(session.stats.netResult)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
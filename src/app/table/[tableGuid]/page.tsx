@@ -1,17 +1,25 @@
 "use client";
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import { useParams } from 'next/navigation';
 import Image from 'next/image';
 import Link from 'next/link';
 import Card from '@/components/Card';
 import DeckDisplay from '@/components/DeckDisplay';
 import QRCode from '@/components/QRCode';
+import SeatOval from '@/components/SeatOval';
 import ThemeToggle from '@/components/ThemeToggle';
-import { Table, GamePhase } from '@/lib/types';
-import { getTableJoinUrl } from '@/lib/ipUtils';
+import HandHistoryPanel from '@/components/HandHistoryPanel';
+import TableSettingsPanel from '@/components/TableSettingsPanel';
+import TournamentClock from '@/components/TournamentClock';
+import LedgerPanel from '@/components/LedgerPanel';
+import PlayerAvatar from '@/components/PlayerAvatar';
+import Leaderboard from '@/components/Leaderboard';
+import OddsPanel from '@/components/OddsPanel';
+import { AdminTableView, GamePhase } from '@/lib/types';
+import { getTableJoinUrl, getServerBaseUrl } from '@/lib/ipUtils';
+import { useTableStream } from '@/lib/useTableStream';
 import { generateTableName } from '@/app/api/tables/tableNamer';
-import { generatePokerPlayerAlias } from '@/app/api/tables/playerNamer';
 
 // Helper function to get the appropriate button text based on game phase
 function getButtonText(phase: GamePhase): string {
@@ -25,21 +33,48 @@ function getButtonText(phase: GamePhase): string {
     case 'Turn':
       return 'Show River';
     case 'River':
+      return 'Showdown';
+    case 'Showdown':
       return 'Shuffle';
     default:
       return 'Advance Game';
   }
 }
 
+// Seconds before the table advances on its own from where the hand is, or null to wait for the host
+function getAutoAdvanceSeconds(table: AdminTableView): number | null {
+  const { dealSeconds, streetSeconds, showdownSeconds } = table.settings.autoAdvance;
+  
+  if (table.gamePhase === 'Waiting') {
+    // Only deal once there is someone to play against
+    const playersIn = table.players.filter(player => !player.sittingOut && !player.markedForRemoval);
+    return playersIn.length >= 2 ? dealSeconds : null;
+  }
+  
+  if (table.gamePhase === 'Showdown' || table.uncontestedWinner) {
+    return showdownSeconds;
+  }
+  
+  // The next street waits until nobody has a decision to make or cards left to discard
+  return table.actionSeat === null && table.pendingDiscards === 0 ? streetSeconds : null;
+}
+
 export default function TablePage() {
   const params = useParams();
   const { tableGuid } = params;
-  const [table, setTable] = useState<Table | null>(null);
+  const [table, setTable] = useState<AdminTableView | null>(null);
   const [loading, setLoading] = useState<boolean>(true);
   const [error, setError] = useState<string | null>(null);
   const [isAdvancing, setIsAdvancing] = useState<boolean>(false);
   const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
   const [playerCount, setPlayerCount] = useState<number>(0);
+  const [showHistory, setShowHistory] = useState<boolean>(false);
+  const [showLedger, setShowLedger] = useState<boolean>(false);
+  const [showSettings, setShowSettings] = useState<boolean>(false);
+  // The leaderboard takes the place of the community cards between hands
+  const [showLeaderboard, setShowLeaderboard] = useState<boolean>(false);
+  // A one-time link shown in place of the join QR code (host hand off or a player's rejoin code)
+  const [oneTimeLink, setOneTimeLink] = useState<{ title: string; url: string; kind: 'handoff' | 'rejoin' } | null>(null);
   // Debug panel removed
   
   // Get the table name for page title if table exists
@@ -58,7 +93,7 @@ export default function TablePage() {
     try {
       setLoading(true);
       
-      const response = await fetch(`/api/tables/${tableGuid}`);
+      const response = await fetch(`/api/tables/${tableGuid}/admin`);
       const data = await response.json();
       
       if (!response.ok) {
@@ -90,16 +125,22 @@ export default function TablePage() {
     }
   }, [tableGuid]);
   
-  // Fetch initial table data
-  useEffect(() => {
-    fetchTable();
-
-    // Set up polling to refresh table data every 5 seconds
-    const pollingInterval = setInterval(fetchTable, 5000);
-    
-    // Clean up interval on unmount
-    return () => clearInterval(pollingInterval);
-  }, [fetchTable]);
+  // Subscribe to live table updates, polling every 5 seconds only if the stream drops
+  useTableStream(`/api/tables/${tableGuid}/admin/stream`, `/api/tables/${tableGuid}/admin`, {
+    interval: 5000,
+    onData: (data) => {
+      if (data.table) {
+        setTable(data.table);
+        setLastUpdated(new Date());
+        setError(null);
+      }
+      setLoading(false);
+    },
+    onError: (err) => {
+      setError(err.message);
+      setLoading(false);
+    },
+  });
   
   // Handle key press for advancing game phase
   const handleKeyPress = useCallback(async (event: KeyboardEvent) => {
@@ -117,6 +158,16 @@ export default function TablePage() {
       'Period',        // Period key (sometimes used as "advance" on some clickers)
     ];
     
+    // Keys belong to the history, ledger or settings panel while it is open (ESC closes it)
+    if (showHistory || showLedger || showSettings) {
+      if (event.code === 'Escape') {
+        setShowHistory(false);
+        setShowLedger(false);
+        setShowSettings(false);
+      }
+      return;
+    }
+    
     // Check if ESC key was pressed to trigger End Hand functionality
     if (event.code === 'Escape' && table && table.gamePhase !== 'Waiting') {
       event.preventDefault();
@@ -153,7 +204,14 @@ export default function TablePage() {
         setIsAdvancing(false);
       }
     }
-  }, [table, tableGuid, isAdvancing]);
+  }, [table, tableGuid, isAdvancing, showHistory, showLedger, showSettings]);
+  
+  // Go back to the cards as soon as a hand is dealt
+  useEffect(() => {
+    if (table && table.gamePhase !== 'Waiting') {
+      setShowLeaderboard(false);
+    }
+  }, [table?.gamePhase]);
   
   // Set up key listener
   useEffect(() => {
@@ -164,6 +222,23 @@ export default function TablePage() {
     };
   }, [handleKeyPress]);
   
+  // Advance on its own once the hand has sat at the same point for the host's auto-advance timer
+  const advanceRef = useRef(handleKeyPress);
+  advanceRef.current = handleKeyPress;
+  const autoAdvanceSeconds = table ? getAutoAdvanceSeconds(table) : null;
+  const cardsHeld = table?.players.map(player => player.cardCount).join();
+  useEffect(() => {
+    if (autoAdvanceSeconds === null) {
+      return;
+    }
+    
+    const timer = setTimeout(() => {
+      advanceRef.current({ code: 'Space', preventDefault: () => {} } as KeyboardEvent);
+    }, autoAdvanceSeconds * 1000);
+    
+    return () => clearTimeout(timer);
+  }, [autoAdvanceSeconds, table?.gamePhase, table?.handNumber, table?.actionSeat, cardsHeld]);
+  
   // Sync player count with table after animation delay
   useEffect(() => {
     if (table) {
@@ -226,6 +301,52 @@ export default function TablePage() {
     }
   };
   
+  // Create a one-time link that gives another device control of this table
+  const handleHandOff = async () => {
+    try {
+      const response = await fetch(`/api/tables/${tableGuid}/host/handoff`, {
+        method: 'POST',
+      });
+      
+      const data = await response.json();
+      
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to hand off control');
+      }
+      
+      setOneTimeLink({
+        title: 'Scan to control this table (works once, for 10 minutes)',
+        url: `${getServerBaseUrl()}${data.url}`,
+        kind: 'handoff',
+      });
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+  
+  // Show a one-time code that gets a player back to their seat on another device
+  const handleRejoinCode = async (playerGuid: string, playerAlias: string) => {
+    try {
+      const response = await fetch(`/api/tables/${tableGuid}/${playerGuid}/rejoin`, {
+        method: 'POST',
+      });
+      
+      const data = await response.json();
+      
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to create a rejoin code');
+      }
+      
+      setOneTimeLink({
+        title: `${playerAlias}: scan or enter code ${data.code} (works once, for 10 minutes)`,
+        url: `${getServerBaseUrl()}${data.url}`,
+        kind: 'rejoin',
+      });
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+  
   // Handle kicking a player from the table
   const handleKickPlayer = async (playerGuid: string) => {
     if (!confirm("Are you sure you want to remove this player from the table?")) {
@@ -278,7 +399,7 @@ export default function TablePage() {
     return (
       <div className="container mx-auto px-4 py-8">
         <div className="bg-red-100 border-l-4 border-red-500 text-red-700 p-4 mb-6">
-          Unable to load table data.
+          Unable to load table data: {error}
           <button 
             onClick={handleRefresh} 
             className="ml-4 px-3 py-1 bg-white text-red-700 border border-red-500 rounded hover:bg-red-50"
@@ -294,6 +415,10 @@ export default function TablePage() {
     return <div className="container mx-auto px-4 py-8">Table not found</div>;
   }
   
+  // Look up who is sitting in a seat (e.g., the button or the player to act)
+  const getPlayerAliasInSeat = (seat: number | null) =>
+    table.players.find(player => player.seat === seat)?.playerAlias;
+  
   return (
     <>
       <div className="flex flex-col h-[95vh] max-h-screen overflow-hidden">
@@ -304,11 +429,56 @@ export default function TablePage() {
               <Link href="/" className="mr-1 px-1 py-0.5 bg-gray-200 dark:bg-gray-700 rounded text-sm hover:bg-gray-300 dark:hover:bg-gray-600 dark:text-gray-200">
                 All Tables
               </Link>
+              {table.tournamentGuid && (
+                <Link
+                  href={`/tournament/${table.tournamentGuid}`}
+                  className="mr-1 px-1 py-0.5 bg-gray-200 dark:bg-gray-700 rounded text-sm hover:bg-gray-300 dark:hover:bg-gray-600 dark:text-gray-200"
+                >
+                  Tournament
+                </Link>
+              )}
               <h1 className="text-lg font-bold">
                 {generateTableName(tableGuid.toString())} ({tableGuid.toString().substring(0, 4)}...)
               </h1>
             </div>
             <div className="flex items-center space-x-1">
+              <button
+                onClick={() => setShowHistory(true)}
+                className="mr-1 px-1 py-0.5 bg-gray-200 dark:bg-gray-700 rounded text-sm hover:bg-gray-300 dark:hover:bg-gray-600 dark:text-gray-200"
+              >
+                History
+              </button>
+              {table.bettingEnabled && !table.tournament && (
+                <button
+                  onClick={() => setShowLedger(true)}
+                  className="mr-1 px-1 py-0.5 bg-gray-200 dark:bg-gray-700 rounded text-sm hover:bg-gray-300 dark:hover:bg-gray-600 dark:text-gray-200"
+                  title="Buy-ins, cash-outs and who pays whom at the end of the session"
+                >
+                  Ledger
+                </button>
+              )}
+              <button
+                onClick={() => setShowLeaderboard(!showLeaderboard)}
+                disabled={table.gamePhase !== 'Waiting'}
+                className="mr-1 px-1 py-0.5 bg-gray-200 dark:bg-gray-700 rounded text-sm hover:bg-gray-300 dark:hover:bg-gray-600 dark:text-gray-200 disabled:opacity-50"
+                title="Show who is up and who is down between hands"
+              >
+                {showLeaderboard ? 'Cards' : 'Leaderboard'}
+              </button>
+              <button
+                onClick={() => setShowSettings(true)}
+                className="mr-1 px-1 py-0.5 bg-gray-200 dark:bg-gray-700 rounded text-sm hover:bg-gray-300 dark:hover:bg-gray-600 dark:text-gray-200"
+                title="Change the table settings between hands"
+              >
+                Settings
+              </button>
+              <button
+                onClick={oneTimeLink?.kind === 'handoff' ? () => setOneTimeLink(null) : handleHandOff}
+                className="mr-1 px-1 py-0.5 bg-gray-200 dark:bg-gray-700 rounded text-sm hover:bg-gray-300 dark:hover:bg-gray-600 dark:text-gray-200"
+                title="Show a one-time link that moves control of this table to another device"
+              >
+                {oneTimeLink?.kind === 'handoff' ? 'Hide Hand Off' : 'Hand Off'}
+              </button>
               <ThemeToggle className="mr-1" />
               {connectionError ? (
                 <span 
@@ -334,67 +504,102 @@ export default function TablePage() {
         {/* Cards Section - Adjusted for better visibility */}
         <div className="h-[60%] px-1 pt-4">
           <div className="card p-6 h-full flex flex-col">
-            <div className="flex flex-col sm:flex-row justify-between items-start mb-1 shrink-0">
-              <h2 className="text-xl sm:text-2xl font-semibold">Community Cards</h2>
-              
-              {/* Game phase information text - fixed height to prevent layout shift */}
-              <div className="text-right text-sm sm:text-base h-14">
-                {table.gamePhase === 'Waiting' ? (
-                  <div className="text-gray-500">
-                    <p className="font-medium">Waiting to start next hand...</p>
-                    <p className="text-sm">Press Deal button to begin</p>
-                  </div>
-                ) : table.gamePhase === 'Pre-Flop' ? (
-                  <div>
-                    <p className="font-medium">Waiting for the flop...</p>
-                    <p className="text-sm">Press Show Flop button when ready</p>
-                  </div>
-                ) : (
-                  <div className="opacity-0">
-                    <p className="font-medium">Placeholder</p>
-                    <p className="text-sm">Placeholder</p>
-                  </div>
-                )}
-              </div>
-            </div>
-            
-            {/* Card display area - maximize space */}
-            <div className="flex-1 flex items-center justify-center">
-              <div className="flex w-full items-center justify-center">
-                {/* Card grid with equal sizing and special gap after deck */}
-                <div className="grid w-full" style={{ 
-                  gridTemplateColumns: "1fr 0.2fr 1fr 1fr 1fr 1fr 1fr",
-                  gap: "0.5rem"
-                }}>
-                  {/* Deck display - takes first column */}
-                  <div className="flex items-center justify-center">
-                    <DeckDisplay 
-                      cardsRemaining={table.deck.length} 
-                      onClick={() => handleKeyPress({ code: 'Space', preventDefault: () => {} } as KeyboardEvent)}
-                      isClickable={!isAdvancing}
-                      size="auto"
-                    />
-                  </div>
-                  
-                  {/* Empty column for spacing */}
-                  <div></div>
-                  
-                  {/* Community cards - each take one column */}
-                  {table.communityCards.map((card, index) => (
-                    <div key={index}>
-                      <Card card={card} size="auto" />
-                    </div>
-                  ))}
+            {showLeaderboard && table.gamePhase === 'Waiting' ? (
+              <>
+                <h2 className="text-xl sm:text-2xl font-semibold mb-2 shrink-0">Leaderboard</h2>
+                <div className="flex-1 overflow-auto">
+                  <Leaderboard
+                    tableGuid={tableGuid.toString()}
+                    handNumber={table.handNumber}
+                    bettingEnabled={table.bettingEnabled}
+                  />
+                </div>
+              </>
+            ) : (
+              <>
+                <div className="flex flex-col sm:flex-row justify-between items-start mb-1 shrink-0">
+                  <h2 className="text-xl sm:text-2xl font-semibold">Community Cards</h2>
                   
-                  {/* Placeholders for remaining community cards */}
-                  {Array.from({ length: 5 - table.communityCards.length }).map((_, index) => (
-                    <div key={`placeholder-${index}`}>
-                      <Card size="auto" />
+                  {/* Game phase information text - fixed height to prevent layout shift */}
+                  <div className="text-right text-sm sm:text-base h-14">
+                    {table.uncontestedWinner ? (
+                      <div>
+                        <p className="font-semibold text-green-700 dark:text-green-400">
+                          {table.uncontestedWinner} wins, everyone else folded
+                        </p>
+                        <p className="text-sm">Press End Hand to finish without dealing the board</p>
+                      </div>
+                    ) : table.gamePhase === 'Waiting' ? (
+                      <div className="text-gray-500">
+                        <p className="font-medium">Waiting to start next hand...</p>
+                        <p className="text-sm">Press Deal button to begin</p>
+                      </div>
+                    ) : table.gamePhase === 'Pre-Flop' ? (
+                      <div>
+                        <p className="font-medium">Waiting for the flop...</p>
+                        <p className="text-sm">Press Show Flop button when ready</p>
+                      </div>
+                    ) : table.gamePhase === 'Showdown' && table.showdown ? (
+                      <div>
+                        <p className="font-semibold text-green-700 dark:text-green-400">
+                          {table.showdown.isSplitPot
+                            ? `Split pot: ${table.showdown.winnerAliases.join(', ')}`
+                            : `${table.showdown.winnerAliases[0]} wins`}
+                        </p>
+                        <p className="text-sm">{table.showdown.winningHandName}</p>
+                      </div>
+                    ) : (
+                      <div className="opacity-0">
+                        <p className="font-medium">Placeholder</p>
+                        <p className="text-sm">Placeholder</p>
+                      </div>
+                    )}
+                  </div>
+                </div>
+                
+                {/* Card display area - maximize space */}
+                <div className="flex-1 flex items-center justify-center">
+                  <div className="flex w-full items-center justify-center">
+                    {/* Card grid with equal sizing and special gap after deck */}
+                    <div className="grid w-full" style={{ 
+                      gridTemplateColumns: "1fr 0.2fr 1fr 1fr 1fr 1fr 1fr",
+                      gap: "0.5rem"
+                    }}>
+                      {/* Deck display - takes first column */}
+                      <div className="flex items-center justify-center">
+                        <DeckDisplay 
+                          cardsRemaining={table.deckCount} 
+                          burnedCount={table.burnedCount}
+                          onClick={() => handleKeyPress({ code: 'Space', preventDefault: () => {} } as KeyboardEvent)}
+                          isClickable={!isAdvancing}
+                          size="auto"
+                        />
+                      </div>
+                      
+                      {/* Empty column for spacing */}
+                      <div></div>
+                      
+                      {/* Community cards - each take one column */}
+                      {table.communityCards.map((card, index) => (
+                        <div key={index}>
+                          <Card card={card} size="auto" />
+                        </div>
+                      ))}
+                      
+                      {/* Placeholders for remaining community cards */}
+                      {Array.from({ length: 5 - table.communityCards.length }).map((_, index) => (
+                        <div key={`placeholder-${index}`}>
+                          <Card size="auto" />
+                        </div>
+                      ))}
                     </div>
-                  ))}
+                  </div>
                 </div>
-              </div>
-            </div>
+                
+                {/* Win chances, when the host has the odds overlay on for this point of the hand */}
+                {table.odds && <OddsPanel odds={table.odds} />}
+              </>
+            )}
           </div>
         </div>
         
@@ -405,21 +610,63 @@ export default function TablePage() {
             <div className="card p-1 h-full flex flex-col">
               <h2 className="text-xl sm:text-2xl font-semibold mb-2">Game Info</h2>
               <div className="text-base sm:text-lg flex-grow overflow-auto">
-                <div className="mb-1"><strong>Phase:</strong> {table.gamePhase}</div>
+                <div className="mb-1">
+                  <strong>Game:</strong> {table.variantName}
+                  {table.nextVariantName && (
+                    <span className="text-sm text-gray-500"> (next orbit: {table.nextVariantName})</span>
+                  )}
+                </div>
+                {(table.deckOptions.jokers || table.deckOptions.deucesWild) && (
+                  <div className="mb-1">
+                    <strong>Wild:</strong> {[
+                      table.deckOptions.jokers ? `${table.deckOptions.jokers} joker${table.deckOptions.jokers > 1 ? 's' : ''}` : '',
+                      table.deckOptions.deucesWild ? 'deuces' : ''
+                    ].filter(Boolean).join(', ')}
+                  </div>
+                )}
+                <div className="mb-1"><strong>Phase:</strong> {table.phaseName}</div>
+                <div className="mb-1 text-sm" title={`SHA-256 of the server seed: ${table.serverSeedHash}`}>
+                  <strong>Shuffle:</strong> {table.serverSeedHash.substring(0, 12)}... ({table.clientSeedCount}/{table.players.length} player seeds)
+                </div>
                 <div className="mb-1"><strong>Hand:</strong> {`#${table.handNumber}`}</div>
                 <div className="mb-1"><strong>Players:</strong> {table.players.length}/{table.maxPlayers}</div>
+                {table.tournament && (
+                  <TournamentClock
+                    tableGuid={tableGuid.toString()}
+                    tournament={table.tournament}
+                    onUpdated={(updatedTable) => {
+                      setTable(updatedTable);
+                      setLastUpdated(new Date());
+                    }}
+                  />
+                )}
+                {table.bettingEnabled && (
+                  <>
+                    <div className="mb-1">
+                      <strong>Blinds:</strong> {table.smallBlind}/{table.bigBlind}
+                      {table.ante > 0 && ` (ante ${table.ante})`}
+                    </div>
+                    <div className="mb-1"><strong>Pot:</strong> {table.pot}</div>
+                    {getPlayerAliasInSeat(table.actionSeat) && (
+                      <div className="mb-1">
+                        <strong>To act:</strong> {getPlayerAliasInSeat(table.actionSeat)}
+                        {table.currentBet > 0 && ` (${table.currentBet} to call)`}
+                      </div>
+                    )}
+                  </>
+                )}
                 
                 {table.players.length > 0 && (
                   <div className="space-y-1 mt-2">
                     <p>
-                      <strong>Dealer:</strong> {table.players[table.dealerPosition] ? generatePokerPlayerAlias(table.players[table.dealerPosition].playerGuid) : "N/A"}
+                      <strong>Dealer:</strong> {getPlayerAliasInSeat(table.dealerSeat) ?? "N/A"}
                     </p>
                     <p>
-                      <strong>Big Blind:</strong> {table.players[table.bigBlindPosition] ? generatePokerPlayerAlias(table.players[table.bigBlindPosition].playerGuid) : "N/A"}
+                      <strong>Big Blind:</strong> {getPlayerAliasInSeat(table.bigBlindSeat) ?? "N/A"}
                     </p>
                     {table.players.length > 1 && (
                       <p>
-                        <strong>Small Blind:</strong> {table.players[table.smallBlindPosition] ? generatePokerPlayerAlias(table.players[table.smallBlindPosition].playerGuid) : "N/A"}
+                        <strong>Small Blind:</strong> {getPlayerAliasInSeat(table.smallBlindSeat) ?? "N/A"}
                       </p>
                     )}
                   </div>
@@ -434,13 +681,13 @@ export default function TablePage() {
                       disabled={isAdvancing}
                       className="btn text-base sm:text-lg py-1 px-3"
                     >
-                      {isAdvancing ? 'Advancing...' : getButtonText(table.gamePhase)}
+                      {isAdvancing ? 'Advancing...' : table.uncontestedWinner ? 'End Hand' : getButtonText(table.gamePhase)}
                     </button>
                     <p className="text-sm text-gray-500 mt-1">
                       Press Space/Enter to advance
                     </p>
                   </div>
-                  {table.gamePhase !== 'Waiting' && (
+                  {table.gamePhase !== 'Waiting' && !table.uncontestedWinner && (
                     <button 
                       onClick={handleEndHand} 
                       className="bg-red-600 hover:bg-red-700 text-white font-semibold rounded py-1 px-3 text-sm"
@@ -454,13 +701,21 @@ export default function TablePage() {
               </div>
             </div>
             
-            {/* Join Table Panel */}
+            {/* Join Table Panel (shows a one-time link instead while one is open) */}
             <div className="card p-1 h-full flex flex-col justify-center items-center">
+              {oneTimeLink && (
+                <p className="text-sm font-semibold mb-1 text-center">
+                  {oneTimeLink.title}
+                  <button onClick={() => setOneTimeLink(null)} className="ml-2 text-gray-500 hover:text-gray-700" title="Show the join code again">
+                    ✕
+                  </button>
+                </p>
+              )}
               <div className="flex justify-center mb-1">
-                <QRCode url={joinUrl} size={200} className="w-[180px] sm:w-[200px] md:w-[220px] lg:w-[250px]" />
+                <QRCode url={oneTimeLink?.url ?? joinUrl} size={200} className="w-[180px] sm:w-[200px] md:w-[220px] lg:w-[250px]" />
               </div>
               <div className="bg-gray-100 dark:bg-gray-700 p-1 rounded text-xs break-all text-center dark:text-gray-200 w-full">
-                {joinUrl}
+                {oneTimeLink?.url ?? joinUrl}
               </div>
             </div>
             
@@ -483,86 +738,153 @@ export default function TablePage() {
                 )}
               </h2>
               
-              {table.players.length === 0 ? (
-                <p className="text-base sm:text-lg">No players seated yet</p>
-              ) : (
-                <div className="divide-y text-base sm:text-lg overflow-y-auto flex-1">
-                  {table.players.map((player, index) => {
-                    // Check if this is a new player (added since last render)
-                    const isNewPlayer = index >= playerCount;
-                    // Check if this player has the big blind
-                    const hasBigBlind = index === table.bigBlindPosition;
+              {/* Players around the table in seat order */}
+              <div className="flex-1 min-h-0">
+                <SeatOval
+                  maxPlayers={table.maxPlayers}
+                  players={table.players}
+                  renderPlayer={(player) => {
                     // Check if player is marked for removal
                     const isMarkedForRemoval = player.markedForRemoval === true;
+                    // Check if it's this player's turn to act
+                    const isToAct = player.seat === table.actionSeat;
                     
                     return (
                       <div 
-                        key={player.playerGuid} 
-                        className={`py-1 flex justify-between items-center 
-                          ${isNewPlayer ? 'bg-yellow-50 animate-pulse' : ''} 
+                        className={`px-2 py-1 rounded shadow border bg-white dark:bg-gray-800 dark:border-gray-600 text-xs sm:text-sm
+                          ${isToAct ? 'ring-2 ring-green-500' : ''} 
                           ${isMarkedForRemoval ? 'bg-red-50 dark:bg-red-900/30 opacity-60' : ''}`}
                       >
-                        <p className={`flex items-center ${isMarkedForRemoval ? 'line-through text-gray-500 dark:text-gray-400' : ''}`}>
-                          {/* Fixed-width container for position symbols (space for max 2 symbols) */}
-                          <div className="flex items-center w-14 mr-2">
-                            {index === table.dealerPosition && (
-                              <span 
-                                className="mr-1 inline-flex items-center justify-center w-6 h-6 bg-white dark:bg-gray-800 text-black dark:text-white border border-black dark:border-white rounded-full font-bold text-sm"
-                                title="Dealer Button"
-                              >
-                                D
-                              </span>
-                            )}
-                            {hasBigBlind && (
-                              <span 
-                                className="mr-1 inline-flex items-center justify-center w-6 h-6 bg-indigo-600 text-white rounded-full font-bold text-sm"
-                                title="Big Blind"
-                              >
-                                BB
-                              </span>
-                            )}
-                            {index === table.smallBlindPosition && (
-                              <span 
-                                className="mr-1 inline-flex items-center justify-center w-6 h-6 bg-blue-500 text-white rounded-full font-bold text-sm"
-                                title="Small Blind"
-                              >
-                                SB
-                              </span>
-                            )}
-                          </div>
-                          {generatePokerPlayerAlias(player.playerGuid)} ({player.playerGuid.substring(0, 4)})
-                          {isNewPlayer && (
-                            <span className="ml-2 text-sm text-green-600 font-semibold">
-                              New
+                        <div className="flex items-center whitespace-nowrap">
+                          {player.seat === table.dealerSeat && (
+                            <span 
+                              className="mr-1 inline-flex items-center justify-center w-5 h-5 bg-white dark:bg-gray-800 text-black dark:text-white border border-black dark:border-white rounded-full font-bold text-xs"
+                              title="Dealer Button"
+                            >
+                              D
                             </span>
                           )}
-                          {isMarkedForRemoval && (
-                            <span className="ml-2 text-sm text-red-600 font-semibold">
-                              Leaving
+                          {player.seat === table.smallBlindSeat && table.players.length > 1 && (
+                            <span 
+                              className="mr-1 inline-flex items-center justify-center w-5 h-5 bg-blue-500 text-white rounded-full font-bold text-[10px]"
+                              title="Small Blind"
+                            >
+                              SB
                             </span>
                           )}
-                        </p>
-                        <button
-                          onClick={() => handleKickPlayer(player.playerGuid)}
-                          className={`text-sm px-2 py-1 rounded
-                            ${isMarkedForRemoval 
-                              ? 'bg-gray-100 text-gray-400 cursor-not-allowed'
-                              : 'bg-red-100 hover:bg-red-200 text-red-700'}`}
-                          title={isMarkedForRemoval ? "Player already marked for removal" : "Remove player from table"}
-                          disabled={isMarkedForRemoval}
-                        >
-                          {isMarkedForRemoval ? '✓' : '✕'}
-                        </button>
+                          {player.seat === table.bigBlindSeat && (
+                            <span 
+                              className="mr-1 inline-flex items-center justify-center w-5 h-5 bg-indigo-600 text-white rounded-full font-bold text-[10px]"
+                              title="Big Blind"
+                            >
+                              BB
+                            </span>
+                          )}
+                          <PlayerAvatar avatar={player.avatar} name={player.playerAlias} className="mr-1 w-5 h-5 text-xs" />
+                          <span className={isMarkedForRemoval ? 'line-through text-gray-500 dark:text-gray-400' : 'font-semibold'}>
+                            {player.playerAlias}
+                          </span>
+                          <span className="ml-1 text-gray-400" title={player.playerGuid}>#{player.seat}</span>
+                          <button
+                            onClick={() => handleRejoinCode(player.playerGuid, player.playerAlias)}
+                            className="ml-2 px-1 rounded bg-gray-100 hover:bg-gray-200 text-gray-700 dark:bg-gray-700 dark:text-gray-200"
+                            title="Show a one-time code that gets this player back to their seat"
+                            disabled={isMarkedForRemoval}
+                          >
+                            ↺
+                          </button>
+                          <button
+                            onClick={() => handleKickPlayer(player.playerGuid)}
+                            className={`ml-1 px-1 rounded
+                              ${isMarkedForRemoval 
+                                ? 'bg-gray-100 text-gray-400 cursor-not-allowed'
+                                : 'bg-red-100 hover:bg-red-200 text-red-700'}`}
+                            title={isMarkedForRemoval ? "Player already marked for removal" : "Remove player from table"}
+                            disabled={isMarkedForRemoval}
+                          >
+                            {isMarkedForRemoval ? '✓' : '✕'}
+                          </button>
+                        </div>
+                        <div className="whitespace-nowrap">
+                          {table.bettingEnabled && (
+                            <span className="text-gray-600 dark:text-gray-300">
+                              {player.stack}
+                              {player.currentBet > 0 && ` · bet ${player.currentBet}`}
+                            </span>
+                          )}
+                          {isMarkedForRemoval && (
+                            <span className="ml-1 text-red-600 font-semibold">Leaving</span>
+                          )}
+                          {player.sittingOut && !isMarkedForRemoval && (
+                            <span className="ml-1 text-amber-600 font-semibold">Sitting out</span>
+                          )}
+                          {player.owesBlinds && (
+                            <span className="ml-1 text-amber-600" title="Posts the blinds they missed when dealt back in">Owes blinds</span>
+                          )}
+                          {player.hasFolded && (
+                            <span className="ml-1 text-gray-500 font-semibold">Folded</span>
+                          )}
+                          {player.isAllIn && (
+                            <span className="ml-1 text-orange-600 font-semibold">All-in</span>
+                          )}
+                        </div>
+                        {player.shownCards && (
+                          <div className="flex items-center space-x-1 mt-1">
+                            {player.shownCards.map((card, cardIndex) => (
+                              <Card key={cardIndex} card={card} size="sm" />
+                            ))}
+                            <span 
+                              className={`ml-1 ${player.isWinner ? 'text-green-600 font-semibold' : 'text-gray-500'}`}
+                            >
+                              {player.shownHandName}
+                            </span>
+                          </div>
+                        )}
                       </div>
                     );
-                  })}
-                </div>
-              )}
+                  }}
+                  renderEmptySeat={(seat) => (
+                    // Under the dead button rule the button can sit in front of an empty seat
+                    <div className="flex items-center px-2 py-1 rounded border border-dashed border-gray-400 text-xs text-gray-400 bg-white/70 dark:bg-gray-800/70">
+                      {seat === table.dealerSeat && (
+                        <span 
+                          className="mr-1 inline-flex items-center justify-center w-5 h-5 bg-white dark:bg-gray-800 text-black dark:text-white border border-black dark:border-white rounded-full font-bold text-xs"
+                          title="Dead Button"
+                        >
+                          D
+                        </span>
+                      )}
+                      Seat {seat}
+                    </div>
+                  )}
+                />
+              </div>
             </div>
           </div>
         </div>
       </div>
       
+      {showHistory && (
+        <HandHistoryPanel tableGuid={tableGuid.toString()} onClose={() => setShowHistory(false)} />
+      )}
+      
+      {showLedger && (
+        <LedgerPanel tableGuid={tableGuid.toString()} onClose={() => setShowLedger(false)} />
+      )}
+      
+      {showSettings && (
+        <TableSettingsPanel
+          tableGuid={tableGuid.toString()}
+          settings={table.settings}
+          canSave={table.gamePhase === 'Waiting'}
+          onSaved={(updatedTable) => {
+            setTable(updatedTable);
+            setLastUpdated(new Date());
+          }}
+          onClose={() => setShowSettings(false)}
+        />
+      )}
+      
       {/* Debug panel removed */}
     </>
   );
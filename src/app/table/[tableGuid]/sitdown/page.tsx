@@ -1,19 +1,67 @@
 "use client";
 
 import { useEffect, useState, useRef } from 'react';
-import { useParams, useRouter } from 'next/navigation';
+import { useParams, useRouter, useSearchParams } from 'next/navigation';
+import SeatOval from '@/components/SeatOval';
+import PlayerAvatar from '@/components/PlayerAvatar';
+import PlayerIdentityForm from '@/components/PlayerIdentityForm';
+import { PlayerAvatar as Avatar } from '@/lib/types';
+
+type SeatChoice = {
+  seat: number;
+  playerAlias: string | null; // null for an empty seat
+  avatar?: Avatar;
+};
 
 export default function SitDownPage() {
   const params = useParams();
   const { tableGuid } = params;
   const router = useRouter();
+  // A rejoin code from the host gets a player back to their old seat
+  const rejoinCode = useSearchParams().get('code');
+  const [codeInput, setCodeInput] = useState<string>('');
+  const [nickname, setNickname] = useState<string>('');
+  const [avatar, setAvatar] = useState<Avatar | null>(null);
+  const [seats, setSeats] = useState<SeatChoice[] | null>(null);
   const [loading, setLoading] = useState<boolean>(true);
   const [error, setError] = useState<string | null>(null);
   const joinRequestSent = useRef<boolean>(false);
   
-  // Join the table automatically when the page loads
+  // Load the seats to choose from, or go straight back to the seat this device already has
+  const loadSeats = async () => {
+    const response = await fetch(`/api/tables/${tableGuid}/sitdown`, {
+      // Prevent caching to ensure a fresh request
+      headers: {
+        'Cache-Control': 'no-cache',
+        'Pragma': 'no-cache'
+      }
+    });
+    
+    const data = await response.json();
+    
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to load the table');
+    }
+    
+    if (data.redirect) {
+      console.log(`Already seated, redirecting to ${data.redirect}`);
+      router.push(data.redirect);
+      return;
+    }
+    
+    // Start with the nickname and avatar this device used last time
+    if (data.profile) {
+      setNickname(data.profile.nickname ?? '');
+      setAvatar(data.profile.avatar);
+    }
+    
+    setSeats(data.seats);
+    setLoading(false);
+  };
+  
+  // Rejoin with a code, or show the seats, when the page loads
   useEffect(() => {
-    const joinTable = async () => {
+    const start = async () => {
       // Prevent duplicate requests
       if (joinRequestSent.current) {
         return;
@@ -22,58 +70,113 @@ export default function SitDownPage() {
       joinRequestSent.current = true;
       
       try {
-        console.log(`Sending sit-down request for table ${tableGuid}`);
-        
-        const response = await fetch(`/api/tables/${tableGuid}/sitdown`, {
-          method: 'POST',
-          // Prevent caching to ensure a fresh request
-          headers: {
-            'Cache-Control': 'no-cache',
-            'Pragma': 'no-cache'
-          }
-        });
-        
-        const data = await response.json();
-        
-        if (!response.ok) {
-          throw new Error(data.error || 'Failed to join table');
+        if (rejoinCode) {
+          await rejoin(rejoinCode);
+        } else {
+          await loadSeats();
         }
-        
-        console.log(`Successfully joined table, redirecting to ${data.redirect}`);
-        
-        // Redirect to the player page
-        router.push(data.redirect);
-        
-        // Additional protection - wait a bit before allowing another request
-        setTimeout(() => {
-          joinRequestSent.current = false;
-        }, 5000);
       } catch (err: any) {
         console.error('Error joining table:', err);
         setError(err.message);
         setLoading(false);
-        
-        // Allow retrying after an error
-        setTimeout(() => {
-          joinRequestSent.current = false;
-        }, 2000);
       }
     };
     
-    joinTable();
+    start();
+  }, [tableGuid, rejoinCode]);
+  
+  // Get back to a seat with a rejoin code from the host
+  const rejoin = async (code: string) => {
+    const response = await fetch(`/api/tables/${tableGuid}/rejoin`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ code })
+    });
     
-    // Cleanup function to prevent memory leaks
-    return () => {
-      joinRequestSent.current = true; // Prevent further requests during unmount
-    };
-  }, [tableGuid, router]);
+    const data = await response.json();
+    
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to rejoin table');
+    }
+    
+    router.push(data.redirect);
+  };
+  
+  // Take a seat (or the first empty one when no seat is given) under the nickname and avatar picked
+  const handleSit = async (seat?: number) => {
+    try {
+      setLoading(true);
+      console.log(`Sending sit-down request for table ${tableGuid}${seat ? `, seat ${seat}` : ''}`);
+      
+      const response = await fetch(`/api/tables/${tableGuid}/sitdown`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...(seat && { seat }),
+          ...(nickname.trim() && { nickname }),
+          ...(avatar && { avatar })
+        })
+      });
+      
+      const data = await response.json();
+      
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to join table');
+      }
+      
+      console.log(`Successfully joined table, redirecting to ${data.redirect}`);
+      
+      // Redirect to the player page
+      router.push(data.redirect);
+    } catch (err: any) {
+      console.error('Error joining table:', err);
+      setError(err.message);
+      setLoading(false);
+    }
+  };
   
-  const handleRetry = () => {
-    joinRequestSent.current = false;
+  // Rejoin with a code typed in by hand
+  const handleRejoin = async (event: React.FormEvent) => {
+    event.preventDefault();
+    
+    try {
+      await rejoin(codeInput);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+  
+  const handleRetry = async () => {
     setError(null);
     setLoading(true);
+    
+    try {
+      await loadSeats();
+    } catch (err: any) {
+      setError(err.message);
+      setLoading(false);
+    }
   };
   
+  const rejoinForm = (
+    <form onSubmit={handleRejoin} className="mt-6">
+      <label className="block mb-2">Lost your seat? Enter the rejoin code from the host:</label>
+      <div className="flex space-x-2 justify-center">
+        <input
+          type="text"
+          value={codeInput}
+          onChange={(e) => setCodeInput(e.target.value)}
+          className="px-3 py-2 border rounded uppercase tracking-widest dark:bg-gray-800 dark:border-gray-600"
+          placeholder="ABC234"
+          autoCapitalize="characters"
+        />
+        <button type="submit" className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600">
+          Rejoin
+        </button>
+      </div>
+    </form>
+  );
+  
   if (error) {
     return (
       <div className="container mx-auto px-4 py-8">
@@ -82,34 +185,91 @@ export default function SitDownPage() {
           {error}
         </div>
         <div className="flex space-x-4">
-          <button 
+          <button
             onClick={handleRetry}
             className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600"
           >
             Retry
           </button>
-          <button 
+          <button
             onClick={() => router.push(`/table/${tableGuid}`)}
             className="px-4 py-2 bg-gray-500 text-white rounded hover:bg-gray-600"
           >
             Return to Table
           </button>
         </div>
+        {rejoinForm}
       </div>
     );
   }
   
+  if (loading || !seats) {
+    return (
+      <div className="container mx-auto px-4 py-8 text-center">
+        <h1 className="text-2xl font-bold mb-4">Joining Table</h1>
+        <div className="animate-pulse flex flex-col items-center">
+          <div className="bg-blue-100 rounded-full h-24 w-24 flex items-center justify-center mb-4">
+            <svg className="w-12 h-12 text-blue-600" fill="none" strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" viewBox="0 0 24 24" stroke="currentColor">
+              <path d="M12 6v6m0 0v6m0-6h6m-6 0H6"></path>
+            </svg>
+          </div>
+          <p className="text-lg">Joining the table...</p>
+        </div>
+      </div>
+    );
+  }
+  
+  const takenSeats = seats.filter(seat => seat.playerAlias !== null);
+  const isFull = takenSeats.length === seats.length;
+  
   return (
     <div className="container mx-auto px-4 py-8 text-center">
-      <h1 className="text-2xl font-bold mb-4">Joining Table</h1>
-      <div className="animate-pulse flex flex-col items-center">
-        <div className="bg-blue-100 rounded-full h-24 w-24 flex items-center justify-center mb-4">
-          <svg className="w-12 h-12 text-blue-600" fill="none" strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" viewBox="0 0 24 24" stroke="currentColor">
-            <path d="M12 6v6m0 0v6m0-6h6m-6 0H6"></path>
-          </svg>
-        </div>
-        <p className="text-lg">Joining the table...</p>
+      <h1 className="text-2xl font-bold mb-2">Pick a Seat</h1>
+      <p className="mb-4 text-gray-500">Seats are numbered clockwise from the bottom of the table</p>
+      
+      <div className="w-full max-w-md mx-auto mb-4">
+        <PlayerIdentityForm
+          nickname={nickname}
+          avatar={avatar}
+          placeholder="Leave blank for a made-up name"
+          onNicknameChange={setNickname}
+          onAvatarChange={setAvatar}
+        />
+      </div>
+      
+      <div className="w-full max-w-md mx-auto aspect-[4/3]">
+        <SeatOval
+          maxPlayers={seats.length}
+          players={takenSeats}
+          renderPlayer={(seat) => (
+            <div className="flex items-center space-x-1 px-2 py-1 rounded bg-gray-200 dark:bg-gray-700 text-xs text-gray-600 dark:text-gray-300 whitespace-nowrap">
+              <PlayerAvatar avatar={seat.avatar} name={seat.playerAlias ?? ''} className="w-4 h-4 text-[0.6rem]" />
+              <span>{seat.playerAlias}</span>
+            </div>
+          )}
+          renderEmptySeat={(seat) => (
+            <button
+              onClick={() => handleSit(seat)}
+              className="px-3 py-2 rounded bg-blue-500 hover:bg-blue-600 text-white text-sm font-semibold whitespace-nowrap"
+            >
+              Seat {seat}
+            </button>
+          )}
+        />
       </div>
+      
+      {isFull ? (
+        <p className="mt-4 text-red-600">This table is full</p>
+      ) : (
+        <button
+          onClick={() => handleSit()}
+          className="mt-4 px-4 py-2 bg-gray-500 text-white rounded hover:bg-gray-600"
+        >
+          Any Seat
+        </button>
+      )}
+      
+      {rejoinForm}
     </div>
   );
 }
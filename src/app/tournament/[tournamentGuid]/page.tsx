@@ -0,0 +1,122 @@
+"use client";
+
+import { useState, useEffect } from 'react';
+import { useParams } from 'next/navigation';
+import Link from 'next/link';
+import ThemeToggle from '@/components/ThemeToggle';
+import { usePolling } from '@/lib/usePolling';
+import { MultiTableTournamentView } from '@/lib/types';
+
+export default function TournamentPage() {
+  const { tournamentGuid } = useParams();
+  const [isBalancing, setIsBalancing] = useState<boolean>(false);
+  const [actionError, setActionError] = useState<string | null>(null);
+  
+  // Tables change as their hands end, so keep the lobby fresh
+  const { data, error, refetch } = usePolling(`/api/tournaments/${tournamentGuid}`, { interval: 3000 });
+  const tournament: MultiTableTournamentView | undefined = data?.tournament;
+  
+  useEffect(() => {
+    document.title = 'Tournament - DealMe 2';
+  }, []);
+  
+  // Balance now instead of waiting for the next hand to finish
+  const handleBalance = async () => {
+    try {
+      setIsBalancing(true);
+      setActionError(null);
+      
+      const response = await fetch(`/api/tournaments/${tournamentGuid}/balance`, { method: 'POST' });
+      const result = await response.json();
+      
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to balance tables');
+      }
+      
+      refetch();
+    } catch (err: any) {
+      setActionError(err.message);
+    } finally {
+      setIsBalancing(false);
+    }
+  };
+  
+  if (error && !tournament) {
+    return <div className="container mx-auto px-4 py-8">Tournament not found</div>;
+  }
+  
+  if (!tournament) {
+    return <div className="container mx-auto px-4 py-8">Loading tournament...</div>;
+  }
+  
+  const tablesInPlay = tournament.tables.filter(table => !table.isBroken);
+  const brokenTables = tournament.tables.filter(table => table.isBroken);
+  
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="flex justify-between items-center mb-6">
+        <div className="flex items-center">
+          <Link href="/" className="mr-2 px-1 py-0.5 bg-gray-200 dark:bg-gray-700 rounded text-sm hover:bg-gray-300 dark:hover:bg-gray-600 dark:text-gray-200">
+            All Tables
+          </Link>
+          <h1 className="text-3xl font-bold">Tournament</h1>
+        </div>
+        <ThemeToggle />
+      </div>
+      
+      <div className="mb-6 flex flex-wrap items-center gap-4">
+        <span><strong>Players left:</strong> {tournament.playersRemaining}</span>
+        <span><strong>Tables:</strong> {tablesInPlay.length} ({tournament.seatsPerTable} seats each)</span>
+        <button onClick={handleBalance} disabled={isBalancing} className="btn">
+          {isBalancing ? 'Balancing...' : 'Balance Tables'}
+        </button>
+      </div>
+      <p className="mb-4 text-sm text-gray-500">
+        Tables are balanced after every hand: busted players are knocked out, short tables are broken up
+        and players are moved so no table has more than one player more than another.
+      </p>
+      {actionError && <p className="mb-4 text-sm text-red-600">{actionError}</p>}
+      
+      {tournament.finalTableGuid && (
+        <div className="bg-amber-100 dark:bg-amber-900/30 border-l-4 border-amber-500 text-amber-800 dark:text-amber-300 p-4 mb-6">
+          Final table: everyone left is at{' '}
+          <Link href={`/table/${tournament.finalTableGuid}`} className="underline">
+            {tournament.tables.find(table => table.tableGuid === tournament.finalTableGuid)?.tableName}
+          </Link>
+        </div>
+      )}
+      
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4 mb-8">
+        {tablesInPlay.map(table => (
+          <div key={table.tableGuid} className="card">
+            <h3 className="text-lg font-semibold mb-2">{table.tableName} ({table.tableGuid.substring(0, 4)}...)</h3>
+            <p className="mb-1">Players: {table.playerCount}/{tournament.seatsPerTable}</p>
+            <p className="mb-4">Phase: {table.gamePhase}</p>
+            <Link href={`/table/${table.tableGuid}`} className="btn block text-center">
+              Open Table
+            </Link>
+          </div>
+        ))}
+      </div>
+      
+      {brokenTables.length > 0 && (
+        <p className="mb-6 text-sm text-gray-500">
+          Broken: {brokenTables.map(table => table.tableName).join(', ')}
+        </p>
+      )}
+      
+      <h2 className="text-xl font-semibold mb-4">Eliminated</h2>
+      {tournament.eliminations.length === 0 ? (
+        <p>Nobody is out yet.</p>
+      ) : (
+        <ol className="space-y-1">
+          {tournament.eliminations.map(elimination => (
+            <li key={`${elimination.place}-${elimination.playerAlias}`}>
+              <strong>{elimination.place}.</strong> {elimination.playerAlias}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
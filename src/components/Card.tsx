@@ -1,6 +1,7 @@
 import React from 'react';
 import Image from 'next/image';
 import { Card as CardType } from '@/lib/types';
+import { getCardImagePath, getCardLabel } from '@/lib/cardImages';
 
 interface CardProps {
   card?: CardType;
@@ -19,23 +20,8 @@ const Card: React.FC<CardProps> = ({ card, hidden = false, size = 'md', classNam
     auto: 'w-full h-full', // Will scale with container
   };
   
-  // Map for faster rank lookups
-  const rankMap: Record<string, string> = {
-    'A': '1',
-    'J': '11',
-    'Q': '12',
-    'K': '13'
-  };
-
-  // Get the image file path for a card
-  const getCardImagePath = (card: CardType): string => {
-    const suitCapitalized = card.suit.charAt(0).toUpperCase() + card.suit.slice(1);
-    const rankValue = rankMap[card.rank] || card.rank;
-    return `/cards/${suitCapitalized}-${rankValue}.png`;
-  };
-  
   // A reusable card container with consistent styling
-  const CardContainer = ({ children, isDashed = false }) => (
+  const CardContainer = ({ children, isDashed = false }: { children?: React.ReactNode; isDashed?: boolean }) => (
     <div 
       style={{ aspectRatio: '2/3' }} 
       className={`${sizeClasses[size]} ${className} relative rounded-lg ${
@@ -76,7 +62,7 @@ const Card: React.FC<CardProps> = ({ card, hidden = false, size = 'md', classNam
       <div className="w-[100%] h-[100%] relative">
         <Image 
           src={getCardImagePath(card)}
-          alt={`${card.rank} of ${card.suit}`}
+          alt={getCardLabel(card)}
           fill
           sizes="(max-width: 640px) 30vw, (max-width: 768px) 25vw, (max-width: 1024px) 20vw, 15vw"
           priority
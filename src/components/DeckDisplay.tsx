@@ -3,6 +3,7 @@ import Image from 'next/image';
 
 interface DeckDisplayProps {
   cardsRemaining: number;
+  burnedCount?: number; // Cards in the discard pile next to the deck
   size?: 'sm' | 'md' | 'lg' | 'xl' | 'auto';
   onClick?: () => void;
   isClickable?: boolean;
@@ -11,6 +12,7 @@ interface DeckDisplayProps {
 
 const DeckDisplay: React.FC<DeckDisplayProps> = ({ 
   cardsRemaining,
+  burnedCount = 0,
   size = 'lg',
   onClick,
   isClickable = false,
@@ -33,6 +35,31 @@ const DeckDisplay: React.FC<DeckDisplayProps> = ({
       aria-label={isClickable ? 'Advance game' : undefined}
       style={{ aspectRatio: '2/3' }}
     >
+      {/* Discard pile of burned cards, face down and peeking out from behind the deck */}
+      {Array.from({ length: Math.min(burnedCount, 3) }).map((_, index) => (
+        <div 
+          key={`burn-card-${index}`}
+          className="absolute inset-0 rounded-lg shadow-md overflow-hidden border border-gray-300 dark:border-slate-700 box-border opacity-80"
+          style={{
+            top: `${12 + index * 4}px`,
+            left: `${18 + index * 4}px`,
+            transform: `rotate(${-12 + index * 6}deg)`,
+            zIndex: 0
+          }}
+          title={`${burnedCount} burned`}
+        >
+          <div className="w-[100%] h-[100%] relative">
+            <Image 
+              src="/cards/Back.png"
+              alt="Burned Card"
+              fill
+              sizes="(max-width: 640px) 30vw, (max-width: 768px) 25vw, (max-width: 1024px) 20vw, 15vw"
+              className="object-cover"
+            />
+          </div>
+        </div>
+      ))}
+      
       {/* Create a stack-like appearance with multiple card backs */}
       {[...Array(3)].map((_, index) => (
         <div 
@@ -60,6 +87,7 @@ const DeckDisplay: React.FC<DeckDisplayProps> = ({
       {/* Card count */}
       <div className="absolute bottom-0 left-0 right-0 text-center text-xs text-gray-600 dark:text-gray-400 mt-2 bg-white dark:bg-gray-800 bg-opacity-80 dark:bg-opacity-80 py-1 rounded">
         {cardsRemaining} cards
+        {burnedCount > 0 && ` · ${burnedCount} burned`}
       </div>
       
       {/* Visual cue for clickable deck */}
@@ -1,6 +1,7 @@
 import React, { useState } from 'react';
 import Image from 'next/image';
 import { Card as CardType } from '@/lib/types';
+import { getCardImagePath, getCardLabel } from '@/lib/cardImages';
 
 interface FlippableCardProps {
   card: CardType;
@@ -22,20 +23,6 @@ const FlippableCard: React.FC<FlippableCardProps> = ({ card, size = 'md', isForc
     xl: 'w-40 h-60 md:w-56 md:h-80 lg:w-64 lg:h-96 xl:w-72 xl:h-108',
   };
 
-  // Get the image file path for a card
-  const getCardImagePath = (card: CardType): string => {
-    const suitCapitalized = card.suit.charAt(0).toUpperCase() + card.suit.slice(1);
-    let rankValue = card.rank;
-    
-    // Convert number ranks to their values and face cards to their numbers
-    if (card.rank === 'A') rankValue = '1';
-    else if (card.rank === 'J') rankValue = '11';
-    else if (card.rank === 'Q') rankValue = '12';
-    else if (card.rank === 'K') rankValue = '13';
-    
-    return `/cards/${suitCapitalized}-${rankValue}.png`;
-  };
-
   const handleMouseDown = () => {
     setIsFlipped(true);
   };
@@ -128,7 +115,7 @@ const FlippableCard: React.FC<FlippableCardProps> = ({ card, size = 'md', isForc
         >
           <Image 
             src={getCardImagePath(card)}
-            alt={`${card.rank} of ${card.suit}`}
+            alt={getCardLabel(card)}
             fill
             priority
             className="object-contain pointer-events-none select-none"
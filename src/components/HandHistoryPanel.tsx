@@ -0,0 +1,163 @@
+"use client";
+
+import React, { useEffect, useState } from 'react';
+import { HandHistoryEntry } from '@/lib/types';
+import { isPokerStarsExportable } from '@/lib/handHistory';
+
+interface HandHistoryPanelProps {
+  tableGuid: string;
+  onClose: () => void;
+}
+
+// Describe how a hand ended for the history list
+function getOutcomeText(entry: HandHistoryEntry): string {
+  const winners = entry.seats.filter(seat => entry.winnings[seat.playerGuid] !== undefined);
+  
+  switch (entry.endedBy) {
+    case 'showdown': {
+      const winnerGuids = entry.showdown?.winnerGuids ?? [];
+      const aliases = entry.seats
+        .filter(seat => winnerGuids.includes(seat.playerGuid))
+        .map(seat => seat.playerAlias);
+      const handName = entry.showdown?.winningHandName ?? '';
+      return aliases.length > 1
+        ? `Split pot: ${aliases.join(', ')} (${handName})`
+        : `${aliases[0] ?? 'Nobody'} wins with ${handName}`;
+    }
+    case 'fold':
+      return `${winners[0]?.playerAlias ?? 'Nobody'} wins, everyone else folded`;
+    default:
+      return 'Ended early';
+  }
+}
+
+// List who folded and on which street (e.g., "Glitzy Viper (Flop)")
+function getFoldsText(entry: HandHistoryEntry): string[] {
+  return entry.actions
+    .filter(action => action.action === 'fold')
+    .map(({ playerGuid, phase }) => {
+      const alias = entry.seats.find(seat => seat.playerGuid === playerGuid)?.playerAlias ?? 'player';
+      return `${alias} (${phase})`;
+    });
+}
+
+// Describe where each card went, in the order it came off the deck
+function getDealingOrderText(entry: HandHistoryEntry): string[] {
+  return (entry.dealingOrder ?? []).map(({ card, destination, playerGuid }, index) => {
+    const to = destination === 'player'
+      ? entry.seats.find(seat => seat.playerGuid === playerGuid)?.playerAlias ?? 'player'
+      : destination;
+    return `${index + 1}. ${card.code} → ${to}`;
+  });
+}
+
+const HandHistoryPanel: React.FC<HandHistoryPanelProps> = ({ tableGuid, onClose }) => {
+  const [history, setHistory] = useState<HandHistoryEntry[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  
+  useEffect(() => {
+    const fetchHistory = async () => {
+      try {
+        const response = await fetch(`/api/tables/${tableGuid}/history`);
+        const data = await response.json();
+        
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to fetch hand history');
+        }
+        
+        setHistory(data.history);
+      } catch (err: any) {
+        setError(err.message || 'Failed to fetch hand history');
+      }
+    };
+    
+    fetchHistory();
+  }, [tableGuid]);
+  
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50" onClick={onClose}>
+      <div 
+        className="card p-4 w-full max-w-2xl max-h-[80vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-3">
+          <h2 className="text-xl font-semibold">Hand History</h2>
+          <div className="flex items-center space-x-2">
+            {history && history.length > 0 && (
+              <a 
+                href={`/api/tables/${tableGuid}/history?format=pokerstars`}
+                className="text-sm px-2 py-1 rounded bg-gray-200 dark:bg-gray-700 hover:bg-gray-300 dark:hover:bg-gray-600 dark:text-gray-200"
+                download
+              >
+                Export (PokerStars)
+              </a>
+            )}
+            <button 
+              onClick={onClose}
+              className="text-sm px-2 py-1 rounded bg-gray-200 dark:bg-gray-700 hover:bg-gray-300 dark:hover:bg-gray-600 dark:text-gray-200"
+            >
+              Close
+            </button>
+          </div>
+        </div>
+        
+        {history && history.some(entry => !isPokerStarsExportable(entry)) && (
+          <p className="text-xs text-gray-500 mb-2">
+            Pineapple hands and hands dealt with jokers are left out of the PokerStars export, since PokerStars has no format for them
+          </p>
+        )}
+        
+        <div className="overflow-y-auto flex-1">
+          {error ? (
+            <p className="text-red-600">{error}</p>
+          ) : !history ? (
+            <p className="text-gray-500">Loading...</p>
+          ) : history.length === 0 ? (
+            <p className="text-gray-500">No hands have been completed yet</p>
+          ) : (
+            <div className="divide-y dark:divide-gray-700">
+              {[...history].reverse().map(entry => (
+                <div key={entry.handNumber} className="py-2">
+                  <div className="flex justify-between">
+                    <span className="font-semibold">Hand #{entry.handNumber}</span>
+                    <span className="text-sm text-gray-500">
+                      {entry.shuffle && (
+                        <a 
+                          href={`/api/tables/${tableGuid}/hands/${entry.handNumber}/verify`}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="mr-2 underline"
+                        >
+                          Verify
+                        </a>
+                      )}
+                      {new Date(entry.endedAt).toLocaleTimeString()}
+                    </span>
+                  </div>
+                  <p className="text-sm">{getOutcomeText(entry)}</p>
+                  <p className="text-sm text-gray-500">
+                    Board: {entry.board.length > 0 ? entry.board.map(card => card.code).join(' ') : 'none'}
+                    {entry.bettingEnabled && ` · Pot: ${entry.totalPot}`}
+                  </p>
+                  {getFoldsText(entry).length > 0 && (
+                    <p className="text-sm text-gray-500">Folded: {getFoldsText(entry).join(', ')}</p>
+                  )}
+                  {entry.dealingOrder?.length > 0 && (
+                    <details className="text-sm text-gray-500">
+                      <summary className="cursor-pointer">Dealing order</summary>
+                      <p className="mt-1 font-mono text-xs">
+                        {getDealingOrderText(entry).join(', ')}
+                      </p>
+                    </details>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default HandHistoryPanel;
@@ -0,0 +1,95 @@
+"use client";
+
+import React, { useEffect, useState } from 'react';
+import { LeaderboardEntry } from '@/lib/types';
+import PlayerAvatar from '@/components/PlayerAvatar';
+import { formatNetResult } from '@/components/PlayerStatsSummary';
+
+interface LeaderboardProps {
+  tableGuid: string;
+  handNumber: number; // Fetched again whenever another hand has been played
+  bettingEnabled: boolean;
+}
+
+// Everyone dealt in at the table ranked by their results, shown on the table display between hands
+const Leaderboard: React.FC<LeaderboardProps> = ({ tableGuid, handNumber, bettingEnabled }) => {
+  const [entries, setEntries] = useState<LeaderboardEntry[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchLeaderboard = async () => {
+      try {
+        const response = await fetch(`/api/tables/${tableGuid}/leaderboard`);
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to fetch the leaderboard');
+        }
+
+        setEntries(data.leaderboard);
+      } catch (err: any) {
+        setError(err.message || 'Failed to fetch the leaderboard');
+      }
+    };
+
+    fetchLeaderboard();
+  }, [tableGuid, handNumber]);
+
+  if (error) {
+    return <p className="text-red-600">{error}</p>;
+  }
+
+  if (!entries) {
+    return <p className="text-gray-500">Loading...</p>;
+  }
+
+  if (entries.length === 0) {
+    return <p className="text-gray-500">No hands have been played yet</p>;
+  }
+
+  return (
+    <table className="w-full text-base sm:text-lg">
+      <thead>
+        <tr className="text-left border-b dark:border-gray-700 text-sm text-gray-500">
+          <th className="py-1">#</th>
+          <th className="py-1">Player</th>
+          {bettingEnabled && <th className="py-1 text-right">Net</th>}
+          <th className="py-1 text-right">Hands</th>
+          <th className="py-1 text-right">Won</th>
+          {bettingEnabled && <th className="py-1 text-right">VPIP</th>}
+          <th className="py-1 text-right">Showdowns won</th>
+          {bettingEnabled && <th className="py-1 text-right">Biggest pot</th>}
+          <th className="py-1">Best hand</th>
+        </tr>
+      </thead>
+      <tbody>
+        {entries.map((entry, index) => (
+          <tr key={index} className={`border-b dark:border-gray-700 ${entry.isSeated ? '' : 'text-gray-500'}`}>
+            <td className="py-1">{index + 1}</td>
+            <td className="py-1">
+              <span className="inline-flex items-center">
+                <PlayerAvatar avatar={entry.avatar} name={entry.playerAlias} className="mr-1 w-6 h-6 text-sm" />
+                <span className="font-semibold">{entry.playerAlias}</span>
+              </span>
+            </td>
+            {bettingEnabled && (
+              <td className={`py-1 text-right font-semibold ${entry.stats.netResult < 0 ? 'text-red-600' : entry.stats.netResult > 0 ? 'text-green-600' : ''}`}>
+                {formatNetResult(entry.stats.netResult)}
+              </td>
+            )}
+            <td className="py-1 text-right">{entry.stats.handsDealt}</td>
+            <td className="py-1 text-right">{entry.stats.handsWon}</td>
+            {bettingEnabled && (
+              <td className="py-1 text-right">{entry.stats.vpip === null ? '-' : `${entry.stats.vpip}%`}</td>
+            )}
+            <td className="py-1 text-right">{entry.stats.showdownsWon}/{entry.stats.showdownsSeen}</td>
+            {bettingEnabled && <td className="py-1 text-right">{entry.stats.biggestPot || '-'}</td>}
+            <td className="py-1">{entry.stats.bestHand ?? '-'}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+};
+
+export default Leaderboard;
@@ -0,0 +1,128 @@
+"use client";
+
+import React, { useEffect, useState } from 'react';
+import { LedgerView } from '@/lib/types';
+
+interface LedgerPanelProps {
+  tableGuid: string;
+  onClose: () => void;
+}
+
+// Show a net result with its sign (e.g., "+120", "-40")
+function formatNet(net: number): string {
+  return net > 0 ? `+${net}` : `${net}`;
+}
+
+const LedgerPanel: React.FC<LedgerPanelProps> = ({ tableGuid, onClose }) => {
+  const [ledger, setLedger] = useState<LedgerView | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchLedger = async () => {
+      try {
+        const response = await fetch(`/api/tables/${tableGuid}/ledger`);
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to fetch the ledger');
+        }
+
+        setLedger(data.ledger);
+      } catch (err: any) {
+        setError(err.message || 'Failed to fetch the ledger');
+      }
+    };
+
+    fetchLedger();
+  }, [tableGuid]);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50" onClick={onClose}>
+      <div
+        className="card p-4 w-full max-w-2xl max-h-[80vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-3">
+          <h2 className="text-xl font-semibold">Session Ledger</h2>
+          <div className="flex items-center space-x-2">
+            {ledger && ledger.balances.length > 0 && (
+              <a
+                href={`/api/tables/${tableGuid}/ledger?format=csv`}
+                className="text-sm px-2 py-1 rounded bg-gray-200 dark:bg-gray-700 hover:bg-gray-300 dark:hover:bg-gray-600 dark:text-gray-200"
+                download
+              >
+                Export (CSV)
+              </a>
+            )}
+            <button
+              onClick={onClose}
+              className="text-sm px-2 py-1 rounded bg-gray-200 dark:bg-gray-700 hover:bg-gray-300 dark:hover:bg-gray-600 dark:text-gray-200"
+            >
+              Close
+            </button>
+          </div>
+        </div>
+
+        <div className="overflow-y-auto flex-1 text-sm">
+          {error ? (
+            <p className="text-red-600">{error}</p>
+          ) : !ledger ? (
+            <p className="text-gray-500">Loading...</p>
+          ) : ledger.balances.length === 0 ? (
+            <p className="text-gray-500">Nobody has bought in yet</p>
+          ) : (
+            <>
+              <table className="w-full mb-4">
+                <thead>
+                  <tr className="text-left border-b dark:border-gray-700">
+                    <th className="py-1">Player</th>
+                    <th className="py-1 text-right">Bought in</th>
+                    <th className="py-1 text-right">Cashed out</th>
+                    <th className="py-1 text-right">At table</th>
+                    <th className="py-1 text-right">Net</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {ledger.balances.map((balance, index) => (
+                    <tr key={index} className="border-b dark:border-gray-700">
+                      <td className="py-1">{balance.playerAlias}</td>
+                      <td className="py-1 text-right">{balance.boughtIn}</td>
+                      <td className="py-1 text-right">{balance.cashedOut}</td>
+                      <td className="py-1 text-right">{balance.atTable || ''}</td>
+                      <td className={`py-1 text-right ${balance.net < 0 ? 'text-red-600' : balance.net > 0 ? 'text-green-600' : ''}`}>
+                        {formatNet(balance.net)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+
+              <h3 className="font-semibold mb-1">Settle up</h3>
+              {ledger.unsettled !== 0 ? (
+                <p className="text-amber-600">
+                  The balances are {Math.abs(ledger.unsettled)} chips out, so they can&apos;t be settled yet
+                  (players may have sat down before chips were tracked)
+                </p>
+              ) : ledger.payments.length === 0 ? (
+                <p className="text-gray-500">Everyone is square</p>
+              ) : (
+                <ul className="space-y-1">
+                  {ledger.payments.map((payment, index) => (
+                    <li key={index}>
+                      <strong>{payment.from}</strong> pays <strong>{payment.to}</strong> {payment.amount}
+                    </li>
+                  ))}
+                </ul>
+              )}
+              <p className="mt-2 text-gray-500">
+                Players still seated are settled on the chips in front of them
+              </p>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LedgerPanel;
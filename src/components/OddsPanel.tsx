@@ -0,0 +1,56 @@
+import React from 'react';
+import { OddsView } from '@/lib/types';
+import { getCardLabel } from '@/lib/cardImages';
+import Card from '@/components/Card';
+
+interface OddsPanelProps {
+  odds: OddsView;
+}
+
+// Each live hand's chance of winning, shown under the board on the table display
+const OddsPanel: React.FC<OddsPanelProps> = ({ odds }) => {
+  const hands = [...odds.hands].sort((a, b) => b.equity - a.equity);
+
+  return (
+    <div className="shrink-0 mt-2">
+      <div className="flex flex-wrap gap-2">
+        {hands.map(hand => (
+          <div key={hand.seat} className="flex-1 min-w-[10rem] px-2 py-1 rounded border dark:border-gray-600 text-sm">
+            <div className="flex items-center justify-between">
+              <span className="font-semibold truncate">{hand.playerAlias}</span>
+              <span className="ml-2 text-lg font-bold">{hand.equity.toFixed(1)}%</span>
+            </div>
+            <div className="h-1.5 rounded bg-gray-200 dark:bg-gray-700">
+              <div className="h-1.5 rounded bg-green-600" style={{ width: `${hand.equity}%` }}></div>
+            </div>
+            {hand.tiePercent > 0 && (
+              <div className="text-xs text-gray-500">Ties {hand.tiePercent.toFixed(1)}%</div>
+            )}
+            {hand.cards && (
+              <div className="flex items-center space-x-1 mt-1">
+                {hand.cards.map((card, cardIndex) => (
+                  <Card key={cardIndex} card={card} size="sm" />
+                ))}
+              </div>
+            )}
+            {hand.outs && hand.outs.length > 0 && (
+              <div className="text-xs mt-1">
+                <span className="font-medium">{hand.outs.length} {hand.outs.length === 1 ? 'out' : 'outs'}:</span>{' '}
+                {hand.outs.map(card => (
+                  <span key={card.code} className="mr-1" title={getCardLabel(card)}>{card.code}</span>
+                ))}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+      <p className="text-xs text-gray-500 mt-1">
+        {odds.method === 'monte-carlo'
+          ? `Estimated from ${odds.runouts} random boards`
+          : odds.runouts === 1 ? 'The whole board is out' : `Exact odds over all ${odds.runouts} possible cards to come`}
+      </p>
+    </div>
+  );
+};
+
+export default OddsPanel;
@@ -0,0 +1,35 @@
+import React from 'react';
+import { PlayerAvatar as Avatar } from '@/lib/types';
+
+interface PlayerAvatarProps {
+  avatar?: Avatar;
+  name: string;
+  className?: string;
+}
+
+// A player's avatar: their emoji, or their initial on their colour
+const PlayerAvatar: React.FC<PlayerAvatarProps> = ({ avatar, name, className = 'w-6 h-6 text-sm' }) => {
+  if (!avatar) {
+    return null;
+  }
+
+  if ('emoji' in avatar) {
+    return (
+      <span className={`inline-flex items-center justify-center leading-none ${className}`} aria-hidden="true">
+        {avatar.emoji}
+      </span>
+    );
+  }
+
+  return (
+    <span
+      className={`inline-flex items-center justify-center rounded-full font-bold text-white leading-none ${className}`}
+      style={{ backgroundColor: avatar.color }}
+      aria-hidden="true"
+    >
+      {name.charAt(0).toUpperCase()}
+    </span>
+  );
+};
+
+export default PlayerAvatar;
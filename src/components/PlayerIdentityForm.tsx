@@ -0,0 +1,85 @@
+"use client";
+
+import React from 'react';
+import { PlayerAvatar as Avatar } from '@/lib/types';
+import { AVATAR_EMOJIS, AVATAR_COLORS, MAX_NICKNAME_LENGTH } from '@/lib/playerIdentity';
+
+interface PlayerIdentityFormProps {
+  nickname: string;
+  avatar: Avatar | null;
+  placeholder: string; // The generated alias used when no nickname is given
+  onNicknameChange: (nickname: string) => void;
+  onAvatarChange: (avatar: Avatar | null) => void;
+}
+
+// Whether two avatars are the same pick
+function isSameAvatar(a: Avatar | null, b: Avatar): boolean {
+  if (!a) {
+    return false;
+  }
+  return 'emoji' in a ? 'emoji' in b && a.emoji === b.emoji : 'color' in b && a.color === b.color;
+}
+
+// Nickname box and avatar picker, shared by the sit down screen and the player page
+const PlayerIdentityForm: React.FC<PlayerIdentityFormProps> = ({
+  nickname,
+  avatar,
+  placeholder,
+  onNicknameChange,
+  onAvatarChange
+}) => {
+  const choiceClass = (choice: Avatar) =>
+    `w-9 h-9 flex items-center justify-center rounded-full text-xl ${
+      isSameAvatar(avatar, choice) ? 'ring-2 ring-blue-500 ring-offset-2 dark:ring-offset-gray-800' : ''
+    }`;
+
+  return (
+    <div className="text-left space-y-3">
+      <label className="block">
+        <span className="block mb-1 text-sm font-semibold">Nickname</span>
+        <input
+          type="text"
+          value={nickname}
+          onChange={(e) => onNicknameChange(e.target.value)}
+          maxLength={MAX_NICKNAME_LENGTH}
+          placeholder={placeholder}
+          className="w-full px-3 py-2 border rounded dark:bg-gray-800 dark:border-gray-600"
+        />
+      </label>
+
+      <div>
+        <span className="block mb-1 text-sm font-semibold">Avatar</span>
+        <div className="flex flex-wrap gap-1">
+          <button
+            type="button"
+            onClick={() => onAvatarChange(null)}
+            className={`w-9 h-9 flex items-center justify-center rounded-full text-xs text-gray-500 border dark:border-gray-600 ${
+              avatar === null ? 'ring-2 ring-blue-500 ring-offset-2 dark:ring-offset-gray-800' : ''
+            }`}
+          >
+            None
+          </button>
+          {AVATAR_EMOJIS.map(emoji => (
+            <button key={emoji} type="button" onClick={() => onAvatarChange({ emoji })} className={choiceClass({ emoji })}>
+              {emoji}
+            </button>
+          ))}
+        </div>
+        <div className="flex flex-wrap gap-1 mt-1">
+          {AVATAR_COLORS.map(color => (
+            <button
+              key={color}
+              type="button"
+              onClick={() => onAvatarChange({ color })}
+              className={choiceClass({ color })}
+              style={{ backgroundColor: color }}
+              aria-label={`Colour ${color}`}
+            />
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PlayerIdentityForm;
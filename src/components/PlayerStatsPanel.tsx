@@ -0,0 +1,68 @@
+"use client";
+
+import React, { useEffect, useState } from 'react';
+import { PlayerStats, ProfileStats } from '@/lib/types';
+import PlayerStatsSummary from '@/components/PlayerStatsSummary';
+
+interface PlayerStatsPanelProps {
+  playerGuid: string;
+  handNumber: number; // Fetched again whenever another hand has been played
+}
+
+type StatsResponse = {
+  bettingEnabled: boolean;
+  session: PlayerStats;
+  profile: ProfileStats | null;
+};
+
+// A player's stats at this table and over every table their profile has played at
+const PlayerStatsPanel: React.FC<PlayerStatsPanelProps> = ({ playerGuid, handNumber }) => {
+  const [stats, setStats] = useState<StatsResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchStats = async () => {
+      try {
+        const response = await fetch(`/api/players/${playerGuid}/stats`);
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to fetch stats');
+        }
+
+        setStats(data);
+      } catch (err: any) {
+        setError(err.message || 'Failed to fetch stats');
+      }
+    };
+
+    fetchStats();
+  }, [playerGuid, handNumber]);
+
+  if (error) {
+    return <p className="text-red-600 text-sm">{error}</p>;
+  }
+
+  if (!stats) {
+    return <p className="text-gray-500 text-sm">Loading...</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <section>
+        <h2 className="font-semibold mb-2">This table</h2>
+        <PlayerStatsSummary stats={stats.session} showChips={stats.bettingEnabled} />
+      </section>
+      {stats.profile && (
+        <section>
+          <h2 className="font-semibold mb-2">
+            All your tables <span className="font-normal text-sm text-gray-500">({stats.profile.tablesPlayed})</span>
+          </h2>
+          <PlayerStatsSummary stats={stats.profile} />
+        </section>
+      )}
+    </div>
+  );
+};
+
+export default PlayerStatsPanel;
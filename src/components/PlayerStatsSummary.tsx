@@ -0,0 +1,48 @@
+import React from 'react';
+import { PlayerStats } from '@/lib/types';
+
+interface PlayerStatsSummaryProps {
+  stats: PlayerStats;
+  showChips?: boolean; // Whether chips were in play, so VPIP, pots and results mean something
+  className?: string;
+}
+
+// Show a net result with its sign (e.g., "+120", "-40")
+export function formatNetResult(net: number): string {
+  return net > 0 ? `+${net}` : `${net}`;
+}
+
+// A player's stats as a grid of labelled figures
+const PlayerStatsSummary: React.FC<PlayerStatsSummaryProps> = ({ stats, showChips = true, className = '' }) => {
+  const figures: { label: string; value: React.ReactNode }[] = [
+    { label: 'Hands dealt', value: stats.handsDealt },
+    { label: 'Hands won', value: stats.handsWon },
+    { label: 'Showdowns won', value: `${stats.showdownsWon}/${stats.showdownsSeen}` },
+    { label: 'Best hand', value: stats.bestHand ?? '-' },
+    ...(showChips ? [
+      { label: 'VPIP', value: stats.vpip === null ? '-' : `${stats.vpip}%` },
+      { label: 'Biggest pot', value: stats.biggestPot || '-' },
+      {
+        label: 'Net result',
+        value: (
+          <span className={stats.netResult < 0 ? 'text-red-600' : stats.netResult > 0 ? 'text-green-600' : ''}>
+            {formatNetResult(stats.netResult)}
+          </span>
+        ),
+      },
+    ] : []),
+  ];
+
+  return (
+    <dl className={`grid grid-cols-2 sm:grid-cols-4 gap-2 ${className}`}>
+      {figures.map(figure => (
+        <div key={figure.label} className="rounded bg-gray-100 dark:bg-gray-800 p-2">
+          <dt className="text-xs text-gray-500 dark:text-gray-400">{figure.label}</dt>
+          <dd className="font-semibold">{figure.value}</dd>
+        </div>
+      ))}
+    </dl>
+  );
+};
+
+export default PlayerStatsSummary;
@@ -0,0 +1,56 @@
+import React from 'react';
+
+interface SeatOvalProps<P extends { seat: number }> {
+  maxPlayers: number;
+  players: P[];
+  renderPlayer: (player: P) => React.ReactNode;
+  renderEmptySeat?: (seat: number) => React.ReactNode;
+  className?: string;
+}
+
+// Where a seat sits on the oval, as percentages of the container
+// Seat 1 is at the bottom centre and seats are numbered clockwise
+function getSeatPosition(seat: number, maxPlayers: number): { left: string; top: string } {
+  const angle = Math.PI / 2 + ((seat - 1) * 2 * Math.PI) / maxPlayers;
+
+  return {
+    left: `${50 + 42 * Math.cos(angle)}%`,
+    top: `${50 + 38 * Math.sin(angle)}%`,
+  };
+}
+
+function SeatOval<P extends { seat: number }>({
+  maxPlayers,
+  players,
+  renderPlayer,
+  renderEmptySeat,
+  className = ''
+}: SeatOvalProps<P>) {
+  return (
+    <div className={`relative w-full h-full min-h-[12rem] ${className}`}>
+      {/* The felt */}
+      <div className="absolute inset-[14%] rounded-[50%] bg-green-700 dark:bg-green-900 border-4 border-amber-800 shadow-inner" />
+
+      {Array.from({ length: maxPlayers }, (_, index) => {
+        const seat = index + 1;
+        const player = players.find(p => p.seat === seat);
+
+        return (
+          <div
+            key={seat}
+            className="absolute -translate-x-1/2 -translate-y-1/2"
+            style={getSeatPosition(seat, maxPlayers)}
+          >
+            {player ? renderPlayer(player) : renderEmptySeat ? renderEmptySeat(seat) : (
+              <div className="px-2 py-1 rounded border border-dashed border-gray-400 text-xs text-gray-400 bg-white/70 dark:bg-gray-800/70">
+                Seat {seat}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+export default SeatOval;
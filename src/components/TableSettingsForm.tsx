@@ -0,0 +1,323 @@
+"use client";
+
+import React from 'react';
+import { GAME_VARIANTS } from '@/lib/gameVariants';
+import { getSeatLimit } from '@/lib/tableSettings';
+import { DEFAULT_TOURNAMENT_STRUCTURE } from '@/lib/tournament';
+import { AutoAdvanceTimers, BlindLevel, ButtonRule, GameVariantId, OddsOverlay, TableSettings } from '@/lib/types';
+
+interface TableSettingsFormProps {
+  settings: TableSettings;
+  onChange: (settings: TableSettings) => void;
+  disabled?: boolean;
+}
+
+const inputClass = 'px-2 py-1 rounded border dark:bg-gray-800 dark:border-gray-600';
+
+const AUTO_ADVANCE_FIELDS: { name: keyof AutoAdvanceTimers; label: string }[] = [
+  { name: 'dealSeconds', label: 'Deal' },
+  { name: 'streetSeconds', label: 'Next street' },
+  { name: 'showdownSeconds', label: 'Clear after the hand' },
+];
+
+// Read a number input, treating an empty box as 0 so validation can point it out
+function parseWholeNumber(value: string): number {
+  return parseInt(value, 10) || 0;
+}
+
+const TableSettingsForm: React.FC<TableSettingsFormProps> = ({ settings, onChange, disabled = false }) => {
+  const update = (changes: Partial<TableSettings>) => onChange({ ...settings, ...changes });
+  const seatLimit = getSeatLimit(settings.variant, settings.variantRotation);
+
+  // Switching games keeps the seat count within what the new games can deal to
+  const updateGames = (variant: GameVariantId, variantRotation: GameVariantId[]) => {
+    update({ variant, variantRotation, maxPlayers: Math.min(settings.maxPlayers, getSeatLimit(variant, variantRotation)) });
+  };
+
+  // An empty timer box turns that timer off
+  const updateTimer = (name: keyof AutoAdvanceTimers, value: string) => {
+    update({ autoAdvance: { ...settings.autoAdvance, [name]: value === '' ? null : parseWholeNumber(value) } });
+  };
+
+  // Edit one level of the tournament structure
+  const updateLevel = (index: number, changes: Partial<BlindLevel>) => {
+    if (settings.tournament) {
+      const levels = settings.tournament.levels.map((level, i) => (i === index ? { ...level, ...changes } : level));
+      update({ tournament: { ...settings.tournament, levels } });
+    }
+  };
+
+  // Add a level that doubles the blinds of the last one
+  const addLevel = () => {
+    if (settings.tournament) {
+      const { levels } = settings.tournament;
+      const last = [...levels].reverse().find(level => !level.isBreak);
+      const next: BlindLevel = last
+        ? { smallBlind: last.smallBlind * 2, bigBlind: last.bigBlind * 2, ante: last.ante * 2, minutes: last.minutes }
+        : DEFAULT_TOURNAMENT_STRUCTURE.levels[0];
+      update({ tournament: { ...settings.tournament, levels: [...levels, next] } });
+    }
+  };
+
+  const removeLevel = (index: number) => {
+    if (settings.tournament) {
+      update({ tournament: { ...settings.tournament, levels: settings.tournament.levels.filter((_, i) => i !== index) } });
+    }
+  };
+
+  return (
+    <fieldset disabled={disabled} className="space-y-3 text-sm">
+      <div className="flex flex-wrap items-center gap-3">
+        <label className="flex items-center space-x-1">
+          <span>Game</span>
+          <select
+            value={settings.variant}
+            onChange={e => updateGames(e.target.value as GameVariantId, settings.variantRotation)}
+            className={inputClass}
+          >
+            {Object.values(GAME_VARIANTS).map(gameVariant => (
+              <option key={gameVariant.id} value={gameVariant.id}>{gameVariant.name}</option>
+            ))}
+          </select>
+        </label>
+        {/* Rotate through every game, starting with the one selected */}
+        <label className="flex items-center space-x-2">
+          <input
+            type="checkbox"
+            checked={settings.variantRotation.length > 0}
+            onChange={e => updateGames(settings.variant, e.target.checked ? Object.keys(GAME_VARIANTS) as GameVariantId[] : [])}
+          />
+          <span>Rotate games every orbit</span>
+        </label>
+        <label className="flex items-center space-x-1">
+          <span>Seats</span>
+          <input
+            type="number"
+            min={2}
+            max={seatLimit}
+            value={settings.maxPlayers}
+            onChange={e => update({ maxPlayers: parseWholeNumber(e.target.value) })}
+            className={`w-16 ${inputClass}`}
+          />
+        </label>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <label className="flex items-center space-x-1">
+          <span>Jokers</span>
+          <select
+            value={settings.jokers}
+            onChange={e => update({ jokers: parseInt(e.target.value, 10) })}
+            className={inputClass}
+          >
+            <option value={0}>None</option>
+            <option value={1}>1</option>
+            <option value={2}>2</option>
+          </select>
+        </label>
+        <label className="flex items-center space-x-2">
+          <input
+            type="checkbox"
+            checked={settings.deucesWild}
+            onChange={e => update({ deucesWild: e.target.checked })}
+          />
+          <span>Deuces wild</span>
+        </label>
+        <label className="flex items-center space-x-2">
+          <input
+            type="checkbox"
+            checked={settings.burnCards}
+            onChange={e => update({ burnCards: e.target.checked })}
+          />
+          <span>Burn a card before each street</span>
+        </label>
+        <label className="flex items-center space-x-2">
+          <input
+            type="checkbox"
+            checked={settings.showHandsAtShowdown}
+            onChange={e => update({ showHandsAtShowdown: e.target.checked })}
+          />
+          <span>Show every hand at showdown (otherwise only the winners)</span>
+        </label>
+        <label className="flex items-center space-x-2">
+          <input
+            type="checkbox"
+            checked={settings.handStrengthHint}
+            onChange={e => update({ handStrengthHint: e.target.checked })}
+          />
+          <span>Players' phones can name their best hand</span>
+        </label>
+        <label className="flex items-center space-x-1">
+          <span>Odds on the display</span>
+          <select
+            value={settings.oddsOverlay}
+            onChange={e => update({ oddsOverlay: e.target.value as OddsOverlay })}
+            className={inputClass}
+          >
+            <option value="off">Off</option>
+            <option value="always">Every street</option>
+            <option value="all-in" disabled={!settings.bettingEnabled}>All-in showdowns only</option>
+          </select>
+        </label>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <label className="flex items-center space-x-2">
+          <input
+            type="checkbox"
+            checked={settings.bettingEnabled}
+            onChange={e => update({
+              bettingEnabled: e.target.checked,
+              tournament: e.target.checked ? settings.tournament : null,
+              // Without chips nobody goes all-in, so odds for all-in showdowns would never show
+              oddsOverlay: !e.target.checked && settings.oddsOverlay === 'all-in' ? 'off' : settings.oddsOverlay,
+            })}
+          />
+          <span>Track chips and betting</span>
+        </label>
+        {settings.bettingEnabled && (
+          <>
+            {/* A tournament's levels set the blinds, so the fixed blinds only show without one */}
+            {!settings.tournament && (
+              <>
+                <label className="flex items-center space-x-1">
+                  <span>Small blind</span>
+                  <input
+                    type="number"
+                    min={1}
+                    value={settings.smallBlind}
+                    onChange={e => update({ smallBlind: parseWholeNumber(e.target.value) })}
+                    className={`w-20 ${inputClass}`}
+                  />
+                </label>
+                <label className="flex items-center space-x-1">
+                  <span>Big blind</span>
+                  <input
+                    type="number"
+                    min={1}
+                    value={settings.bigBlind}
+                    onChange={e => update({ bigBlind: parseWholeNumber(e.target.value) })}
+                    className={`w-20 ${inputClass}`}
+                  />
+                </label>
+              </>
+            )}
+            <label className="flex items-center space-x-1">
+              <span>Starting stack</span>
+              <input
+                type="number"
+                min={1}
+                value={settings.tournament?.startingStack ?? settings.startingStack}
+                onChange={e => settings.tournament
+                  ? update({ tournament: { ...settings.tournament, startingStack: parseWholeNumber(e.target.value) } })
+                  : update({ startingStack: parseWholeNumber(e.target.value) })}
+                className={`w-24 ${inputClass}`}
+              />
+            </label>
+            <label className="flex items-center space-x-1">
+              <span>Button</span>
+              <select
+                value={settings.buttonRule}
+                onChange={e => update({ buttonRule: e.target.value as ButtonRule })}
+                className={inputClass}
+              >
+                <option value="moving">Moving button</option>
+                <option value="dead">Dead button</option>
+              </select>
+            </label>
+            <label className="flex items-center space-x-2">
+              <input
+                type="checkbox"
+                checked={settings.tournament !== null}
+                onChange={e => update({
+                  tournament: e.target.checked
+                    ? { ...DEFAULT_TOURNAMENT_STRUCTURE, startingStack: settings.startingStack }
+                    : null
+                })}
+              />
+              <span>Tournament blind levels</span>
+            </label>
+          </>
+        )}
+      </div>
+
+      {settings.tournament && (
+        <div className="space-y-1">
+          <span className="font-medium">Blind levels (new blinds start with the first hand after a level ends):</span>
+          {settings.tournament.levels.map((level, index) => (
+            <div key={index} className="flex flex-wrap items-center gap-2">
+              <span className="w-16">{level.isBreak ? 'Break' : `Level ${index + 1}`}</span>
+              {!level.isBreak && (
+                <>
+                  {(['smallBlind', 'bigBlind', 'ante'] as const).map(name => (
+                    <label key={name} className="flex items-center space-x-1">
+                      <span>{name === 'smallBlind' ? 'SB' : name === 'bigBlind' ? 'BB' : 'Ante'}</span>
+                      <input
+                        type="number"
+                        min={0}
+                        value={level[name]}
+                        onChange={e => updateLevel(index, { [name]: parseWholeNumber(e.target.value) })}
+                        className={`w-20 ${inputClass}`}
+                      />
+                    </label>
+                  ))}
+                </>
+              )}
+              <label className="flex items-center space-x-1">
+                <span>Minutes</span>
+                <input
+                  type="number"
+                  min={1}
+                  value={level.minutes}
+                  onChange={e => updateLevel(index, { minutes: parseWholeNumber(e.target.value) })}
+                  className={`w-16 ${inputClass}`}
+                />
+              </label>
+              <label className="flex items-center space-x-1">
+                <input
+                  type="checkbox"
+                  checked={level.isBreak === true}
+                  onChange={e => updateLevel(index, { isBreak: e.target.checked })}
+                />
+                <span>Break</span>
+              </label>
+              <button
+                type="button"
+                onClick={() => removeLevel(index)}
+                className="px-2 rounded bg-gray-200 dark:bg-gray-700 hover:bg-gray-300 dark:hover:bg-gray-600"
+              >
+                Remove
+              </button>
+            </div>
+          ))}
+          <button
+            type="button"
+            onClick={addLevel}
+            className="px-2 py-1 rounded bg-gray-200 dark:bg-gray-700 hover:bg-gray-300 dark:hover:bg-gray-600"
+          >
+            Add level
+          </button>
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-3">
+        <span className="font-medium">Auto-advance (seconds, blank for off):</span>
+        {AUTO_ADVANCE_FIELDS.map(({ name, label }) => (
+          <label key={name} className="flex items-center space-x-1">
+            <span>{label}</span>
+            <input
+              type="number"
+              min={1}
+              value={settings.autoAdvance[name] ?? ''}
+              placeholder="off"
+              onChange={e => updateTimer(name, e.target.value)}
+              className={`w-16 ${inputClass}`}
+            />
+          </label>
+        ))}
+      </div>
+    </fieldset>
+  );
+};
+
+export default TableSettingsForm;
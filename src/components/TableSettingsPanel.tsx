@@ -0,0 +1,91 @@
+"use client";
+
+import React, { useState } from 'react';
+import TableSettingsForm from '@/components/TableSettingsForm';
+import { validateTableSettings } from '@/lib/tableSettings';
+import { AdminTableView, TableSettings } from '@/lib/types';
+
+interface TableSettingsPanelProps {
+  tableGuid: string;
+  settings: TableSettings;
+  canSave: boolean; // Settings only change between hands
+  onSaved: (table: AdminTableView) => void;
+  onClose: () => void;
+}
+
+const TableSettingsPanel: React.FC<TableSettingsPanelProps> = ({ tableGuid, settings, canSave, onSaved, onClose }) => {
+  const [draft, setDraft] = useState<TableSettings>(settings);
+  const [isSaving, setIsSaving] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const validationError = validateTableSettings(draft);
+
+  const handleSave = async () => {
+    try {
+      setIsSaving(true);
+      setError(null);
+
+      const response = await fetch(`/api/tables/${tableGuid}/settings`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(draft),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save settings');
+      }
+
+      onSaved(data.table);
+      onClose();
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50" onClick={onClose}>
+      <div
+        className="card p-4 w-full max-w-2xl max-h-[80vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-3">
+          <h2 className="text-xl font-semibold">Table Settings</h2>
+          <button
+            onClick={onClose}
+            className="text-sm px-2 py-1 rounded bg-gray-200 dark:bg-gray-700 hover:bg-gray-300 dark:hover:bg-gray-600 dark:text-gray-200"
+          >
+            Close
+          </button>
+        </div>
+
+        <div className="overflow-y-auto flex-1">
+          {!canSave && (
+            <p className="mb-3 text-sm text-amber-600">Settings can be changed once this hand is over</p>
+          )}
+          <TableSettingsForm settings={draft} onChange={setDraft} disabled={!canSave || isSaving} />
+          <p className="mt-3 text-sm text-gray-500">
+            A new starting stack applies to players who sit down after the change
+          </p>
+          {(validationError || error) && (
+            <p className="mt-2 text-sm text-red-600">{validationError ?? error}</p>
+          )}
+        </div>
+
+        <div className="flex justify-end mt-3">
+          <button
+            onClick={handleSave}
+            disabled={!canSave || isSaving || validationError !== null}
+            className="btn"
+          >
+            {isSaving ? 'Saving...' : 'Save'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TableSettingsPanel;
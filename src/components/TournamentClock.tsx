@@ -0,0 +1,108 @@
+"use client";
+
+import React, { useEffect, useState } from 'react';
+import { getBlindLevel, getClockPosition, getLevelRemainingMs, getNextBlindLevel } from '@/lib/tournament';
+import { AdminTableView, BlindLevel, TournamentView } from '@/lib/types';
+
+interface TournamentClockProps {
+  tableGuid: string;
+  tournament: TournamentView;
+  onUpdated: (table: AdminTableView) => void;
+}
+
+// Format a time as "12:05"
+function formatRemaining(ms: number): string {
+  const totalSeconds = Math.ceil(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+}
+
+// Describe a level's blinds (e.g., "100/200, ante 25")
+function formatBlinds(level: BlindLevel): string {
+  return `${level.smallBlind}/${level.bigBlind}${level.ante > 0 ? `, ante ${level.ante}` : ''}`;
+}
+
+const TournamentClock: React.FC<TournamentClockProps> = ({ tableGuid, tournament, onUpdated }) => {
+  const [receivedAt, setReceivedAt] = useState<number>(() => Date.now());
+  const [now, setNow] = useState<number>(() => Date.now());
+  const [error, setError] = useState<string | null>(null);
+
+  // The view holds the clock as of when it was sent, so count on from when it arrived
+  useEffect(() => {
+    setReceivedAt(Date.now());
+  }, [tournament]);
+
+  useEffect(() => {
+    if (!tournament.isRunning) {
+      return;
+    }
+
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [tournament.isRunning]);
+
+  const running = tournament.isRunning ? Math.max(now - receivedAt, 0) : 0;
+  const { levelIndex, elapsedMs } = getClockPosition(
+    tournament.levels,
+    tournament.levelIndex,
+    tournament.levelElapsedMs + running
+  );
+  const level = tournament.levels[levelIndex];
+  const remainingMs = getLevelRemainingMs(tournament.levels, levelIndex, elapsedMs);
+  const nextLevel = getNextBlindLevel(tournament.levels, levelIndex);
+  const blindsLevel = getBlindLevel(tournament.levels, levelIndex);
+  const blindsPending = blindsLevel !== getBlindLevel(tournament.levels, tournament.blindsLevelIndex);
+
+  const toggleClock = async () => {
+    try {
+      setError(null);
+
+      const response = await fetch(`/api/tables/${tableGuid}/clock`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ running: !tournament.isRunning }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update the clock');
+      }
+
+      onUpdated(data.table);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  return (
+    <div className="mb-2 p-2 rounded border dark:border-gray-600">
+      <div className="flex items-center justify-between">
+        <strong>{level.isBreak ? 'Break' : `Level ${levelIndex + 1}`}</strong>
+        <button
+          onClick={toggleClock}
+          className="text-sm px-2 py-0.5 rounded bg-gray-200 dark:bg-gray-700 hover:bg-gray-300 dark:hover:bg-gray-600 dark:text-gray-200"
+        >
+          {tournament.isRunning ? 'Pause' : 'Start'}
+        </button>
+      </div>
+      <div className="text-3xl font-mono">
+        {remainingMs === null ? 'Final level' : formatRemaining(remainingMs)}
+        {!tournament.isRunning && <span className="ml-2 text-base text-amber-600">Paused</span>}
+      </div>
+      {blindsLevel && !level.isBreak && (
+        <div className="text-sm"><strong>Level blinds:</strong> {formatBlinds(blindsLevel)}</div>
+      )}
+      {nextLevel && (
+        <div className="text-sm text-gray-500"><strong>Next:</strong> {formatBlinds(nextLevel)}</div>
+      )}
+      {blindsPending && (
+        <div className="text-sm text-amber-600">New blinds start next hand</div>
+      )}
+      {error && <div className="text-sm text-red-600">{error}</div>}
+    </div>
+  );
+};
+
+export default TournamentClock;
@@ -0,0 +1,394 @@
+import { Table, Player, BettingAction } from './types';
+import { getTableVariant, getCardsKept } from './gameVariants';
+import { getPlayerInSeat, getPlayersClockwiseFrom } from './seats';
+import { TableRuleError } from './tableErrors';
+
+// A player is still contesting the pot if they were dealt in and haven't folded
+export function isInHand(player: Player): boolean {
+  return player.pocketCards.length > 0 && !player.hasFolded;
+}
+
+// A player can still make decisions if they're in the hand and have chips behind
+function canAct(player: Player): boolean {
+  return isInHand(player) && player.stack > 0;
+}
+
+// Get every player still contesting the pot
+export function getLivePlayers(table: Table): Player[] {
+  return table.players.filter(isInHand);
+}
+
+// Get the players still in the hand who hold more pocket cards than the variant lets them keep
+export function getPendingDiscards(table: Table): Player[] {
+  const cardsKept = getCardsKept(getTableVariant(table));
+  return getLivePlayers(table).filter(player => player.pocketCards.length > cardsKept);
+}
+
+// Everyone but one player has folded, so the hand is won without dealing the rest of the board
+export function isHandDecided(table: Table): boolean {
+  return table.players.some(player => player.hasFolded) && getLivePlayers(table).length === 1;
+}
+
+// Everyone still in is all-in, or all but one who has nobody left to bet against, so the board is just dealt out
+export function isAllInShowdown(table: Table): boolean {
+  const livePlayers = getLivePlayers(table);
+
+  return table.bettingEnabled === true &&
+    table.actionSeat === null &&
+    livePlayers.length >= 2 &&
+    livePlayers.filter(canAct).length <= 1;
+}
+
+// Move chips from a player's stack into the pot
+function commitChips(table: Table, player: Player, amount: number): void {
+  const chips = Math.min(amount, player.stack);
+  player.stack -= chips;
+  player.currentBet += chips;
+  player.totalBet += chips;
+  table.pot += chips;
+}
+
+// Put chips in the pot that don't count towards the player's bet (an ante or a dead small blind)
+function postDeadChips(table: Table, player: Player, amount: number): void {
+  const chips = Math.min(amount, player.stack);
+  player.stack -= chips;
+  player.totalBet += chips;
+  table.pot += chips;
+}
+
+// Clear all per-hand betting state on the table and its players
+export function resetBettingState(table: Table): void {
+  for (const player of table.players) {
+    player.currentBet = 0;
+    player.totalBet = 0;
+    player.hasFolded = false;
+    player.hasActed = false;
+  }
+
+  table.pot = 0;
+  table.currentBet = 0;
+  table.minRaise = table.bigBlind;
+  table.actionSeat = null;
+}
+
+// Find the seat of the next player who still needs to act, searching clockwise from a seat
+function findNextToAct(table: Table, fromSeat: number | null): number | null {
+  const actors = table.players.filter(canAct);
+
+  for (const player of getPlayersClockwiseFrom(table, fromSeat)) {
+    if (!canAct(player)) {
+      continue;
+    }
+
+    const facingBet = player.currentBet < table.currentBet;
+
+    // With nobody left to bet against, there's nothing to decide unless facing a bet
+    if (actors.length < 2 && !facingBet) {
+      return null;
+    }
+
+    if (!player.hasActed || facingBet) {
+      return player.seat;
+    }
+  }
+
+  return null;
+}
+
+// Post the blinds and open the pre-flop betting round
+export function postBlinds(table: Table): void {
+  const smallBlindPlayer = getPlayerInSeat(table, table.smallBlindSeat);
+  const bigBlindPlayer = getPlayerInSeat(table, table.bigBlindSeat);
+
+  if (getLivePlayers(table).length >= 2) {
+    // Antes go in dead before the blinds, from everyone dealt in
+    const ante = table.ante ?? 0;
+    if (ante > 0) {
+      for (const player of getLivePlayers(table)) {
+        postDeadChips(table, player, ante);
+      }
+    }
+
+    if (smallBlindPlayer && isInHand(smallBlindPlayer)) {
+      commitChips(table, smallBlindPlayer, table.smallBlind);
+    }
+    if (bigBlindPlayer && isInHand(bigBlindPlayer)) {
+      commitChips(table, bigBlindPlayer, table.bigBlind);
+    }
+
+    // Players back from sitting out post the blinds they missed: the big blind live, the small blind dead
+    // A player who comes back in one of the blinds just posts that blind
+    for (const player of table.players) {
+      if (!player.missedBlinds || !isInHand(player)) {
+        continue;
+      }
+      if (player !== smallBlindPlayer && player !== bigBlindPlayer) {
+        if (player.missedBlinds.big) {
+          commitChips(table, player, table.bigBlind);
+        }
+        if (player.missedBlinds.small) {
+          postDeadChips(table, player, table.smallBlind);
+        }
+      }
+      delete player.missedBlinds;
+    }
+  }
+
+  table.currentBet = table.bigBlind;
+  table.minRaise = table.bigBlind;
+
+  // Action starts left of the big blind (in heads-up that's the button/small blind)
+  table.actionSeat = getLivePlayers(table).length >= 2
+    ? findNextToAct(table, table.bigBlindSeat)
+    : null;
+}
+
+// Open a post-flop betting round
+export function startBettingRound(table: Table): void {
+  for (const player of table.players) {
+    player.currentBet = 0;
+    player.hasActed = false;
+  }
+
+  table.currentBet = 0;
+  table.minRaise = table.bigBlind;
+
+  // Post-flop action starts left of the button
+  table.actionSeat = getLivePlayers(table).length >= 2
+    ? findNextToAct(table, table.dealerSeat)
+    : null;
+}
+
+// Get the chips a player needs to put in to call
+export function getAmountToCall(table: Table, player: Player): number {
+  return Math.min(Math.max(table.currentBet - player.currentBet, 0), player.stack);
+}
+
+// Get the smallest legal total for a bet or raise
+export function getMinRaiseTo(table: Table): number {
+  return table.currentBet === 0 ? table.bigBlind : table.currentBet + table.minRaise;
+}
+
+// Whether a player may bet or raise: not after a short all-in that left them facing less than a full raise
+// A full raise clears hasActed for everyone it reopens the action to, so a player who has acted can only call or fold
+export function canRaise(table: Table, player: Player): boolean {
+  return !player.hasActed && player.stack > getAmountToCall(table, player);
+}
+
+// Get the largest legal total for a bet or raise: all-in, or a pot-sized raise in pot-limit games
+export function getMaxRaiseTo(table: Table, player: Player): number {
+  const allIn = player.currentBet + player.stack;
+
+  if (!getTableVariant(table).potLimit) {
+    return allIn;
+  }
+
+  // A pot-sized raise is a call followed by a raise of the whole pot, including the call
+  const toCall = Math.max(table.currentBet - player.currentBet, 0);
+  return Math.min(table.currentBet + table.pot + toCall, allIn);
+}
+
+// Move the action on after a player acts, awarding the pot if everyone else folded
+function passAction(table: Table, fromSeat: number): void {
+  const livePlayers = getLivePlayers(table);
+
+  if (livePlayers.length === 1) {
+    // Everyone else folded: the last player takes the pot uncontested
+    livePlayers[0].stack += table.pot;
+    table.pot = 0;
+    table.actionSeat = null;
+    return;
+  }
+
+  table.actionSeat = findNextToAct(table, fromSeat);
+}
+
+// Fold a player's hand, whether they chose to or are leaving the table mid-hand
+// The cards go into the muck: out of the player's hand, but kept for the hand history
+export function foldPlayer(table: Table, playerGuid: string): void {
+  const player = table.players.find(p => p.playerGuid === playerGuid);
+
+  if (!player || !isInHand(player)) {
+    return;
+  }
+
+  player.hasFolded = true;
+  player.hasActed = true;
+  player.muckedCards = player.pocketCards;
+  player.pocketCards = [];
+
+  if (table.actionSeat === player.seat || getLivePlayers(table).length === 1) {
+    passAction(table, player.seat);
+  }
+}
+
+// Apply a betting decision from the player whose turn it is
+// For 'bet' and 'raise', amount is the total the player's bet is raised to this round
+export function applyBettingAction(
+  table: Table,
+  playerGuid: string,
+  action: BettingAction,
+  amount?: number
+): void {
+  if (!table.bettingEnabled) {
+    throw new TableRuleError('Betting is not enabled at this table');
+  }
+
+  const player = table.players.find(p => p.playerGuid === playerGuid);
+
+  if (!player) {
+    throw new TableRuleError(`Player with guid ${playerGuid} not found at table ${table.tableGuid}`);
+  }
+
+  if (table.actionSeat !== player.seat) {
+    throw new TableRuleError('It is not your turn to act');
+  }
+  const toCall = getAmountToCall(table, player);
+
+  switch (action) {
+    case 'fold':
+      foldPlayer(table, playerGuid);
+      return;
+
+    case 'check':
+      if (toCall > 0) {
+        throw new TableRuleError(`Cannot check, ${toCall} to call`);
+      }
+      break;
+
+    case 'call':
+      if (toCall === 0) {
+        throw new TableRuleError('Nothing to call, check instead');
+      }
+      commitChips(table, player, toCall);
+      break;
+
+    case 'bet':
+    case 'raise': {
+      if (action === 'bet' && table.currentBet > 0) {
+        throw new TableRuleError('There is already a bet, raise instead');
+      }
+      if (action === 'raise' && table.currentBet === 0) {
+        throw new TableRuleError('There is no bet to raise, bet instead');
+      }
+      if (player.hasActed) {
+        throw new TableRuleError('The all-in was less than a full raise, so you can only call or fold');
+      }
+      if (amount === undefined || !Number.isInteger(amount) || amount <= 0) {
+        throw new TableRuleError('A whole number amount is required');
+      }
+
+      const maxTotal = player.currentBet + player.stack;
+      const isAllIn = amount === maxTotal;
+      const maxRaiseTo = getMaxRaiseTo(table, player);
+
+      if (amount > maxTotal) {
+        throw new TableRuleError(`Cannot ${action} more than your stack (${maxTotal} total)`);
+      }
+      if (amount > maxRaiseTo) {
+        throw new TableRuleError(`Maximum ${action} is ${maxRaiseTo} (pot limit)`);
+      }
+      if (amount <= table.currentBet) {
+        throw new TableRuleError(`Amount must be more than the current bet of ${table.currentBet}`);
+      }
+      if (amount < getMinRaiseTo(table) && !isAllIn) {
+        throw new TableRuleError(`Minimum ${action} is ${getMinRaiseTo(table)}`);
+      }
+
+      const raiseBy = amount - table.currentBet;
+      commitChips(table, player, amount - player.currentBet);
+
+      // Only a full raise sets the new minimum
+      if (raiseBy >= table.minRaise) {
+        table.minRaise = raiseBy;
+      }
+
+      // The action reopens for players now facing at least a full raise over what they last put in,
+      // so a short all-in doesn't reopen it until short all-ins add up to a full raise
+      for (const other of table.players) {
+        if (other !== player && amount - other.currentBet >= table.minRaise) {
+          other.hasActed = false;
+        }
+      }
+      table.currentBet = amount;
+      break;
+    }
+
+    default:
+      throw new TableRuleError(`Unknown betting action ${action}`);
+  }
+
+  player.hasActed = true;
+  passAction(table, player.seat);
+}
+
+// Split the pot between players still in the hand, building side pots from each player's total bet
+// ranks maps each live player's guid to their showdown rank (1 is best)
+export function distributePot(table: Table, ranks: Map<string, number>): Map<string, number> {
+  const winnings = new Map<string, number>();
+
+  // Seat order starting left of the button, used to hand out odd chips
+  const seatOrder = getPlayersClockwiseFrom(table, table.dealerSeat);
+
+  const levels = Array.from(new Set(table.players.map(p => p.totalBet).filter(bet => bet > 0)))
+    .sort((a, b) => a - b);
+
+  // Share a pot between the best hands among the players eligible for it, odd chips going first left of the button
+  const awardPot = (potSize: number, eligible: Player[]) => {
+    const bestRank = Math.min(...eligible.map(p => ranks.get(p.playerGuid)!));
+    const winners = eligible.filter(p => ranks.get(p.playerGuid) === bestRank);
+    const share = Math.floor(potSize / winners.length);
+    let oddChips = potSize - share * winners.length;
+
+    for (const winner of winners) {
+      const amount = share + (oddChips > 0 ? 1 : 0);
+      oddChips = Math.max(oddChips - 1, 0);
+      winner.stack += amount;
+      winnings.set(winner.playerGuid, (winnings.get(winner.playerGuid) || 0) + amount);
+    }
+  };
+
+  let previousLevel = 0;
+  let carriedChips = 0;
+  let lastEligible: Player[] = [];
+
+  for (const level of levels) {
+    let potSize = carriedChips;
+    for (const player of table.players) {
+      potSize += Math.max(Math.min(player.totalBet, level) - previousLevel, 0);
+    }
+    previousLevel = level;
+
+    const eligible = seatOrder.filter(p => isInHand(p) && p.totalBet >= level && ranks.has(p.playerGuid));
+
+    // Nobody still in the hand contributed this much; roll the chips into the next pot
+    if (eligible.length === 0) {
+      carriedChips = potSize;
+      continue;
+    }
+    carriedChips = 0;
+    lastEligible = eligible;
+
+    awardPot(potSize, eligible);
+  }
+
+  // Chips bet above every live player (by players who folded or left afterwards) are dead money for the last pot
+  if (carriedChips > 0 && lastEligible.length > 0) {
+    awardPot(carriedChips, lastEligible);
+  }
+
+  table.pot = 0;
+
+  return winnings;
+}
+
+// Give every player back what they put in, for hands that end without a result
+export function refundBets(table: Table): void {
+  for (const player of table.players) {
+    player.stack += player.totalBet;
+    player.totalBet = 0;
+    player.currentBet = 0;
+  }
+
+  table.pot = 0;
+}
@@ -0,0 +1,31 @@
+import { Card } from './types';
+
+// Image file numbers for the face cards and ace
+const RANK_IMAGE_NUMBERS: Record<string, string> = {
+  'A': '1',
+  'J': '11',
+  'Q': '12',
+  'K': '13'
+};
+
+// Get the image file path for a card (e.g., "/cards/Hearts-12.png"), including the joker and wild deuce art
+export function getCardImagePath(card: Card): string {
+  if (card.rank === 'Joker') {
+    return '/cards/Joker.png';
+  }
+  
+  const suitCapitalized = card.suit.charAt(0).toUpperCase() + card.suit.slice(1);
+  const rankValue = RANK_IMAGE_NUMBERS[card.rank] || card.rank;
+  const wildSuffix = card.isWild && card.rank === '2' ? '-Wild' : '';
+  
+  return `/cards/${suitCapitalized}-${rankValue}${wildSuffix}.png`;
+}
+
+// Describe a card for alt text (e.g., "Q of hearts", "Joker", "2 of clubs (wild)")
+export function getCardLabel(card: Card): string {
+  if (card.rank === 'Joker') {
+    return 'Joker';
+  }
+  
+  return `${card.rank} of ${card.suit}${card.isWild ? ' (wild)' : ''}`;
+}
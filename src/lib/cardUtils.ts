@@ -1,8 +1,9 @@
-import { Card } from './types';
+import { Card, DeckOptions } from './types';
 import crypto from 'crypto';
 
-// Create a standard 52-card deck
-export function createDeck(): Card[] {
+// Create a standard 52-card deck, plus any jokers, marking the wild cards
+export function createDeck(options: DeckOptions = {}): Card[] {
+  const { jokers = 0, deucesWild = false } = options;
   const suits = ['hearts', 'diamonds', 'clubs', 'spades'];
   const ranks = ['2', '3', '4', '5', '6', '7', '8', '9', '10', 'J', 'Q', 'K', 'A'];
   
@@ -18,10 +19,21 @@ export function createDeck(): Card[] {
         rank,
         suit,
         code: `${rankCode}${suitCode}`,
+        ...(deucesWild && rank === '2' && { isWild: true }),
       });
     }
   }
   
+  // Jokers get codes that can't be mistaken for a rank (e.g., "X1")
+  for (let i = 1; i <= jokers; i++) {
+    deck.push({
+      rank: 'Joker',
+      suit: 'joker',
+      code: `X${i}`,
+      isWild: true,
+    });
+  }
+  
   return deck;
 }
 
@@ -0,0 +1,233 @@
+import { Card, GameVariant, Table } from './types';
+import { EvaluatedHand, compareHands, getWildEvaluationCost } from './handEvaluator';
+import { evaluatePlayerHand, getTableVariant, getCardsKept } from './gameVariants';
+import { getLivePlayers, isAllInShowdown } from './betting';
+
+// Random run-outs dealt when there are too many boards to go through them all (before the turn)
+// Big tables and Omaha hands take longer to evaluate, so they get fewer, down to the minimum
+export const MAX_MONTE_CARLO_RUNOUTS = 1000;
+export const MIN_MONTE_CARLO_RUNOUTS = 200;
+
+// Five-card hands evaluated per street before run-outs are cut back, about a quarter of a second's work
+// Each rank tried for a wild card counts as a hand of its own
+const EVALUATION_BUDGET = 60000;
+
+// Odds worked out for recent streets, so every refresh of the display doesn't deal the run-outs again
+const MAX_CACHED_ODDS = 50;
+
+// A hand still contesting the pot
+export type EquityHand = {
+  playerGuid: string;
+  pocketCards: Card[];
+};
+
+// A hand's share of the pot over the run-outs dealt
+export type HandEquity = {
+  playerGuid: string;
+  equity: number; // Fraction of the pot won on average, ties counting as a share
+  tieRate: number; // Fraction of run-outs that split the pot
+};
+
+export type EquityResult = {
+  method: 'exact' | 'monte-carlo';
+  runouts: number;
+  hands: HandEquity[];
+};
+
+// Odds for a table's current street: every live hand's equity, and its outs once the hands are tabled
+export type TableEquity = EquityResult & {
+  isTabled: boolean;
+  outs: Record<string, Card[]>; // By player guid; empty until the hands are tabled
+};
+
+// Odds shared across route bundles in the same server process, keyed by table, hand, board and hands still in
+const globalForOdds = globalThis as unknown as { tableOdds?: Map<string, TableEquity> };
+const tableOdds = globalForOdds.tableOdds ?? new Map<string, TableEquity>();
+globalForOdds.tableOdds = tableOdds;
+
+// Find the guids of the hands that win a finished board (more than one for a split pot)
+function findWinners(variant: GameVariant, hands: EquityHand[], board: Card[]): string[] {
+  let best: EvaluatedHand | null = null;
+  let winners: string[] = [];
+
+  for (const hand of hands) {
+    const made = evaluatePlayerHand(variant, hand.pocketCards, board);
+    const comparison = best ? compareHands(made, best) : 1;
+
+    if (comparison > 0) {
+      best = made;
+      winners = [hand.playerGuid];
+    } else if (comparison === 0) {
+      winners.push(hand.playerGuid);
+    }
+  }
+
+  return winners;
+}
+
+// Count the ways to choose k of n items
+function choose(n: number, k: number): number {
+  let ways = 1;
+
+  for (let i = 0; i < k; i++) {
+    ways = (ways * (n - i)) / (i + 1);
+  }
+
+  return ways;
+}
+
+// Count the wild cards among some cards
+function countWilds(cards: Card[]): number {
+  return cards.filter(card => card.isWild).length;
+}
+
+// Work out how many random run-outs fit in the evaluation budget
+// Five cards holding wild cards are evaluated once for each rank the wilds could be, so wild cards in play cost more
+function getMonteCarloRunouts(
+  variant: GameVariant,
+  hands: EquityHand[],
+  board: Card[],
+  unseen: Card[],
+  cardsToCome: number
+): number {
+  // Wild cards already on the board, plus those the rest of the board is expected to bring
+  const boardWilds = countWilds(board) + Math.round((cardsToCome * countWilds(unseen)) / unseen.length);
+  const handsPerPlayer = hands.map(({ pocketCards }) => {
+    const fiveCardHands = variant.holeCardsUsed !== undefined
+      ? choose(pocketCards.length, variant.holeCardsUsed) * choose(5, 5 - variant.holeCardsUsed)
+      : choose(pocketCards.length + 5, 5);
+    return fiveCardHands * getWildEvaluationCost(countWilds(pocketCards) + boardWilds);
+  });
+  const perRunout = handsPerPlayer.reduce((total, count) => total + count, 0);
+
+  return Math.min(MAX_MONTE_CARLO_RUNOUTS, Math.max(MIN_MONTE_CARLO_RUNOUTS, Math.floor(EVALUATION_BUDGET / perRunout)));
+}
+
+// Deal `count` random cards from the unseen ones, leaving the array itself in a shuffled order
+function dealRandom(unseen: Card[], count: number): Card[] {
+  for (let i = 0; i < count; i++) {
+    const j = i + Math.floor(Math.random() * (unseen.length - i));
+    [unseen[i], unseen[j]] = [unseen[j], unseen[i]];
+  }
+
+  return unseen.slice(0, count);
+}
+
+// Work out each hand's equity: exactly when one card or none is still to come (turn and river),
+// from random run-outs when more are (pre-flop and flop)
+export function calculateEquity(
+  variant: GameVariant,
+  hands: EquityHand[],
+  board: Card[],
+  unseen: Card[],
+  cardsToCome: number
+): EquityResult {
+  if (cardsToCome > unseen.length) {
+    throw new Error(`Not enough unseen cards to deal ${cardsToCome} more to the board`);
+  }
+
+  const isExact = cardsToCome <= 1;
+  const remaining = [...unseen];
+  const runouts = isExact ? (cardsToCome === 0 ? 1 : remaining.length) : getMonteCarloRunouts(variant, hands, board, unseen, cardsToCome);
+  const shares = new Map<string, number>(hands.map(hand => [hand.playerGuid, 0]));
+  const ties = new Map<string, number>(hands.map(hand => [hand.playerGuid, 0]));
+
+  for (let i = 0; i < runouts; i++) {
+    const runout = isExact
+      ? remaining.slice(i, i + cardsToCome)
+      : dealRandom(remaining, cardsToCome);
+    const winners = findWinners(variant, hands, [...board, ...runout]);
+
+    for (const guid of winners) {
+      shares.set(guid, shares.get(guid)! + 1 / winners.length);
+      if (winners.length > 1) {
+        ties.set(guid, ties.get(guid)! + 1);
+      }
+    }
+  }
+
+  return {
+    method: isExact ? 'exact' : 'monte-carlo',
+    runouts,
+    hands: hands.map(hand => ({
+      playerGuid: hand.playerGuid,
+      equity: shares.get(hand.playerGuid)! / runouts,
+      tieRate: ties.get(hand.playerGuid)! / runouts,
+    })),
+  };
+}
+
+// Find each hand's outs: unseen cards that, dealt next, put it ahead of every other hand when it isn't already
+// The board needs at least the flop, since pre-flop there's no hand yet to be behind with
+export function findOuts(variant: GameVariant, hands: EquityHand[], board: Card[], unseen: Card[]): Record<string, Card[]> {
+  const outs: Record<string, Card[]> = Object.fromEntries(hands.map(hand => [hand.playerGuid, []]));
+
+  if (board.length < 3) {
+    return outs;
+  }
+
+  const leaders = findWinners(variant, hands, board);
+
+  for (const card of unseen) {
+    const winners = findWinners(variant, hands, [...board, card]);
+
+    if (winners.length === 1 && !leaders.includes(winners[0])) {
+      outs[winners[0]].push(card);
+    }
+  }
+
+  return outs;
+}
+
+// Whether the table's overlay is on at this point of the hand
+function isOddsShown(table: Table): boolean {
+  const overlay = table.oddsOverlay ?? 'off';
+
+  return overlay === 'always' || (overlay === 'all-in' && isAllInShowdown(table));
+}
+
+// Get the odds for the table's current street, or null when the overlay is off or there's nothing to work out
+// Cards the audience hasn't seen (the deck and any burned cards) are the ones still to come; folded hands are dead
+export function getTableEquity(table: Table): TableEquity | null {
+  const variant = getTableVariant(table);
+  const livePlayers = getLivePlayers(table);
+
+  // Nothing to work out between hands, at showdown, or while Pineapple players still hold their discard
+  if (table.gamePhase === 'Waiting' || table.gamePhase === 'Showdown' || livePlayers.length < 2 ||
+    livePlayers.some(player => player.pocketCards.length > getCardsKept(variant)) || !isOddsShown(table)) {
+    return null;
+  }
+
+  const isTabled = isAllInShowdown(table);
+  const key = [
+    table.tableGuid,
+    table.handNumber,
+    table.communityCards.map(card => card.code).join(''),
+    livePlayers.map(player => player.playerGuid).join(','),
+    isTabled,
+  ].join(':');
+
+  const cached = tableOdds.get(key);
+  if (cached) {
+    return cached;
+  }
+
+  const hands = livePlayers.map(player => ({ playerGuid: player.playerGuid, pocketCards: player.pocketCards }));
+  const board = table.communityCards;
+  const unseen = [...table.deck, ...(table.burnedCards ?? [])];
+  const boardSize = variant.boardStreets.reduce((total, street) => total + street.cards, 0);
+
+  const odds: TableEquity = {
+    ...calculateEquity(variant, hands, board, unseen, boardSize - board.length),
+    isTabled,
+    outs: isTabled && board.length < boardSize ? findOuts(variant, hands, board, unseen) : {},
+  };
+
+  // Forget the oldest odds once enough tables and streets have been worked out
+  tableOdds.set(key, odds);
+  if (tableOdds.size > MAX_CACHED_ODDS) {
+    tableOdds.delete(tableOdds.keys().next().value!);
+  }
+
+  return odds;
+}
@@ -0,0 +1,82 @@
+import { NextRequest } from 'next/server';
+import { onTableChange } from './tableEvents';
+
+// How often to re-send the snapshot when nothing changes, so idle connections aren't dropped
+// and clients' "last updated" indicators stay fresh (they turn red after 12 seconds)
+const HEARTBEAT_INTERVAL = 10000;
+
+/**
+ * Create a Server-Sent Events response that pushes a fresh snapshot whenever a relevant table changes.
+ * getSnapshot returns the payload to send, or null once the subject is gone (the stream then closes).
+ * isRelevant decides whether a change to the given table affects this stream.
+ */
+export function createEventStream(
+  request: NextRequest,
+  getSnapshot: () => object | null,
+  isRelevant: (tableGuid: string) => boolean
+): Response {
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream({
+    start(controller) {
+      let closed = false;
+
+      const close = () => {
+        if (closed) return;
+        closed = true;
+        cleanup();
+        try {
+          controller.close();
+        } catch {
+          // Already closed by the client
+        }
+      };
+
+      const send = () => {
+        if (closed) return;
+        try {
+          const snapshot = getSnapshot();
+          if (snapshot === null) {
+            controller.enqueue(encoder.encode('event: gone\ndata: {}\n\n'));
+            close();
+            return;
+          }
+          controller.enqueue(encoder.encode(`data: ${JSON.stringify(snapshot)}\n\n`));
+        } catch (error) {
+          console.error('[Stream] Error sending snapshot:', error);
+        }
+      };
+
+      const unsubscribe = onTableChange(tableGuid => {
+        if (isRelevant(tableGuid)) {
+          send();
+        }
+      });
+
+      const heartbeat = setInterval(send, HEARTBEAT_INTERVAL);
+
+      cleanup = () => {
+        unsubscribe();
+        clearInterval(heartbeat);
+      };
+
+      request.signal.addEventListener('abort', close);
+
+      // Send the current state straight away
+      send();
+    },
+    cancel() {
+      cleanup();
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    }
+  });
+}
@@ -0,0 +1,192 @@
+import fs from 'fs';
+import path from 'path';
+import { Table, HandHistoryEntry, MultiTableTournament, PlayerProfile } from './types';
+import type { TableStore } from './tableStore';
+
+const DEFAULT_TABLES_DIR = path.join(process.cwd(), 'tables');
+
+// Profile ids come from cookies and URLs, so only UUIDs are ever turned into file names
+const PROFILE_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+// Stores each table as a JSON file named after its guid, and its hand history as a JSON Lines file
+// Multi-table tournaments and player profiles get a JSON file each in their own directories
+export class FileTableStore implements TableStore {
+  private readonly tablesDir: string;
+  private readonly historyDir: string;
+  private readonly tournamentsDir: string;
+  private readonly profilesDir: string;
+
+  constructor(tablesDir: string = DEFAULT_TABLES_DIR) {
+    this.tablesDir = tablesDir;
+    this.historyDir = path.join(tablesDir, 'history');
+    this.tournamentsDir = path.join(tablesDir, 'tournaments');
+    this.profilesDir = path.join(tablesDir, 'profiles');
+
+    // Ensure tables, history, tournament and profile directories exist
+    for (const dir of [this.historyDir, this.tournamentsDir, this.profilesDir]) {
+      if (!fs.existsSync(dir)) {
+        fs.mkdirSync(dir, { recursive: true });
+      }
+    }
+  }
+
+  private filePath(tableGuid: string): string {
+    return path.join(this.tablesDir, `${tableGuid}.json`);
+  }
+
+  private historyPath(tableGuid: string): string {
+    return path.join(this.historyDir, `${tableGuid}.jsonl`);
+  }
+
+  private tournamentPath(tournamentGuid: string): string {
+    return path.join(this.tournamentsDir, `${tournamentGuid}.json`);
+  }
+
+  private profilePath(profileId: string): string {
+    if (!PROFILE_ID_PATTERN.test(profileId)) {
+      throw new Error(`Invalid profile id ${profileId}`);
+    }
+
+    return path.join(this.profilesDir, `${profileId}.json`);
+  }
+
+  // Write to a temp file and rename it into place so readers never see a half-written file
+  private writeAtomically(filePath: string, data: object): void {
+    const tempPath = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+    try {
+      fs.writeFileSync(tempPath, JSON.stringify(data, null, 2));
+      fs.renameSync(tempPath, filePath);
+    } catch (error) {
+      if (fs.existsSync(tempPath)) {
+        fs.unlinkSync(tempPath);
+      }
+      throw error;
+    }
+  }
+
+  getAll(): Table[] {
+    if (!fs.existsSync(this.tablesDir)) {
+      return [];
+    }
+
+    const tableFiles = fs.readdirSync(this.tablesDir)
+      .filter(file => file.endsWith('.json'));
+
+    const tables: Table[] = [];
+
+    for (const file of tableFiles) {
+      const tableData = fs.readFileSync(path.join(this.tablesDir, file), 'utf-8');
+      tables.push(JSON.parse(tableData));
+    }
+
+    return tables;
+  }
+
+  get(tableGuid: string): Table | null {
+    const filePath = this.filePath(tableGuid);
+
+    if (!fs.existsSync(filePath)) {
+      return null;
+    }
+
+    const tableData = fs.readFileSync(filePath, 'utf-8');
+    return JSON.parse(tableData);
+  }
+
+  // Files have no index, so this scans every table
+  findByPlayer(playerGuid: string): Table | null {
+    return this.getAll().find(table => table.players.some(p => p.playerGuid === playerGuid)) || null;
+  }
+
+  put(table: Table, expectedVersion: number): boolean {
+    const filePath = this.filePath(table.tableGuid);
+    const storedVersion = this.get(table.tableGuid)?.version ?? 0;
+
+    if (storedVersion !== expectedVersion) {
+      return false;
+    }
+
+    this.writeAtomically(filePath, table);
+
+    return true;
+  }
+
+  delete(tableGuid: string): void {
+    const filePath = this.filePath(tableGuid);
+
+    if (fs.existsSync(filePath)) {
+      fs.unlinkSync(filePath);
+    }
+  }
+
+  addHandHistory(entry: HandHistoryEntry): void {
+    const alreadyRecorded = this.getHandHistory(entry.tableGuid)
+      .some(existing => existing.handNumber === entry.handNumber);
+
+    if (!alreadyRecorded) {
+      fs.appendFileSync(this.historyPath(entry.tableGuid), JSON.stringify(entry) + '\n');
+    }
+  }
+
+  getHandHistory(tableGuid: string): HandHistoryEntry[] {
+    const historyPath = this.historyPath(tableGuid);
+
+    if (!fs.existsSync(historyPath)) {
+      return [];
+    }
+
+    return fs.readFileSync(historyPath, 'utf-8')
+      .split('\n')
+      .filter(line => line.trim() !== '')
+      .map(line => JSON.parse(line));
+  }
+
+  getMultiTableTournament(tournamentGuid: string): MultiTableTournament | null {
+    const filePath = this.tournamentPath(tournamentGuid);
+
+    if (!fs.existsSync(filePath)) {
+      return null;
+    }
+
+    return JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  }
+
+  putMultiTableTournament(tournament: MultiTableTournament, expectedVersion: number): boolean {
+    const storedVersion = this.getMultiTableTournament(tournament.tournamentGuid)?.version ?? 0;
+
+    if (storedVersion !== expectedVersion) {
+      return false;
+    }
+
+    this.writeAtomically(this.tournamentPath(tournament.tournamentGuid), tournament);
+
+    return true;
+  }
+
+  getProfile(profileId: string): PlayerProfile | null {
+    // An id that can't be a profile's names no profile, rather than a file somewhere else
+    if (!PROFILE_ID_PATTERN.test(profileId)) {
+      return null;
+    }
+
+    const filePath = this.profilePath(profileId);
+
+    if (!fs.existsSync(filePath)) {
+      return null;
+    }
+
+    return JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  }
+
+  putProfile(profile: PlayerProfile, expectedVersion: number): boolean {
+    const storedVersion = this.getProfile(profile.profileId)?.version ?? 0;
+
+    if (storedVersion !== expectedVersion) {
+      return false;
+    }
+
+    this.writeAtomically(this.profilePath(profile.profileId), profile);
+
+    return true;
+  }
+}
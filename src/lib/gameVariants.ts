@@ -0,0 +1,116 @@
+import { BoardStreet, Card, GamePhase, GameVariant, GameVariantId, Table } from './types';
+import { EvaluatedHand, evaluateHand, evaluateHandUsing } from './handEvaluator';
+
+// The flop, turn and river shared by every variant we deal
+const HOLDEM_BOARD: BoardStreet[] = [
+  { phase: 'Flop', cards: 3, name: 'Flop' },
+  { phase: 'Turn', cards: 1, name: 'Turn' },
+  { phase: 'River', cards: 1, name: 'River' },
+];
+
+export const GAME_VARIANTS: Record<GameVariantId, GameVariant> = {
+  holdem: {
+    id: 'holdem',
+    name: "Texas Hold'em",
+    shortName: 'NLH',
+    holeCards: 2,
+    discards: 0,
+    potLimit: false,
+    maxPlayers: 10,
+    boardStreets: HOLDEM_BOARD,
+  },
+  plo: {
+    id: 'plo',
+    name: 'Pot-Limit Omaha',
+    shortName: 'PLO',
+    holeCards: 4,
+    discards: 0,
+    holeCardsUsed: 2,
+    potLimit: true,
+    maxPlayers: 10,
+    boardStreets: HOLDEM_BOARD,
+  },
+  plo5: {
+    id: 'plo5',
+    name: '5-Card Pot-Limit Omaha',
+    shortName: 'PLO5',
+    holeCards: 5,
+    discards: 0,
+    holeCardsUsed: 2,
+    potLimit: true,
+    maxPlayers: 8, // 5 cards each still leaves enough for the board and burn cards
+    boardStreets: HOLDEM_BOARD,
+  },
+  pineapple: {
+    id: 'pineapple',
+    name: 'Pineapple',
+    shortName: 'PIN',
+    holeCards: 3,
+    discards: 1,
+    potLimit: false,
+    maxPlayers: 10,
+    boardStreets: HOLDEM_BOARD,
+  },
+};
+
+// Check whether a value names a variant we can deal
+export function isGameVariantId(value: unknown): value is GameVariantId {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(GAME_VARIANTS, value);
+}
+
+// Get the variant a table is dealing (tables saved before variants existed deal Hold'em)
+export function getTableVariant(table: Table): GameVariant {
+  return GAME_VARIANTS[table.variant] ?? GAME_VARIANTS.holdem;
+}
+
+// Get the variant the table switches to after the current orbit, if it rotates
+export function getNextVariant(table: Table): GameVariant | null {
+  const rotation = table.variantRotation ?? [];
+
+  if (rotation.length < 2) {
+    return null;
+  }
+
+  const index = rotation.indexOf(table.variant);
+  return GAME_VARIANTS[rotation[(index + 1) % rotation.length]];
+}
+
+// Find the street dealt when leaving a phase, or null when the board is complete
+export function getNextStreet(variant: GameVariant, phase: GamePhase): BoardStreet | null {
+  if (phase === 'Pre-Flop') {
+    return variant.boardStreets[0] ?? null;
+  }
+
+  const index = variant.boardStreets.findIndex(street => street.phase === phase);
+  return index === -1 ? null : variant.boardStreets[index + 1] ?? null;
+}
+
+// Get the display name of a phase in a variant
+export function getPhaseName(variant: GameVariant, phase: GamePhase): string {
+  return variant.boardStreets.find(street => street.phase === phase)?.name ?? phase;
+}
+
+// Number of pocket cards a player keeps once any discards are made
+export function getCardsKept(variant: GameVariant): number {
+  return variant.holeCards - variant.discards;
+}
+
+// Evaluate a player's best hand under the variant's rules for using pocket cards
+export function evaluatePlayerHand(variant: GameVariant, pocketCards: Card[], board: Card[]): EvaluatedHand {
+  if (variant.holeCardsUsed !== undefined) {
+    return evaluateHandUsing(pocketCards, board, variant.holeCardsUsed);
+  }
+
+  return evaluateHand([...pocketCards, ...board]);
+}
+
+// Name the best hand a player holds so far (e.g., "Two Pair, Kings and Sevens"), or null before there's a flop to use
+export function describePlayerHand(variant: GameVariant, pocketCards: Card[], board: Card[]): string | null {
+  const pocketCardsNeeded = variant.holeCardsUsed ?? 0;
+
+  if (board.length < 3 || pocketCards.length < pocketCardsNeeded || pocketCards.length + board.length < 5) {
+    return null;
+  }
+
+  return evaluatePlayerHand(variant, pocketCards, board).description;
+}
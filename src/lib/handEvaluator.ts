@@ -0,0 +1,342 @@
+import { Card } from './types';
+
+// Hand categories from weakest to strongest
+export enum HandCategory {
+  HighCard = 0,
+  Pair = 1,
+  TwoPair = 2,
+  ThreeOfAKind = 3,
+  Straight = 4,
+  Flush = 5,
+  FullHouse = 6,
+  FourOfAKind = 7,
+  StraightFlush = 8,
+  FiveOfAKind = 9, // Only possible with wild cards
+}
+
+export type EvaluatedHand = {
+  category: HandCategory;
+  tiebreakers: number[]; // Rank values to compare, most significant first
+  cards: Card[]; // The five cards that make up the hand
+  description: string; // e.g., "Flush, K high"
+};
+
+const RANK_VALUES: Record<string, number> = {
+  '2': 2, '3': 3, '4': 4, '5': 5, '6': 6, '7': 7, '8': 8, '9': 9,
+  'T': 10, 'J': 11, 'Q': 12, 'K': 13, 'A': 14,
+};
+
+const RANK_NAMES: Record<number, { short: string; singular: string; plural: string }> = {
+  2: { short: '2', singular: 'Two', plural: 'Twos' },
+  3: { short: '3', singular: 'Three', plural: 'Threes' },
+  4: { short: '4', singular: 'Four', plural: 'Fours' },
+  5: { short: '5', singular: 'Five', plural: 'Fives' },
+  6: { short: '6', singular: 'Six', plural: 'Sixes' },
+  7: { short: '7', singular: 'Seven', plural: 'Sevens' },
+  8: { short: '8', singular: 'Eight', plural: 'Eights' },
+  9: { short: '9', singular: 'Nine', plural: 'Nines' },
+  10: { short: 'T', singular: 'Ten', plural: 'Tens' },
+  11: { short: 'J', singular: 'Jack', plural: 'Jacks' },
+  12: { short: 'Q', singular: 'Queen', plural: 'Queens' },
+  13: { short: 'K', singular: 'King', plural: 'Kings' },
+  14: { short: 'A', singular: 'Ace', plural: 'Aces' },
+};
+
+// Get the numeric value of a card from its code (e.g., "KH" -> 13)
+// Wild cards have no value of their own; they are resolved while evaluating a hand
+export function getRankValue(card: Card): number {
+  const value = RANK_VALUES[card.code[0]];
+
+  if (!value) {
+    throw new Error(`Unknown card code ${card.code}`);
+  }
+
+  return value;
+}
+
+const SUIT_CODES = ['S', 'H', 'D', 'C'];
+
+// Get the suit letter of a card from its code (e.g., "KH" -> "H")
+function getSuitCode(card: Card): string {
+  return card.code[card.code.length - 1];
+}
+
+// Find the high card of a straight in a set of distinct rank values, or 0 if there is none
+function findStraightHigh(values: number[]): number {
+  const unique = new Set(values);
+
+  // The ace also plays low in A-2-3-4-5
+  if (unique.has(14)) {
+    unique.add(1);
+  }
+
+  for (let high = 14; high >= 5; high--) {
+    let isStraight = true;
+    for (let value = high; value > high - 5; value--) {
+      if (!unique.has(value)) {
+        isStraight = false;
+        break;
+      }
+    }
+    if (isStraight) {
+      return high;
+    }
+  }
+
+  return 0;
+}
+
+// Evaluate exactly five cards
+function evaluateFive(cards: Card[]): EvaluatedHand {
+  const values = cards.map(getRankValue).sort((a, b) => b - a);
+  const isFlush = cards.every(card => getSuitCode(card) === getSuitCode(cards[0]));
+  const straightHigh = findStraightHigh(values);
+
+  // Group values by how often they appear, largest groups first, then by value
+  const counts = new Map<number, number>();
+  for (const value of values) {
+    counts.set(value, (counts.get(value) || 0) + 1);
+  }
+  const groups = Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1] || b[0] - a[0]);
+  const groupValues = groups.map(([value]) => value);
+
+  let category: HandCategory;
+  let tiebreakers: number[];
+
+  if (groups[0][1] === 5) {
+    category = HandCategory.FiveOfAKind;
+    tiebreakers = groupValues;
+  } else if (isFlush && straightHigh) {
+    category = HandCategory.StraightFlush;
+    tiebreakers = [straightHigh];
+  } else if (groups[0][1] === 4) {
+    category = HandCategory.FourOfAKind;
+    tiebreakers = groupValues;
+  } else if (groups[0][1] === 3 && groups[1][1] === 2) {
+    category = HandCategory.FullHouse;
+    tiebreakers = groupValues;
+  } else if (isFlush) {
+    category = HandCategory.Flush;
+    tiebreakers = values;
+  } else if (straightHigh) {
+    category = HandCategory.Straight;
+    tiebreakers = [straightHigh];
+  } else if (groups[0][1] === 3) {
+    category = HandCategory.ThreeOfAKind;
+    tiebreakers = groupValues;
+  } else if (groups[0][1] === 2 && groups[1][1] === 2) {
+    category = HandCategory.TwoPair;
+    tiebreakers = groupValues;
+  } else if (groups[0][1] === 2) {
+    category = HandCategory.Pair;
+    tiebreakers = groupValues;
+  } else {
+    category = HandCategory.HighCard;
+    tiebreakers = values;
+  }
+
+  return {
+    category,
+    tiebreakers,
+    cards,
+    description: describeHand(category, tiebreakers),
+  };
+}
+
+// Generate every choice of ranks for a number of interchangeable wild cards, highest first
+function wildRankChoices(count: number, maxValue = 14): number[][] {
+  if (count === 0) {
+    return [[]];
+  }
+
+  const result: number[][] = [];
+
+  for (let value = maxValue; value >= 2; value--) {
+    for (const rest of wildRankChoices(count - 1, value)) {
+      result.push([value, ...rest]);
+    }
+  }
+
+  return result;
+}
+
+// Count the most rank choices tried for five cards holding this many wild cards, so callers can size their work
+export function getWildEvaluationCost(wildCount: number): number {
+  // From three wild cards on, four of a kind is always there and only a straight flush is worth trying against it
+  return wildCount >= 3 ? 2 : wildRankChoices(wildCount).length;
+}
+
+// Find the ranks wild cards need to complete the highest straight flush with the natural cards, or null if none
+function findStraightFlushRanks(naturals: Card[], wildCount: number): number[] | null {
+  const values = naturals.map(getRankValue);
+
+  if (new Set(naturals.map(getSuitCode)).size > 1 || new Set(values).size < values.length) {
+    return null;
+  }
+
+  for (let high = 14; high >= 5; high--) {
+    // The wheel's ace plays low, but the wild card standing in for it is still an ace
+    const window = [high, high - 1, high - 2, high - 3, high - 4].map(value => (value === 1 ? 14 : value));
+    const missing = window.filter(value => !values.includes(value));
+    if (missing.length === wildCount && values.every(value => window.includes(value))) {
+      return missing;
+    }
+  }
+
+  return null;
+}
+
+// Make the cards that wild cards stand in for, each in the preferred suit unless the hand already holds that card
+// Only a fifth card of one rank has no unused suit left, and that can only make five of a kind, where suits don't count
+function createStandIns(naturals: Card[], values: number[], preferredSuit: string): Card[] {
+  const held = new Set(naturals.map(card => card.code));
+
+  return values.map(value => {
+    const rank = RANK_NAMES[value].short;
+    const suit = [preferredSuit, ...SUIT_CODES].find(code => !held.has(`${rank}${code}`)) ?? preferredSuit;
+    held.add(`${rank}${suit}`);
+    return { rank, suit, code: `${rank}${suit}` };
+  });
+}
+
+// Evaluate five cards, letting each wild card stand in for whichever card makes the best hand
+function evaluateFiveWithWilds(cards: Card[]): EvaluatedHand {
+  const naturals = cards.filter(card => !card.isWild);
+  const wildCount = cards.length - naturals.length;
+
+  if (wildCount === 0) {
+    return evaluateFive(cards);
+  }
+
+  // A wild card only helps make a flush in the suit of the natural cards, so that's the only suit worth trying
+  const suit = naturals.length > 0 ? getSuitCode(naturals[0]) : 'S';
+  const naturalValues = Array.from(new Set(naturals.map(getRankValue)));
+
+  const counts = naturals.map(card => naturals.filter(other => getRankValue(other) === getRankValue(card)).length);
+  const largestSet = Math.max(...counts);
+  const setValue = Math.max(...naturals.filter((card, index) => counts[index] === largestSet).map(getRankValue));
+  const straightFlush = findStraightFlushRanks(naturals, wildCount);
+
+  // Wild cards filling out a single rank make five of a kind, the best hand there is, so there's nothing to try
+  // Wild cards making four of a kind can only be beaten by a straight flush, so those are the two worth trying
+  let rankChoices: number[][];
+  if (naturalValues.length <= 1) {
+    rankChoices = [Array(wildCount).fill(naturalValues[0] ?? 14)];
+  } else if (largestSet + wildCount >= 4) {
+    rankChoices = [Array(wildCount).fill(setValue), ...(straightFlush ? [straightFlush] : [])];
+  } else {
+    rankChoices = wildRankChoices(wildCount);
+  }
+  let best: EvaluatedHand | null = null;
+
+  for (const values of rankChoices) {
+    const hand = evaluateFive([...naturals, ...createStandIns(naturals, values, suit)]);
+    if (!best || compareHands(hand, best) > 0) {
+      best = hand;
+    }
+  }
+
+  // Report the cards actually held, wild cards included
+  return { ...best!, cards };
+}
+
+// Build a human readable name for a hand (e.g., "Full House, Jacks full of Fours")
+function describeHand(category: HandCategory, tiebreakers: number[]): string {
+  const [first, second] = tiebreakers;
+
+  switch (category) {
+    case HandCategory.FiveOfAKind:
+      return `Five of a Kind, ${RANK_NAMES[first].plural}`;
+    case HandCategory.StraightFlush:
+      return first === 14 ? 'Royal Flush' : `Straight Flush, ${RANK_NAMES[first].short} high`;
+    case HandCategory.FourOfAKind:
+      return `Four of a Kind, ${RANK_NAMES[first].plural}`;
+    case HandCategory.FullHouse:
+      return `Full House, ${RANK_NAMES[first].plural} full of ${RANK_NAMES[second].plural}`;
+    case HandCategory.Flush:
+      return `Flush, ${RANK_NAMES[first].short} high`;
+    case HandCategory.Straight:
+      return `Straight, ${RANK_NAMES[first].short} high`;
+    case HandCategory.ThreeOfAKind:
+      return `Three of a Kind, ${RANK_NAMES[first].plural}`;
+    case HandCategory.TwoPair:
+      return `Two Pair, ${RANK_NAMES[first].plural} and ${RANK_NAMES[second].plural}`;
+    case HandCategory.Pair:
+      return `Pair of ${RANK_NAMES[first].plural}`;
+    default:
+      return `High Card, ${RANK_NAMES[first].singular}`;
+  }
+}
+
+// Compare two evaluated hands: positive if a wins, negative if b wins, 0 for a tie
+export function compareHands(a: EvaluatedHand, b: EvaluatedHand): number {
+  if (a.category !== b.category) {
+    return a.category - b.category;
+  }
+
+  for (let i = 0; i < Math.min(a.tiebreakers.length, b.tiebreakers.length); i++) {
+    if (a.tiebreakers[i] !== b.tiebreakers[i]) {
+      return a.tiebreakers[i] - b.tiebreakers[i];
+    }
+  }
+
+  return 0;
+}
+
+// Generate every k-card combination of the given cards
+function combinations(cards: Card[], k: number): Card[][] {
+  if (k === 0) {
+    return [[]];
+  }
+
+  const result: Card[][] = [];
+
+  for (let i = 0; i <= cards.length - k; i++) {
+    for (const rest of combinations(cards.slice(i + 1), k - 1)) {
+      result.push([cards[i], ...rest]);
+    }
+  }
+
+  return result;
+}
+
+// Find the best five-card hand from five to seven cards (pocket cards plus board)
+export function evaluateHand(cards: Card[]): EvaluatedHand {
+  if (cards.length < 5) {
+    throw new Error(`At least 5 cards are needed to evaluate a hand, got ${cards.length}`);
+  }
+
+  let best: EvaluatedHand | null = null;
+
+  for (const five of combinations(cards, 5)) {
+    const hand = evaluateFiveWithWilds(five);
+    if (!best || compareHands(hand, best) > 0) {
+      best = hand;
+    }
+  }
+
+  return best!;
+}
+
+// Find the best five-card hand using exactly `holeCardsUsed` pocket cards and the rest from the board (e.g., Omaha)
+export function evaluateHandUsing(pocketCards: Card[], board: Card[], holeCardsUsed: number): EvaluatedHand {
+  const boardCardsUsed = 5 - holeCardsUsed;
+
+  if (pocketCards.length < holeCardsUsed || board.length < boardCardsUsed) {
+    throw new Error(`A hand needs ${holeCardsUsed} pocket cards and ${boardCardsUsed} board cards`);
+  }
+
+  let best: EvaluatedHand | null = null;
+
+  for (const pocket of combinations(pocketCards, holeCardsUsed)) {
+    for (const shared of combinations(board, boardCardsUsed)) {
+      const hand = evaluateFiveWithWilds([...pocket, ...shared]);
+      if (!best || compareHands(hand, best) > 0) {
+        best = hand;
+      }
+    }
+  }
+
+  return best!;
+}
@@ -0,0 +1,310 @@
+import { Table, Card, HandAction, HandHistoryEntry, HandEnding, GamePhase, GameVariantId, DealtCard } from './types';
+import { getLivePlayers, isHandDecided, isInHand } from './betting';
+import { getTableVariant } from './gameVariants';
+import { getPlayerAlias } from './playerIdentity';
+import { generateTableName } from '@/app/api/tables/tableNamer';
+
+// Start recording a new hand, remembering everyone's stack before the blinds go in
+export function startHandRecord(table: Table): void {
+  const startingStacks: Record<string, number> = {};
+  for (const player of table.players) {
+    startingStacks[player.playerGuid] = player.stack ?? 0;
+  }
+
+  table.currentHand = {
+    startedAt: new Date().toISOString(),
+    startingStacks,
+    actions: [],
+    dealingOrder: [],
+  };
+}
+
+// Add an action to the current hand's log
+export function recordAction(table: Table, action: Omit<HandAction, 'phase'>): void {
+  table.currentHand?.actions.push({ phase: table.gamePhase, ...action });
+}
+
+// Add cards taken off the deck to the current hand's dealing order
+export function recordDealtCards(
+  table: Table,
+  cards: Card[],
+  destination: DealtCard['destination'],
+  playerGuid?: string
+): void {
+  for (const card of cards) {
+    table.currentHand?.dealingOrder.push({
+      card,
+      phase: table.gamePhase,
+      destination,
+      ...(playerGuid && { playerGuid }),
+    });
+  }
+}
+
+// Work out how the hand that is about to be cleared ended
+function getHandEnding(table: Table): HandEnding {
+  if (table.showdown) {
+    return 'showdown';
+  }
+  if (isHandDecided(table)) {
+    return 'fold';
+  }
+  return 'reset';
+}
+
+// Find the part of the biggest bet nobody matched, which goes back to the player who made it instead of being won
+function getUncalledBet(table: Table): { playerGuid: string; amount: number } | undefined {
+  const [top, next] = [...table.players].sort((a, b) => (b.totalBet ?? 0) - (a.totalBet ?? 0));
+
+  if (!top || !isInHand(top)) {
+    return undefined;
+  }
+
+  const amount = (top.totalBet ?? 0) - (next?.totalBet ?? 0);
+  return amount > 0 ? { playerGuid: top.playerGuid, amount } : undefined;
+}
+
+// Build the history entry for the current hand, or null if no hand was being recorded
+// Call this after chips have been settled but before cards and bets are cleared
+export function createHistoryEntry(table: Table): HandHistoryEntry | null {
+  const hand = table.currentHand;
+
+  if (!hand) {
+    return null;
+  }
+
+  const endedBy = getHandEnding(table);
+  const uncalledBet = endedBy !== 'reset' ? getUncalledBet(table) : undefined;
+  const totalPot = table.players.reduce((sum, player) => sum + (player.totalBet ?? 0), 0) - (uncalledBet?.amount ?? 0);
+
+  // Winnings are what each winner collected from the pot, so an uncalled bet handed back isn't counted
+  const winnings: Record<string, number> = {};
+  if (endedBy === 'showdown' && table.showdown) {
+    for (const shown of table.showdown.hands) {
+      const collected = shown.amountWon - (uncalledBet?.playerGuid === shown.playerGuid ? uncalledBet.amount : 0);
+      if (collected > 0) {
+        winnings[shown.playerGuid] = collected;
+      }
+    }
+  } else if (endedBy === 'fold' && totalPot > 0) {
+    winnings[getLivePlayers(table)[0].playerGuid] = totalPot;
+  }
+
+  return {
+    tableGuid: table.tableGuid,
+    tableName: generateTableName(table.tableGuid),
+    handNumber: table.handNumber,
+    variant: getTableVariant(table).id,
+    startedAt: hand.startedAt,
+    endedAt: new Date().toISOString(),
+    bettingEnabled: table.bettingEnabled === true,
+    smallBlind: table.smallBlind ?? 0,
+    bigBlind: table.bigBlind ?? 0,
+    buttonSeat: table.dealerSeat ?? 0,
+    smallBlindSeat: table.smallBlindSeat ?? 0,
+    bigBlindSeat: table.bigBlindSeat ?? 0,
+    seats: table.players.map(player => ({
+      seat: player.seat,
+      playerGuid: player.playerGuid,
+      playerAlias: getPlayerAlias(player),
+      startingStack: hand.startingStacks[player.playerGuid] ?? player.stack ?? 0,
+      endingStack: player.stack ?? 0,
+      holeCards: player.hasFolded ? player.muckedCards ?? [] : player.pocketCards,
+      folded: player.hasFolded === true,
+    })),
+    board: table.communityCards,
+    actions: hand.actions,
+    dealingOrder: hand.dealingOrder ?? [],
+    deckOptions: table.deckOptions ?? {},
+    shuffle: table.shuffleSeeds,
+    endedBy,
+    showdown: table.showdown,
+    totalPot,
+    winnings,
+    ...(uncalledBet && { uncalledBet }),
+  };
+}
+
+// Format a card the way PokerStars does (e.g., "Th", "As")
+function formatCard(card: Card): string {
+  return `${card.code.slice(0, -1)}${card.code.slice(-1).toLowerCase()}`;
+}
+
+function formatCards(cards: Card[]): string {
+  return `[${cards.map(formatCard).join(' ')}]`;
+}
+
+// Format a timestamp as "2024/01/31 20:15:00 UTC"
+function formatDate(isoDate: string): string {
+  const date = new Date(isoDate);
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  return `${date.getUTCFullYear()}/${pad(date.getUTCMonth() + 1)}/${pad(date.getUTCDate())} ` +
+    `${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}:${pad(date.getUTCSeconds())} UTC`;
+}
+
+// Describe a single action line (e.g., "raises 4 to 6 and is all-in")
+function formatAction(action: HandAction, previousBet: number): string {
+  const allIn = action.isAllIn ? ' and is all-in' : '';
+
+  switch (action.action) {
+    case 'ante':
+      return `posts the ante ${action.amount}${allIn}`;
+    case 'small blind':
+      return `posts small blind ${action.amount}${allIn}`;
+    case 'big blind':
+      return `posts big blind ${action.amount}${allIn}`;
+    case 'small & big blinds':
+      return `posts small & big blinds ${action.amount}${allIn}`;
+    case 'fold':
+      return 'folds';
+    case 'check':
+      return 'checks';
+    case 'call':
+      return `calls ${action.amount}${allIn}`;
+    case 'bet':
+      return `bets ${action.raiseTo ?? action.amount}${allIn}`;
+    case 'raise':
+      return `raises ${(action.raiseTo ?? 0) - previousBet} to ${action.raiseTo}${allIn}`;
+    default:
+      return action.action;
+  }
+}
+
+// Game names as they appear in PokerStars hand histories; PokerStars has no Pineapple, so there's no name to give
+const POKERSTARS_GAMES: Record<GameVariantId, string | null> = {
+  holdem: "Hold'em No Limit",
+  plo: 'Omaha Pot Limit',
+  plo5: '5 Card Omaha Pot Limit',
+  pineapple: null,
+};
+
+// Whether a hand can be written in the PokerStars format: a game PokerStars deals, with no jokers it has no code for
+export function isPokerStarsExportable(entry: HandHistoryEntry): boolean {
+  return POKERSTARS_GAMES[entry.variant ?? 'holdem'] !== null && !entry.deckOptions?.jokers;
+}
+
+// Make a hand id that is unique across tables and sessions, since hand numbers start again at 1 on every table
+// The start time in milliseconds followed by five digits from the table guid stays within a 64-bit number
+function getPokerStarsHandId(entry: HandHistoryEntry): string {
+  const tableDigits = (parseInt(entry.tableGuid.slice(0, 4), 16) || 0).toString().padStart(5, '0');
+  return `${Date.parse(entry.startedAt)}${tableDigits}`;
+}
+
+// Street headers, with the board as it stood when each street was dealt
+const STREETS: { phase: GamePhase; header: (board: Card[]) => string }[] = [
+  { phase: 'Pre-Flop', header: () => '*** HOLE CARDS ***' },
+  { phase: 'Flop', header: board => `*** FLOP *** ${formatCards(board.slice(0, 3))}` },
+  { phase: 'Turn', header: board => `*** TURN *** ${formatCards(board.slice(0, 3))} ${formatCards(board.slice(3, 4))}` },
+  { phase: 'River', header: board => `*** RIVER *** ${formatCards(board.slice(0, 4))} ${formatCards(board.slice(4, 5))}` },
+];
+
+// Export a hand in the PokerStars text format understood by most hand review tools
+export function formatPokerStarsHand(entry: HandHistoryEntry): string {
+  const lines: string[] = [];
+  const aliasOf = (playerGuid: string) =>
+    entry.seats.find(seat => seat.playerGuid === playerGuid)?.playerAlias ?? playerGuid;
+
+  lines.push(
+    `PokerStars Hand #${getPokerStarsHandId(entry)}: ${POKERSTARS_GAMES[entry.variant ?? 'holdem']} (${entry.smallBlind}/${entry.bigBlind}) - ${formatDate(entry.startedAt)}`
+  );
+  lines.push(`Table '${entry.tableName}' ${Math.max(entry.seats.length, 2)}-max Seat #${entry.buttonSeat} is the button`);
+  for (const seat of entry.seats) {
+    lines.push(`Seat ${seat.seat}: ${seat.playerAlias} (${seat.startingStack} in chips)`);
+  }
+
+  // Antes and blinds are logged before the hole cards header
+  const isBlind = (a: HandAction) =>
+    a.action === 'ante' || a.action === 'small blind' || a.action === 'big blind' || a.action === 'small & big blinds';
+  const blinds = entry.actions.filter(isBlind);
+  for (const blind of blinds) {
+    lines.push(`${aliasOf(blind.playerGuid)}: ${formatAction(blind, 0)}`);
+  }
+
+  // Walk the streets that were actually dealt
+  const streetsDealt = STREETS.filter(street =>
+    street.phase === 'Pre-Flop' ||
+    (street.phase === 'Flop' && entry.board.length >= 3) ||
+    (street.phase === 'Turn' && entry.board.length >= 4) ||
+    (street.phase === 'River' && entry.board.length >= 5)
+  );
+
+  for (const street of streetsDealt) {
+    lines.push(street.header(entry.board));
+
+    if (street.phase === 'Pre-Flop') {
+      for (const seat of entry.seats) {
+        if (seat.holeCards.length > 0) {
+          lines.push(`Dealt to ${seat.playerAlias} ${formatCards(seat.holeCards)}`);
+        }
+      }
+    }
+
+    let currentBet = street.phase === 'Pre-Flop' ? entry.bigBlind : 0;
+    const streetActions = entry.actions.filter(a =>
+      a.phase === street.phase && !isBlind(a)
+    );
+    for (const action of streetActions) {
+      lines.push(`${aliasOf(action.playerGuid)}: ${formatAction(action, currentBet)}`);
+      if (action.raiseTo !== undefined) {
+        currentBet = action.raiseTo;
+      }
+    }
+  }
+
+  if (entry.endedBy === 'showdown' && entry.showdown) {
+    lines.push('*** SHOW DOWN ***');
+    for (const hand of entry.showdown.hands) {
+      lines.push(`${aliasOf(hand.playerGuid)}: shows ${formatCards(hand.pocketCards)} (${hand.handName})`);
+    }
+  }
+
+  if (entry.uncalledBet) {
+    lines.push(`Uncalled bet (${entry.uncalledBet.amount}) returned to ${aliasOf(entry.uncalledBet.playerGuid)}`);
+  }
+
+  for (const [playerGuid, amount] of Object.entries(entry.winnings)) {
+    lines.push(`${aliasOf(playerGuid)} collected ${amount} from pot`);
+  }
+
+  lines.push('*** SUMMARY ***');
+  lines.push(`Total pot ${entry.totalPot} | Rake 0`);
+  if (entry.board.length > 0) {
+    lines.push(`Board ${formatCards(entry.board)}`);
+  }
+
+  for (const seat of entry.seats) {
+    const roles = [
+      seat.seat === entry.buttonSeat ? ' (button)' : '',
+      seat.seat === entry.smallBlindSeat && entry.seats.length > 1 ? ' (small blind)' : '',
+      seat.seat === entry.bigBlindSeat && entry.seats.length > 1 ? ' (big blind)' : '',
+    ].join('');
+    const shown = entry.showdown?.hands.find(hand => hand.playerGuid === seat.playerGuid);
+    const won = entry.winnings[seat.playerGuid];
+    let outcome: string;
+
+    if (seat.holeCards.length === 0) {
+      outcome = 'sat out';
+    } else if (seat.folded) {
+      const fold = entry.actions.find(a => a.playerGuid === seat.playerGuid && a.action === 'fold');
+      outcome = fold && fold.phase !== 'Pre-Flop' ? `folded on the ${fold.phase}` : 'folded before Flop';
+    } else if (shown) {
+      outcome = won
+        ? `showed ${formatCards(shown.pocketCards)} and won (${won}) with ${shown.handName}`
+        : `showed ${formatCards(shown.pocketCards)} and lost with ${shown.handName}`;
+    } else if (won) {
+      outcome = `collected (${won})`;
+    } else {
+      outcome = `mucked ${formatCards(seat.holeCards)}`;
+    }
+
+    lines.push(`Seat ${seat.seat}: ${seat.playerAlias}${roles} ${outcome}`);
+  }
+
+  return lines.join('\n');
+}
+
+// Export several hands, separated the way PokerStars separates hands in a session file
+// Hands PokerStars has no format for are left out
+export function formatPokerStarsHistory(entries: HandHistoryEntry[]): string {
+  return entries.filter(isPokerStarsExportable).map(formatPokerStarsHand).join('\n\n\n') + '\n';
+}
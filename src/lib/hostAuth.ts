@@ -0,0 +1,67 @@
+import crypto from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { Table } from './types';
+
+// How long a host cookie lasts before the host has to claim the table again
+const HOST_COOKIE_MAX_AGE = 30 * 24 * 60 * 60; // 30 days in seconds
+
+// How long a handoff code can be used to give another device control
+export const HANDOFF_CODE_LIFETIME_MS = 10 * 60 * 1000; // 10 minutes
+
+// Create the per-table secret that host tokens are signed with (never sent to any client)
+export function createHostSecret(): string {
+  return crypto.randomBytes(32).toString('hex');
+}
+
+// Create a one-time code used to hand control of a table to another device
+export function createHandoffCode(): string {
+  return crypto.randomBytes(16).toString('hex');
+}
+
+// SHA-256 of a one-time code, so the code itself is never stored
+export function hashOneTimeCode(code: string): string {
+  return crypto.createHash('sha256').update(code).digest('hex');
+}
+
+// Cookie holding the host token for one table
+function getHostCookieName(tableGuid: string): string {
+  return `dealme_host_${tableGuid}`;
+}
+
+// The token a host device presents: the table guid signed with the table's secret
+function createHostToken(table: Table): string {
+  return crypto.createHmac('sha256', table.hostSecret!).update(table.tableGuid).digest('hex');
+}
+
+// Check whether a request comes from a device allowed to control the table
+// Tables created before hosts were introduced have no secret and stay open to everyone
+export function isHost(request: NextRequest, table: Table): boolean {
+  if (!table.hostSecret) {
+    return true;
+  }
+
+  const token = request.cookies.get(getHostCookieName(table.tableGuid))?.value;
+
+  if (!token) {
+    return false;
+  }
+
+  const expected = Buffer.from(createHostToken(table));
+  const actual = Buffer.from(token);
+
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
+// Give the device receiving this response control of the table
+export function setHostCookie(response: NextResponse, table: Table): void {
+  if (!table.hostSecret) {
+    return;
+  }
+
+  response.cookies.set(getHostCookieName(table.tableGuid), createHostToken(table), {
+    httpOnly: true,
+    sameSite: 'lax',
+    path: '/',
+    maxAge: HOST_COOKIE_MAX_AGE,
+  });
+}
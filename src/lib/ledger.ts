@@ -0,0 +1,200 @@
+import { Table, LedgerEntry, LedgerBalance, LedgerPayment, LedgerView } from './types';
+import { generatePokerPlayerAlias } from '@/app/api/tables/playerNamer';
+import { getPlayerAlias } from './playerIdentity';
+
+// Most players with something to settle that the exact settlement searches over; beyond that a greedy one is used
+const MAX_EXACT_SETTLEMENT_PLAYERS = 16;
+
+// Only cash games keep a ledger: without chips there is nothing to settle, and tournament chips aren't money
+export function isLedgerKept(table: Table): boolean {
+  return table.bettingEnabled === true && !table.tournament;
+}
+
+// Note chips a player brought to the table or took away from it
+export function recordLedgerEntry(table: Table, playerGuid: string, kind: LedgerEntry['kind'], amount: number): void {
+  if (!isLedgerKept(table)) {
+    return;
+  }
+
+  const player = table.players.find(p => p.playerGuid === playerGuid);
+  const playerAlias = player ? getPlayerAlias(player) : generatePokerPlayerAlias(playerGuid);
+
+  table.ledger = [...(table.ledger ?? []), { playerGuid, playerAlias, kind, amount, at: new Date().toISOString() }];
+}
+
+// Buy in everyone seated who isn't in the ledger yet with the chips in front of them
+// Players who sat down while the table had no chips (or ran a tournament) join the ledger once it's a cash game,
+// so turning chips on mid-session still leaves the balances adding up
+export function openLedger(table: Table): void {
+  for (const player of table.players) {
+    if (!(table.ledger ?? []).some(entry => entry.playerGuid === player.playerGuid)) {
+      recordLedgerEntry(table, player.playerGuid, 'buy-in', player.stack + player.totalBet);
+    }
+  }
+}
+
+// A player who cashed out and isn't seated any more, so sitting down again is a rebuy
+export function hasCashedOut(table: Table, playerGuid: string): boolean {
+  const entries = (table.ledger ?? []).filter(entry => entry.playerGuid === playerGuid);
+
+  return entries.length > 0 &&
+    entries[entries.length - 1].kind === 'cash-out' &&
+    !table.players.some(player => player.playerGuid === playerGuid);
+}
+
+// Work out each player's totals, counting the chips of anyone still seated (including any in the pot) as theirs
+// Seated players are listed under the name they go by now, everyone else under the last name they left with
+function getBalances(table: Table): (LedgerBalance & { playerGuid: string })[] {
+  const balances = new Map<string, LedgerBalance & { playerGuid: string }>();
+  const balanceOf = (playerGuid: string) => {
+    let balance = balances.get(playerGuid);
+    if (!balance) {
+      balance = { playerGuid, playerAlias: generatePokerPlayerAlias(playerGuid), boughtIn: 0, cashedOut: 0, atTable: 0, net: 0 };
+      balances.set(playerGuid, balance);
+    }
+    return balance;
+  };
+
+  for (const entry of table.ledger ?? []) {
+    const balance = balanceOf(entry.playerGuid);
+    balance.playerAlias = entry.playerAlias ?? balance.playerAlias;
+    if (entry.kind === 'cash-out') {
+      balance.cashedOut += entry.amount;
+    } else {
+      balance.boughtIn += entry.amount;
+    }
+  }
+
+  for (const player of table.players) {
+    if (balances.has(player.playerGuid)) {
+      const balance = balanceOf(player.playerGuid);
+      balance.playerAlias = getPlayerAlias(player);
+      balance.atTable = player.stack + player.totalBet;
+    }
+  }
+
+  const all = Array.from(balances.values());
+  for (const balance of all) {
+    balance.net = balance.cashedOut + balance.atTable - balance.boughtIn;
+  }
+
+  return all;
+}
+
+// Settle a group whose balances add up to zero: the biggest loser pays the biggest winner until everyone is square
+function settleGroup(group: { playerGuid: string; net: number }[]): LedgerPayment[] {
+  const owed = group.filter(member => member.net > 0).map(member => ({ ...member }));
+  const owing = group.filter(member => member.net < 0).map(member => ({ playerGuid: member.playerGuid, net: -member.net }));
+  const payments: LedgerPayment[] = [];
+
+  while (owed.length > 0 && owing.length > 0) {
+    owed.sort((a, b) => b.net - a.net);
+    owing.sort((a, b) => b.net - a.net);
+
+    const amount = Math.min(owed[0].net, owing[0].net);
+    payments.push({ from: owing[0].playerGuid, to: owed[0].playerGuid, amount });
+
+    owed[0].net -= amount;
+    owing[0].net -= amount;
+    if (owed[0].net === 0) owed.shift();
+    if (owing[0].net === 0) owing.shift();
+  }
+
+  return payments;
+}
+
+// Split balances into as many groups as possible that each add up to zero
+// A group of k players settles in k - 1 payments, so the most groups means the fewest payments overall
+function splitIntoZeroSumGroups(nets: number[]): number[][] {
+  const full = (1 << nets.length) - 1;
+  const sums = new Float64Array(full + 1);
+  const mostGroups = new Int8Array(full + 1);
+
+  for (let mask = 1; mask <= full; mask++) {
+    const lowest = Math.log2(mask & -mask);
+    sums[mask] = sums[mask & (mask - 1)] + nets[lowest];
+
+    let most = 0;
+    for (let i = 0; i < nets.length; i++) {
+      if (mask & (1 << i)) {
+        most = Math.max(most, mostGroups[mask ^ (1 << i)]);
+      }
+    }
+    mostGroups[mask] = most + (sums[mask] === 0 ? 1 : 0);
+  }
+
+  // Walk back from everyone, closing a group each time the players left add up to zero
+  const groups: number[][] = [];
+  let group: number[] = [];
+  let mask = full;
+
+  while (mask) {
+    const bonus = sums[mask] === 0 ? 1 : 0;
+    for (let i = 0; i < nets.length; i++) {
+      if (mask & (1 << i) && mostGroups[mask ^ (1 << i)] + bonus === mostGroups[mask]) {
+        group.push(i);
+        mask ^= 1 << i;
+        break;
+      }
+    }
+
+    if (sums[mask] === 0) {
+      groups.push(group);
+      group = [];
+    }
+  }
+
+  return groups;
+}
+
+// Work out the fewest payments that leave every player square; the balances must add up to zero
+// Payments name players by guid, since aliases can be reused over a session
+export function settleBalances(balances: { playerGuid: string; net: number }[]): LedgerPayment[] {
+  const unsettled = balances.filter(balance => balance.net !== 0);
+
+  if (unsettled.length > MAX_EXACT_SETTLEMENT_PLAYERS) {
+    return settleGroup(unsettled);
+  }
+
+  return splitIntoZeroSumGroups(unsettled.map(balance => balance.net))
+    .flatMap(group => settleGroup(group.map(index => unsettled[index])));
+}
+
+// View of the session ledger for the host
+export function createLedgerView(table: Table): LedgerView {
+  const balances = getBalances(table);
+  const unsettled = balances.reduce((total, balance) => total + balance.net, 0);
+  const aliasOf = (playerGuid: string) => balances.find(balance => balance.playerGuid === playerGuid)!.playerAlias;
+
+  return {
+    entries: (table.ledger ?? []).map(({ playerGuid, ...entry }) => ({
+      ...entry,
+      playerAlias: entry.playerAlias ?? generatePokerPlayerAlias(playerGuid),
+    })),
+    balances: balances.map(({ playerGuid, ...balance }) => balance),
+    // Payments only make sense once every chip is accounted for
+    payments: unsettled === 0
+      ? settleBalances(balances).map(payment => ({ ...payment, from: aliasOf(payment.from), to: aliasOf(payment.to) }))
+      : [],
+    unsettled,
+  };
+}
+
+// Quote a CSV field when it needs it
+function csvField(value: string | number): string {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Export the ledger as CSV: each player's totals, then the payments that settle the session
+export function formatLedgerCsv(ledger: LedgerView): string {
+  const rows: (string | number)[][] = [
+    ['Player', 'Bought in', 'Cashed out', 'At table', 'Net'],
+    ...ledger.balances.map(balance => [balance.playerAlias, balance.boughtIn, balance.cashedOut, balance.atTable, balance.net]),
+    [],
+    ['Pays', 'To', 'Amount'],
+    ...ledger.payments.map(payment => [payment.from, payment.to, payment.amount]),
+  ];
+
+  return rows.map(row => row.map(csvField).join(',')).join('\n') + '\n';
+}
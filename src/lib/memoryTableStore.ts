@@ -0,0 +1,100 @@
+import { Table, HandHistoryEntry, MultiTableTournament, PlayerProfile } from './types';
+import type { TableStore } from './tableStore';
+
+// Keeps tables in process memory; nothing survives a restart, which makes it handy for tests
+export class MemoryTableStore implements TableStore {
+  // Tables are stored serialized so callers can never mutate the stored copy by accident
+  private readonly tables = new Map<string, string>();
+  private readonly tableGuidByPlayer = new Map<string, string>();
+  private readonly history = new Map<string, string[]>();
+  private readonly tournaments = new Map<string, string>();
+  private readonly profiles = new Map<string, string>();
+
+  getAll(): Table[] {
+    return Array.from(this.tables.values()).map(data => JSON.parse(data));
+  }
+
+  get(tableGuid: string): Table | null {
+    const data = this.tables.get(tableGuid);
+    return data ? JSON.parse(data) : null;
+  }
+
+  findByPlayer(playerGuid: string): Table | null {
+    const tableGuid = this.tableGuidByPlayer.get(playerGuid);
+    return tableGuid ? this.get(tableGuid) : null;
+  }
+
+  put(table: Table, expectedVersion: number): boolean {
+    const storedVersion = this.get(table.tableGuid)?.version ?? 0;
+
+    if (storedVersion !== expectedVersion) {
+      return false;
+    }
+
+    this.unindexPlayers(table.tableGuid);
+    this.tables.set(table.tableGuid, JSON.stringify(table));
+    for (const player of table.players) {
+      this.tableGuidByPlayer.set(player.playerGuid, table.tableGuid);
+    }
+
+    return true;
+  }
+
+  delete(tableGuid: string): void {
+    this.unindexPlayers(tableGuid);
+    this.tables.delete(tableGuid);
+  }
+
+  addHandHistory(entry: HandHistoryEntry): void {
+    const entries = this.history.get(entry.tableGuid) || [];
+
+    if (!this.getHandHistory(entry.tableGuid).some(existing => existing.handNumber === entry.handNumber)) {
+      entries.push(JSON.stringify(entry));
+      this.history.set(entry.tableGuid, entries);
+    }
+  }
+
+  getHandHistory(tableGuid: string): HandHistoryEntry[] {
+    return (this.history.get(tableGuid) || []).map(data => JSON.parse(data));
+  }
+
+  getMultiTableTournament(tournamentGuid: string): MultiTableTournament | null {
+    const data = this.tournaments.get(tournamentGuid);
+    return data ? JSON.parse(data) : null;
+  }
+
+  putMultiTableTournament(tournament: MultiTableTournament, expectedVersion: number): boolean {
+    const storedVersion = this.getMultiTableTournament(tournament.tournamentGuid)?.version ?? 0;
+
+    if (storedVersion !== expectedVersion) {
+      return false;
+    }
+
+    this.tournaments.set(tournament.tournamentGuid, JSON.stringify(tournament));
+    return true;
+  }
+
+  getProfile(profileId: string): PlayerProfile | null {
+    const data = this.profiles.get(profileId);
+    return data ? JSON.parse(data) : null;
+  }
+
+  putProfile(profile: PlayerProfile, expectedVersion: number): boolean {
+    const storedVersion = this.getProfile(profile.profileId)?.version ?? 0;
+
+    if (storedVersion !== expectedVersion) {
+      return false;
+    }
+
+    this.profiles.set(profile.profileId, JSON.stringify(profile));
+    return true;
+  }
+
+  private unindexPlayers(tableGuid: string): void {
+    for (const [playerGuid, indexedTableGuid] of Array.from(this.tableGuidByPlayer.entries())) {
+      if (indexedTableGuid === tableGuid) {
+        this.tableGuidByPlayer.delete(playerGuid);
+      }
+    }
+  }
+}
@@ -0,0 +1,95 @@
+import { Table, Player, PlayerAvatar } from './types';
+import { generatePokerPlayerAlias } from '@/app/api/tables/playerNamer';
+import { TableRuleError } from './tableErrors';
+
+export const MIN_NICKNAME_LENGTH = 2;
+export const MAX_NICKNAME_LENGTH = 20;
+
+// Avatars a player can pick from: an emoji, or a plain colour behind their initial
+export const AVATAR_EMOJIS = ['🦊', '🐻', '🐼', '🦁', '🐯', '🐸', '🐙', '🦈', '🦉', '🐺', '🦄', '🐲', '🤠', '😎', '🤖', '👽', '🎩', '🍀', '🔥', '⭐'];
+export const AVATAR_COLORS = ['#ef4444', '#f97316', '#eab308', '#22c55e', '#14b8a6', '#3b82f6', '#6366f1', '#a855f7', '#ec4899', '#64748b'];
+
+// Words no nickname may contain as a word of its own
+const BLOCKED_WORDS = [
+  'fuck', 'fucker', 'shit', 'cunt', 'bitch', 'whore', 'slut', 'cock', 'dick', 'pussy', 'asshole', 'bastard',
+  'wanker', 'twat', 'nigger', 'nigga', 'faggot', 'fag', 'retard', 'rape', 'nazi'
+];
+
+// Words no nickname may contain anywhere, even run together with other letters; the rest turn up inside
+// innocent names (e.g., "Scunthorpe"), so they are only matched as whole words
+const BLOCKED_ANYWHERE = ['fuck', 'nigger', 'nigga', 'faggot', 'whore', 'wanker'];
+
+// Undo the usual letter swaps (e.g., "5h1t") before looking for blocked words
+function unLeet(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/0/g, 'o')
+    .replace(/[1!|]/g, 'i')
+    .replace(/3/g, 'e')
+    .replace(/[4@]/g, 'a')
+    .replace(/[5$]/g, 's')
+    .replace(/7/g, 't');
+}
+
+// The name a player goes by: their nickname, or the alias generated from their guid until they pick one
+export function getPlayerAlias(player: Pick<Player, 'playerGuid' | 'playerAlias'>): string {
+  return player.playerAlias || generatePokerPlayerAlias(player.playerGuid);
+}
+
+// The name of a player by guid, for results and records that only keep the guid
+export function getAliasByGuid(table: Table, playerGuid: string): string {
+  const player = table.players.find(p => p.playerGuid === playerGuid);
+  return player ? getPlayerAlias(player) : generatePokerPlayerAlias(playerGuid);
+}
+
+// Tidy up a nickname and check it is a sensible length and not offensive, returning the tidied nickname
+export function normalizeNickname(nickname: unknown): string {
+  if (typeof nickname !== 'string') {
+    throw new TableRuleError('nickname must be text');
+  }
+
+  const normalized = nickname.replace(/\s+/g, ' ').trim();
+
+  if (normalized.length < MIN_NICKNAME_LENGTH || normalized.length > MAX_NICKNAME_LENGTH) {
+    throw new TableRuleError(`A nickname must be ${MIN_NICKNAME_LENGTH} to ${MAX_NICKNAME_LENGTH} characters`);
+  }
+
+  const cleaned = unLeet(normalized);
+  const words = cleaned.split(/[^a-z]+/);
+  const squashed = cleaned.replace(/[^a-z]/g, '');
+
+  if (
+    words.some(word => BLOCKED_WORDS.includes(word)) ||
+    BLOCKED_ANYWHERE.some(word => squashed.includes(word))
+  ) {
+    throw new TableRuleError('Please pick a different nickname');
+  }
+
+  return normalized;
+}
+
+// Check nobody else at the table already goes by this name (ignoring case), generated aliases included
+export function assertNicknameFree(table: Table, playerGuid: string, nickname: string): void {
+  const taken = table.players.some(player =>
+    player.playerGuid !== playerGuid && getPlayerAlias(player).toLowerCase() === nickname.toLowerCase()
+  );
+
+  if (taken) {
+    throw new TableRuleError(`Someone at this table is already called ${nickname}`);
+  }
+}
+
+// Check an avatar is one of the emojis or colours on offer
+export function validateAvatar(avatar: unknown): PlayerAvatar {
+  const candidate = avatar as Partial<{ emoji: unknown; color: unknown }> | null;
+
+  if (candidate && typeof candidate.emoji === 'string' && AVATAR_EMOJIS.includes(candidate.emoji)) {
+    return { emoji: candidate.emoji };
+  }
+
+  if (candidate && typeof candidate.color === 'string' && AVATAR_COLORS.includes(candidate.color)) {
+    return { color: candidate.color };
+  }
+
+  throw new TableRuleError('avatar must be one of the emojis or colours on offer');
+}
@@ -0,0 +1,117 @@
+import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { NextRequest, NextResponse } from 'next/server';
+import { Table, PlayerProfile } from './types';
+import { getProfile } from './profiles';
+
+// How long a player's seat cookie lasts
+const PLAYER_COOKIE_MAX_AGE = 7 * 24 * 60 * 60; // 7 days in seconds
+
+// How long a device remembers its profile
+const PROFILE_COOKIE_MAX_AGE = 365 * 24 * 60 * 60; // 1 year in seconds
+
+// Cookie remembering this device's player profile, shared by every table
+const PROFILE_COOKIE_NAME = 'dealme_profile';
+
+// Profile ids are the UUIDs the server hands out; the id is public, so it never works as a credential on its own
+const PROFILE_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+// How long a rejoin code shown by the host can be used
+export const REJOIN_CODE_LIFETIME_MS = 10 * 60 * 1000; // 10 minutes
+
+// Letters and digits that can't be mistaken for each other when read off the table screen
+const REJOIN_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const REJOIN_CODE_LENGTH = 6;
+
+// Create a short code the host can read out so a player can get back to their seat
+export function generateRejoinCode(): string {
+  let code = '';
+  for (let i = 0; i < REJOIN_CODE_LENGTH; i++) {
+    code += REJOIN_CODE_ALPHABET[crypto.randomInt(REJOIN_CODE_ALPHABET.length)];
+  }
+  return code;
+}
+
+// Tidy up a typed rejoin code (e.g., " abc 234" -> "ABC234")
+export function normalizeRejoinCode(code: string): string {
+  return code.replace(/\s+/g, '').toUpperCase();
+}
+
+// Cookie remembering which seat this device has at one table
+function getPlayerCookieName(tableGuid: string): string {
+  return `dealme_player_${tableGuid}`;
+}
+
+// Find the seat this device already has at the table, if it is still there
+export function getSessionPlayerGuid(request: NextRequest, table: Table): string | null {
+  const playerGuid = request.cookies.get(getPlayerCookieName(table.tableGuid))?.value;
+
+  if (!playerGuid) {
+    return null;
+  }
+
+  const player = table.players.find(p => p.playerGuid === playerGuid);
+  return player && !player.markedForRemoval ? playerGuid : null;
+}
+
+// Find the player this device last sat down as at the table, even if they have since left
+export function getLastPlayerGuid(request: NextRequest, table: Table): string | undefined {
+  return request.cookies.get(getPlayerCookieName(table.tableGuid))?.value;
+}
+
+// Remember the seat this device has at the table
+// The player guid is already the player's credential (it's in their page URL), so it is stored as is
+export function setPlayerCookie(response: NextResponse, tableGuid: string, playerGuid: string): void {
+  response.cookies.set(getPlayerCookieName(tableGuid), playerGuid, {
+    httpOnly: true,
+    sameSite: 'lax',
+    path: '/',
+    maxAge: PLAYER_COOKIE_MAX_AGE,
+  });
+}
+
+// Check whether a value is a profile id the server could have handed out
+export function isProfileId(value: unknown): value is string {
+  return typeof value === 'string' && PROFILE_ID_PATTERN.test(value);
+}
+
+// Create the id and secret of a new profile; the secret is stored with the profile and never sent to any client
+export function createProfileCredentials(): { profileId: string; secret: string } {
+  return { profileId: uuidv4(), secret: crypto.randomBytes(32).toString('hex') };
+}
+
+// The token a device presents for its profile: the profile id signed with the profile's secret
+function createProfileToken(profileId: string, secret: string): string {
+  return crypto.createHmac('sha256', secret).update(profileId).digest('hex');
+}
+
+// Find the profile this device sat down with before, if its cookie carries a valid token for it
+// Profiles saved before they had a secret can't be claimed, so those devices start a new profile
+export function getSessionProfile(request: NextRequest): PlayerProfile | null {
+  const [profileId, token] = (request.cookies.get(PROFILE_COOKIE_NAME)?.value ?? '').split('.');
+
+  if (!isProfileId(profileId) || !token) {
+    return null;
+  }
+
+  const profile = getProfile(profileId);
+
+  if (!profile?.secret) {
+    return null;
+  }
+
+  const expected = Buffer.from(createProfileToken(profileId, profile.secret));
+  const actual = Buffer.from(token);
+
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual) ? profile : null;
+}
+
+// Remember this device's profile for every table it sits down at from now on
+export function setProfileCookie(response: NextResponse, profileId: string, secret: string): void {
+  response.cookies.set(PROFILE_COOKIE_NAME, `${profileId}.${createProfileToken(profileId, secret)}`, {
+    httpOnly: true,
+    sameSite: 'lax',
+    path: '/',
+    maxAge: PROFILE_COOKIE_MAX_AGE,
+  });
+}
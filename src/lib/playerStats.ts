@@ -0,0 +1,129 @@
+import { HandHistoryEntry, PlayerStats, LeaderboardEntry, Table } from './types';
+import { evaluateHand, compareHands, EvaluatedHand } from './handEvaluator';
+import { getPlayerAlias } from './playerIdentity';
+
+// Running totals while going through a player's hands, turned into PlayerStats at the end
+type StatsTally = {
+  handsDealt: number;
+  handsWon: number;
+  bettingHands: number; // Hands dealt with chips in play, the ones VPIP is measured over
+  vpipHands: number;
+  showdownsSeen: number;
+  showdownsWon: number;
+  biggestPot: number;
+  bestHand: EvaluatedHand | null;
+  netResult: number;
+};
+
+// Pre-flop actions that put chips in by choice; posting a blind or an ante doesn't count
+const VOLUNTARY_ACTIONS = ['call', 'bet', 'raise'];
+
+function createTally(): StatsTally {
+  return {
+    handsDealt: 0,
+    handsWon: 0,
+    bettingHands: 0,
+    vpipHands: 0,
+    showdownsSeen: 0,
+    showdownsWon: 0,
+    biggestPot: 0,
+    bestHand: null,
+    netResult: 0,
+  };
+}
+
+// Add one recorded hand to a player's totals; hands they weren't dealt into are skipped
+function tallyHand(tally: StatsTally, entry: HandHistoryEntry, playerGuid: string): void {
+  const seat = entry.seats.find(s => s.playerGuid === playerGuid);
+
+  if (!seat || seat.holeCards.length === 0) {
+    return;
+  }
+
+  const won = (entry.winnings[playerGuid] ?? 0) > 0 || (entry.showdown?.winnerGuids.includes(playerGuid) ?? false);
+  tally.handsDealt++;
+  tally.handsWon += won ? 1 : 0;
+
+  if (entry.bettingEnabled) {
+    tally.bettingHands++;
+    tally.netResult += seat.endingStack - seat.startingStack;
+
+    const putInByChoice = entry.actions.some(action =>
+      action.playerGuid === playerGuid && action.phase === 'Pre-Flop' && VOLUNTARY_ACTIONS.includes(action.action)
+    );
+    tally.vpipHands += putInByChoice ? 1 : 0;
+
+    if ((entry.winnings[playerGuid] ?? 0) > 0) {
+      tally.biggestPot = Math.max(tally.biggestPot, entry.totalPot);
+    }
+  }
+
+  const shown = entry.endedBy === 'showdown' ? entry.showdown?.hands.find(hand => hand.playerGuid === playerGuid) : undefined;
+
+  if (shown) {
+    tally.showdownsSeen++;
+    tally.showdownsWon += entry.showdown!.winnerGuids.includes(playerGuid) ? 1 : 0;
+
+    if (shown.bestCards.length === 5) {
+      const made = evaluateHand(shown.bestCards);
+      if (!tally.bestHand || compareHands(made, tally.bestHand) > 0) {
+        tally.bestHand = made;
+      }
+    }
+  }
+}
+
+function toPlayerStats(tally: StatsTally): PlayerStats {
+  return {
+    handsDealt: tally.handsDealt,
+    handsWon: tally.handsWon,
+    vpip: tally.bettingHands > 0 ? Math.round((tally.vpipHands / tally.bettingHands) * 100) : null,
+    showdownsSeen: tally.showdownsSeen,
+    showdownsWon: tally.showdownsWon,
+    biggestPot: tally.biggestPot,
+    bestHand: tally.bestHand?.description ?? null,
+    netResult: tally.netResult,
+  };
+}
+
+// Work out a player's stats over one or more sessions, each the hands of one table played under one player guid
+export function computePlayerStats(sessions: { hands: HandHistoryEntry[]; playerGuid: string }[]): PlayerStats {
+  const tally = createTally();
+
+  for (const { hands, playerGuid } of sessions) {
+    for (const entry of hands) {
+      tallyHand(tally, entry, playerGuid);
+    }
+  }
+
+  return toPlayerStats(tally);
+}
+
+// Rank everyone dealt in at a table by their result there, best first; players who left keep the name they played under
+export function createLeaderboard(table: Table, hands: HandHistoryEntry[]): LeaderboardEntry[] {
+  const aliases = new Map<string, string>();
+
+  for (const entry of hands) {
+    for (const seat of entry.seats) {
+      aliases.set(seat.playerGuid, seat.playerAlias);
+    }
+  }
+
+  return Array.from(aliases.keys())
+    .map(playerGuid => {
+      const player = table.players.find(p => p.playerGuid === playerGuid);
+
+      return {
+        playerAlias: player ? getPlayerAlias(player) : aliases.get(playerGuid)!,
+        avatar: player?.avatar,
+        isSeated: player !== undefined && !player.markedForRemoval,
+        stats: computePlayerStats([{ hands, playerGuid }]),
+      };
+    })
+    .filter(entry => entry.stats.handsDealt > 0)
+    .sort((a, b) =>
+      b.stats.netResult - a.stats.netResult ||
+      b.stats.handsWon - a.stats.handsWon ||
+      a.stats.handsDealt - b.stats.handsDealt
+    );
+}
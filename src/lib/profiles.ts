@@ -0,0 +1,155 @@
+import {
+  Table,
+  PlayerProfile,
+  PlayerAvatar,
+  PlayerStats,
+  ProfileStats,
+  ProfileView,
+  ProfileSessionView,
+  HandHistoryEntry
+} from './types';
+import { getTableStore } from './tableStore';
+import { computePlayerStats } from './playerStats';
+import { generatePokerPlayerAlias } from '@/app/api/tables/playerNamer';
+import { generateTableName } from '@/app/api/tables/tableNamer';
+
+// Times a profile change is retried when it loses a race with another save
+const MAX_PROFILE_SAVE_ATTEMPTS = 3;
+
+// Get a player profile by id
+export function getProfile(profileId: string): PlayerProfile | null {
+  return getTableStore().getProfile(profileId);
+}
+
+// Read a profile (or start a new one under the given id), change it and save it, trying again if it changed meanwhile
+function updateProfile(profileId: string, update: (profile: PlayerProfile) => void): PlayerProfile {
+  for (let attempt = 1; ; attempt++) {
+    const profile = getProfile(profileId) ?? {
+      profileId,
+      nickname: null,
+      avatar: null,
+      sessions: [],
+      createdAt: new Date().toISOString(),
+      version: 0 // Not saved yet
+    };
+    const expectedVersion = profile.version;
+
+    update(profile);
+    profile.version = expectedVersion + 1;
+
+    if (getTableStore().putProfile(profile, expectedVersion)) {
+      return profile;
+    }
+
+    if (attempt >= MAX_PROFILE_SAVE_ATTEMPTS) {
+      throw new Error(`Profile ${profileId} changed while saving`);
+    }
+  }
+}
+
+// Remember the nickname and avatar a profile goes by, so every table it sits down at picks them up
+export function setProfileIdentity(profileId: string, nickname: string | null, avatar: PlayerAvatar | null): PlayerProfile {
+  return updateProfile(profileId, profile => {
+    profile.nickname = nickname;
+    profile.avatar = avatar;
+  });
+}
+
+// Note a seat taken under a profile (creating the profile the first time); a seat already noted is left alone
+export function addProfileSession(profileId: string, tableGuid: string, playerGuid: string): PlayerProfile {
+  return updateProfile(profileId, profile => addSession(profile, tableGuid, playerGuid));
+}
+
+// Note a player sitting down: the seat they took, and the nickname and avatar they sat down with
+// Leaving either out keeps the one the profile already has; a new profile keeps the secret its device's cookie is signed with
+export function recordSitDown(
+  profileId: string,
+  secret: string,
+  tableGuid: string,
+  playerGuid: string,
+  identity: { nickname?: string; avatar?: PlayerAvatar }
+): PlayerProfile {
+  return updateProfile(profileId, profile => {
+    profile.secret = profile.secret ?? secret;
+    profile.nickname = identity.nickname ?? profile.nickname;
+    profile.avatar = identity.avatar ?? profile.avatar;
+    addSession(profile, tableGuid, playerGuid);
+  });
+}
+
+// Add a seat to a profile's sessions unless it is already there
+function addSession(profile: PlayerProfile, tableGuid: string, playerGuid: string): void {
+  const isKnown = profile.sessions.some(session =>
+    session.tableGuid === tableGuid && session.playerGuid === playerGuid
+  );
+
+  if (!isKnown) {
+    profile.sessions.push({ tableGuid, playerGuid, joinedAt: new Date().toISOString() });
+  }
+}
+
+// Get the hands played in each of a profile's sessions, reading each table's history once
+function getSessionHands(profile: PlayerProfile): { hands: HandHistoryEntry[]; playerGuid: string }[] {
+  const histories = new Map<string, HandHistoryEntry[]>();
+
+  return profile.sessions.map(({ tableGuid, playerGuid }) => {
+    if (!histories.has(tableGuid)) {
+      histories.set(tableGuid, getTableStore().getHandHistory(tableGuid));
+    }
+
+    return { hands: histories.get(tableGuid) ?? [], playerGuid };
+  });
+}
+
+// A profile's stats over every session
+function getProfileStats(
+  profile: PlayerProfile,
+  sessionHands: { hands: HandHistoryEntry[]; playerGuid: string }[] = getSessionHands(profile)
+): ProfileStats {
+  return {
+    ...computePlayerStats(sessionHands),
+    tablesPlayed: new Set(profile.sessions.map(session => session.tableGuid)).size,
+  };
+}
+
+// View of a profile: who they are, their lifetime stats and their stats at each table they played at
+export function createProfileView(profile: PlayerProfile): ProfileView {
+  const store = getTableStore();
+  const sessionHands = getSessionHands(profile);
+
+  const sessions: ProfileSessionView[] = profile.sessions.map(({ tableGuid, playerGuid, joinedAt }, index) => {
+    const dealtIn = sessionHands[index].hands.filter(entry =>
+      entry.seats.some(seat => seat.playerGuid === playerGuid && seat.holeCards.length > 0)
+    );
+
+    return {
+      tableGuid,
+      tableName: generateTableName(tableGuid),
+      joinedAt,
+      lastHandAt: dealtIn.length > 0 ? dealtIn[dealtIn.length - 1].endedAt : null,
+      stats: computePlayerStats([sessionHands[index]]),
+      isSeated: store.get(tableGuid)?.players.some(player => player.playerGuid === playerGuid) ?? false,
+    };
+  });
+
+  return {
+    profileId: profile.profileId,
+    playerAlias: profile.nickname ?? generatePokerPlayerAlias(profile.profileId),
+    nickname: profile.nickname,
+    avatar: profile.avatar,
+    createdAt: profile.createdAt,
+    stats: getProfileStats(profile, sessionHands),
+    sessions: sessions.reverse(),
+  };
+}
+
+// Stats for a seated player: at this table, and over everything their profile has played
+export function getPlayerStats(table: Table, playerGuid: string): { session: PlayerStats; profile: ProfileStats | null } {
+  const player = table.players.find(p => p.playerGuid === playerGuid);
+  const profile = player?.profileId ? getProfile(player.profileId) : null;
+
+  return {
+    session: computePlayerStats([{ hands: getTableStore().getHandHistory(table.tableGuid), playerGuid }]),
+    profile: profile ? getProfileStats(profile) : null,
+  };
+}
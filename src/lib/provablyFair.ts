@@ -0,0 +1,104 @@
+import crypto from 'crypto';
+import { Card, HandHistoryEntry, ShuffleSeeds, ShuffleVerification } from './types';
+import { createDeck } from './cardUtils';
+
+// Longest client seed a player may contribute
+export const MAX_CLIENT_SEED_LENGTH = 64;
+
+// Joins the players' seeds; seeds may not contain it, so every set of seeds combines into a different string
+export const CLIENT_SEED_SEPARATOR = ':';
+
+// Create a fresh secret server seed and the hash published before the hand
+export function createShuffleSeeds(): ShuffleSeeds {
+  const serverSeed = crypto.randomBytes(32).toString('hex');
+
+  return {
+    serverSeed,
+    serverSeedHash: hashServerSeed(serverSeed),
+    clientSeeds: {},
+  };
+}
+
+// SHA-256 of the server seed, as hex
+export function hashServerSeed(serverSeed: string): string {
+  return crypto.createHash('sha256').update(serverSeed).digest('hex');
+}
+
+// Combine every player's seed into one string, ordered by player guid so anyone can rebuild it
+export function combineClientSeeds(clientSeeds: Record<string, string>): string {
+  return Object.keys(clientSeeds)
+    .sort()
+    .map(playerGuid => clientSeeds[playerGuid])
+    .join(CLIENT_SEED_SEPARATOR);
+}
+
+// Build a deterministic source of random integers from the seeds
+// Bytes come from HMAC-SHA256(serverSeed, `${clientSeed}:${counter}`), 4 bytes per draw
+function createSeededRandom(serverSeed: string, clientSeed: string): (max: number) => number {
+  let counter = 0;
+  let buffer: Buffer = Buffer.alloc(0);
+  let offset = 0;
+
+  const nextUint32 = (): number => {
+    if (offset + 4 > buffer.length) {
+      buffer = crypto.createHmac('sha256', serverSeed).update(`${clientSeed}:${counter++}`).digest();
+      offset = 0;
+    }
+    const value = buffer.readUInt32BE(offset);
+    offset += 4;
+    return value;
+  };
+
+  // Reject draws from the uneven tail so every index is equally likely
+  return (max: number): number => {
+    const limit = Math.floor(0x100000000 / max) * max;
+    let value = nextUint32();
+    while (value >= limit) {
+      value = nextUint32();
+    }
+    return value % max;
+  };
+}
+
+// Shuffle the deck with a Fisher-Yates permutation derived from the server and client seeds
+export function shuffleDeckWithSeeds(deck: Card[], serverSeed: string, clientSeed: string): Card[] {
+  const shuffled = [...deck];
+  const randomIndex = createSeededRandom(serverSeed, clientSeed);
+
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = randomIndex(i + 1);
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+
+  return shuffled;
+}
+
+// Re-derive a finished hand's deck from its revealed seeds and check it against what was dealt
+export function verifyHand(entry: HandHistoryEntry): ShuffleVerification | null {
+  if (!entry.shuffle) {
+    return null;
+  }
+
+  const { serverSeed, serverSeedHash, clientSeeds } = entry.shuffle;
+  const clientSeed = combineClientSeeds(clientSeeds);
+  const aliasOf = (playerGuid: string) =>
+    entry.seats.find(seat => seat.playerGuid === playerGuid)?.playerAlias ?? 'Unknown player';
+  const deck = shuffleDeckWithSeeds(createDeck(entry.deckOptions ?? {}), serverSeed, clientSeed);
+  const dealt = (entry.dealingOrder ?? []).map(dealtCard => dealtCard.card.code);
+
+  return {
+    tableGuid: entry.tableGuid,
+    handNumber: entry.handNumber,
+    serverSeed,
+    serverSeedHash,
+    clientSeeds: Object.keys(clientSeeds).sort().map(playerGuid => ({
+      playerAlias: aliasOf(playerGuid),
+      clientSeed: clientSeeds[playerGuid],
+    })),
+    clientSeed,
+    hashMatches: hashServerSeed(serverSeed) === serverSeedHash,
+    dealMatches: dealt.every((code, index) => deck[index]?.code === code),
+    deck: deck.map(card => card.code),
+    dealt,
+  };
+}
@@ -0,0 +1,177 @@
+import { Table, Player } from './types';
+
+// Get the player sitting in a seat, if it is taken
+export function getPlayerInSeat(table: Table, seat: number | null): Player | undefined {
+  return seat === null ? undefined : table.players.find(player => player.seat === seat);
+}
+
+// Get the seats nobody is sitting in, lowest first
+export function getEmptySeats(table: Table): number[] {
+  const taken = new Set(table.players.map(player => player.seat));
+  const empty: number[] = [];
+
+  for (let seat = 1; seat <= table.maxPlayers; seat++) {
+    if (!taken.has(seat)) {
+      empty.push(seat);
+    }
+  }
+
+  return empty;
+}
+
+// Put a player in the table's list, which is kept in seat order so it can be walked clockwise
+export function seatPlayer(table: Table, player: Player): void {
+  table.players.push(player);
+  table.players.sort((a, b) => a.seat - b.seat);
+}
+
+// Get every seated player in clockwise order, starting with the first occupied seat after fromSeat
+export function getPlayersClockwiseFrom(table: Table, fromSeat: number | null): Player[] {
+  const start = table.players.findIndex(player => player.seat > (fromSeat ?? 0));
+
+  if (start <= 0) {
+    return [...table.players];
+  }
+
+  return [...table.players.slice(start), ...table.players.slice(0, start)];
+}
+
+// A player who will be dealt into the next hand: not sitting out, not leaving and (with chips) not broke
+export function isSittingIn(table: Table, player: Player): boolean {
+  return !player.sittingOut && !player.markedForRemoval && (!table.bettingEnabled || player.stack > 0);
+}
+
+// Find the seat of the next player clockwise who is sitting in, or null if nobody is
+export function getNextActiveSeat(table: Table, fromSeat: number | null): number | null {
+  return getPlayersClockwiseFrom(table, fromSeat).find(player => isSittingIn(table, player))?.seat ?? null;
+}
+
+// Place the blinds relative to the button, moving the button on first if nobody is playing from its seat
+export function assignBlindSeats(table: Table): void {
+  const activeCount = table.players.filter(player => isSittingIn(table, player)).length;
+
+  if (table.players.length === 0) {
+    table.dealerSeat = null;
+    table.smallBlindSeat = null;
+    table.bigBlindSeat = null;
+    return;
+  }
+
+  // Nobody to deal to: leave everything where it is until someone sits in
+  if (activeCount === 0) {
+    return;
+  }
+
+  const dealer = getPlayerInSeat(table, table.dealerSeat);
+  if (!dealer || !isSittingIn(table, dealer)) {
+    table.dealerSeat = getNextActiveSeat(table, table.dealerSeat);
+  }
+
+  if (activeCount === 1) {
+    // Only one player, they have all positions (theoretical)
+    table.smallBlindSeat = table.dealerSeat;
+    table.bigBlindSeat = table.dealerSeat;
+  } else if (activeCount === 2) {
+    // Heads-up play: the button has the small blind, the other player has the big blind
+    table.smallBlindSeat = table.dealerSeat;
+    table.bigBlindSeat = getNextActiveSeat(table, table.dealerSeat);
+  } else {
+    // Small blind is the next player sitting in left of the button, big blind the one after that
+    table.smallBlindSeat = getNextActiveSeat(table, table.dealerSeat);
+    table.bigBlindSeat = getNextActiveSeat(table, table.smallBlindSeat);
+  }
+}
+
+// Get the sitting-out players whose seats lie strictly between two seats, going clockwise
+function getSittingOutBetween(table: Table, fromSeat: number | null, toSeat: number | null): Player[] {
+  if (fromSeat === null || toSeat === null || fromSeat === toSeat) {
+    return [];
+  }
+
+  const distance = (seat: number) => (seat - fromSeat + table.maxPlayers) % table.maxPlayers;
+  return table.players.filter(player =>
+    player.sittingOut && !player.markedForRemoval && distance(player.seat) > 0 && distance(player.seat) < distance(toSeat)
+  );
+}
+
+// Move the button on for the next hand following the table's button rule, then note the blinds
+// that passed players who are sitting out so they post them when they come back
+export function moveButton(table: Table): void {
+  const previousSmallBlind = table.smallBlindSeat;
+  const previousBigBlind = table.bigBlindSeat;
+  const activeCount = table.players.filter(player => isSittingIn(table, player)).length;
+  const nextBigBlind = getNextActiveSeat(table, previousBigBlind);
+
+  // Dead button: the big blind moves on one player and the small blind and button follow it,
+  // even onto seats nobody is playing from. Heads-up always uses the moving button.
+  const useDeadButton = table.buttonRule === 'dead' && activeCount > 2 &&
+    previousSmallBlind !== null && previousBigBlind !== null &&
+    nextBigBlind !== previousSmallBlind && nextBigBlind !== previousBigBlind;
+
+  if (useDeadButton) {
+    table.dealerSeat = previousSmallBlind;
+    table.smallBlindSeat = previousBigBlind;
+    table.bigBlindSeat = nextBigBlind;
+  } else {
+    table.dealerSeat = getNextActiveSeat(table, table.dealerSeat);
+    assignBlindSeats(table);
+  }
+
+  // Missed blinds only matter when chips are being tracked
+  if (!table.bettingEnabled) {
+    return;
+  }
+
+  for (const player of getSittingOutBetween(table, previousBigBlind, table.bigBlindSeat)) {
+    addMissedBlind(player, 'big');
+  }
+  for (const player of getSittingOutBetween(table, previousSmallBlind, table.smallBlindSeat)) {
+    addMissedBlind(player, 'small');
+  }
+
+  // Under the dead button the small blind can land on a player who is sitting out
+  const smallBlindPlayer = getPlayerInSeat(table, table.smallBlindSeat);
+  if (smallBlindPlayer?.sittingOut) {
+    addMissedBlind(smallBlindPlayer, 'small');
+  }
+}
+
+// Note a blind the player skipped while sitting out
+export function addMissedBlind(player: Player, blind: 'small' | 'big'): void {
+  player.missedBlinds = {
+    small: blind === 'small' || (player.missedBlinds?.small ?? false),
+    big: blind === 'big' || (player.missedBlinds?.big ?? false),
+  };
+}
+
+// Tables saved before seats were numbered kept players in join order and positions as indices
+// Give each player the seat matching their old place and turn the positions into seat numbers
+export function migrateLegacySeats(table: Table): Table {
+  if (table.players.every(player => typeof player.seat === 'number') && 'dealerSeat' in table) {
+    return table;
+  }
+
+  const legacy = table as Table & {
+    dealerPosition?: number;
+    smallBlindPosition?: number;
+    bigBlindPosition?: number;
+    actionPosition?: number | null;
+  };
+  const seatAt = (index: number | null | undefined) =>
+    index === null || index === undefined ? null : table.players[index] ? index + 1 : null;
+
+  table.players.forEach((player, index) => {
+    player.seat = index + 1;
+  });
+  table.dealerSeat = seatAt(legacy.dealerPosition);
+  table.smallBlindSeat = seatAt(legacy.smallBlindPosition);
+  table.bigBlindSeat = seatAt(legacy.bigBlindPosition);
+  table.actionSeat = seatAt(legacy.actionPosition);
+
+  delete legacy.dealerPosition;
+  delete legacy.smallBlindPosition;
+  delete legacy.bigBlindPosition;
+  delete legacy.actionPosition;
+
+  return table;
+}
@@ -0,0 +1,171 @@
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { Table, HandHistoryEntry, MultiTableTournament, PlayerProfile } from './types';
+import type { TableStore } from './tableStore';
+
+const DEFAULT_DATABASE_PATH = path.join(process.cwd(), 'tables', 'dealme.sqlite');
+
+// Stores tables in an embedded SQLite database, with players indexed by guid
+export class SqliteTableStore implements TableStore {
+  private readonly db: Database.Database;
+
+  constructor(databasePath: string = DEFAULT_DATABASE_PATH) {
+    if (databasePath !== ':memory:') {
+      fs.mkdirSync(path.dirname(databasePath), { recursive: true });
+    }
+
+    this.db = new Database(databasePath);
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS tables (
+        table_guid TEXT PRIMARY KEY,
+        version INTEGER NOT NULL,
+        data TEXT NOT NULL
+      );
+      CREATE TABLE IF NOT EXISTS table_players (
+        player_guid TEXT PRIMARY KEY,
+        table_guid TEXT NOT NULL REFERENCES tables(table_guid) ON DELETE CASCADE
+      );
+      CREATE INDEX IF NOT EXISTS table_players_by_table ON table_players(table_guid);
+      CREATE TABLE IF NOT EXISTS hand_history (
+        table_guid TEXT NOT NULL,
+        hand_number INTEGER NOT NULL,
+        data TEXT NOT NULL,
+        PRIMARY KEY (table_guid, hand_number)
+      );
+      CREATE TABLE IF NOT EXISTS tournaments (
+        tournament_guid TEXT PRIMARY KEY,
+        version INTEGER NOT NULL,
+        data TEXT NOT NULL
+      );
+      CREATE TABLE IF NOT EXISTS profiles (
+        profile_id TEXT PRIMARY KEY,
+        version INTEGER NOT NULL,
+        data TEXT NOT NULL
+      );
+    `);
+  }
+
+  getAll(): Table[] {
+    const rows = this.db.prepare('SELECT data FROM tables').all() as { data: string }[];
+    return rows.map(row => JSON.parse(row.data));
+  }
+
+  get(tableGuid: string): Table | null {
+    const row = this.db.prepare('SELECT data FROM tables WHERE table_guid = ?').get(tableGuid) as
+      { data: string } | undefined;
+    return row ? JSON.parse(row.data) : null;
+  }
+
+  // Uses the player index instead of scanning every table
+  findByPlayer(playerGuid: string): Table | null {
+    const row = this.db.prepare(`
+      SELECT t.data FROM table_players p
+      JOIN tables t ON t.table_guid = p.table_guid
+      WHERE p.player_guid = ?
+    `).get(playerGuid) as { data: string } | undefined;
+    return row ? JSON.parse(row.data) : null;
+  }
+
+  put(table: Table, expectedVersion: number): boolean {
+    const write = this.db.transaction((): boolean => {
+      const row = this.db.prepare('SELECT version FROM tables WHERE table_guid = ?').get(table.tableGuid) as
+        { version: number } | undefined;
+
+      if ((row?.version ?? 0) !== expectedVersion) {
+        return false;
+      }
+
+      this.db.prepare(`
+        INSERT INTO tables (table_guid, version, data) VALUES (?, ?, ?)
+        ON CONFLICT(table_guid) DO UPDATE SET version = excluded.version, data = excluded.data
+      `).run(table.tableGuid, table.version, JSON.stringify(table));
+
+      // Rebuild this table's slice of the player index
+      this.db.prepare('DELETE FROM table_players WHERE table_guid = ?').run(table.tableGuid);
+      const indexPlayer = this.db.prepare(
+        'INSERT OR REPLACE INTO table_players (player_guid, table_guid) VALUES (?, ?)'
+      );
+      for (const player of table.players) {
+        indexPlayer.run(player.playerGuid, table.tableGuid);
+      }
+
+      return true;
+    });
+
+    return write.immediate();
+  }
+
+  delete(tableGuid: string): void {
+    this.db.transaction(() => {
+      this.db.prepare('DELETE FROM table_players WHERE table_guid = ?').run(tableGuid);
+      this.db.prepare('DELETE FROM tables WHERE table_guid = ?').run(tableGuid);
+    })();
+  }
+
+  addHandHistory(entry: HandHistoryEntry): void {
+    this.db.prepare(
+      'INSERT OR IGNORE INTO hand_history (table_guid, hand_number, data) VALUES (?, ?, ?)'
+    ).run(entry.tableGuid, entry.handNumber, JSON.stringify(entry));
+  }
+
+  getHandHistory(tableGuid: string): HandHistoryEntry[] {
+    const rows = this.db.prepare(
+      'SELECT data FROM hand_history WHERE table_guid = ? ORDER BY hand_number'
+    ).all(tableGuid) as { data: string }[];
+    return rows.map(row => JSON.parse(row.data));
+  }
+
+  getMultiTableTournament(tournamentGuid: string): MultiTableTournament | null {
+    const row = this.db.prepare('SELECT data FROM tournaments WHERE tournament_guid = ?').get(tournamentGuid) as
+      { data: string } | undefined;
+    return row ? JSON.parse(row.data) : null;
+  }
+
+  putMultiTableTournament(tournament: MultiTableTournament, expectedVersion: number): boolean {
+    const write = this.db.transaction((): boolean => {
+      const row = this.db.prepare('SELECT version FROM tournaments WHERE tournament_guid = ?')
+        .get(tournament.tournamentGuid) as { version: number } | undefined;
+
+      if ((row?.version ?? 0) !== expectedVersion) {
+        return false;
+      }
+
+      this.db.prepare(`
+        INSERT INTO tournaments (tournament_guid, version, data) VALUES (?, ?, ?)
+        ON CONFLICT(tournament_guid) DO UPDATE SET version = excluded.version, data = excluded.data
+      `).run(tournament.tournamentGuid, tournament.version, JSON.stringify(tournament));
+
+      return true;
+    });
+
+    return write.immediate();
+  }
+
+  getProfile(profileId: string): PlayerProfile | null {
+    const row = this.db.prepare('SELECT data FROM profiles WHERE profile_id = ?').get(profileId) as
+      { data: string } | undefined;
+    return row ? JSON.parse(row.data) : null;
+  }
+
+  putProfile(profile: PlayerProfile, expectedVersion: number): boolean {
+    const write = this.db.transaction((): boolean => {
+      const row = this.db.prepare('SELECT version FROM profiles WHERE profile_id = ?')
+        .get(profile.profileId) as { version: number } | undefined;
+
+      if ((row?.version ?? 0) !== expectedVersion) {
+        return false;
+      }
+
+      this.db.prepare(`
+        INSERT INTO profiles (profile_id, version, data) VALUES (?, ?, ?)
+        ON CONFLICT(profile_id) DO UPDATE SET version = excluded.version, data = excluded.data
+      `).run(profile.profileId, profile.version, JSON.stringify(profile));
+
+      return true;
+    });
+
+    return write.immediate();
+  }
+}
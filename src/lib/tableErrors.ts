@@ -0,0 +1,10 @@
+// Thrown when a player asks for something the rules or the state of the table don't allow, like acting out of turn
+// Routes answer these with a 4xx; any other error is the server's fault
+export class TableRuleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TableRuleError';
+    // Keeps instanceof working when compiled down to ES5, where subclassing Error loses the prototype
+    Object.setPrototypeOf(this, TableRuleError.prototype);
+  }
+}
@@ -0,0 +1,21 @@
+import { EventEmitter } from 'events';
+
+// Keep a single emitter across hot reloads and route bundles in the same server process
+const globalForEvents = globalThis as unknown as { tableEvents?: EventEmitter };
+
+const tableEvents = globalForEvents.tableEvents ?? new EventEmitter();
+tableEvents.setMaxListeners(0); // One listener per open stream, so no sensible limit
+globalForEvents.tableEvents = tableEvents;
+
+// Notify listeners that a table was saved or deleted
+export function emitTableChange(tableGuid: string): void {
+  tableEvents.emit('change', tableGuid);
+}
+
+// Listen for table changes, returning a function that stops listening
+export function onTableChange(listener: (tableGuid: string) => void): () => void {
+  tableEvents.on('change', listener);
+  return () => {
+    tableEvents.off('change', listener);
+  };
+}
@@ -1,20 +1,137 @@
-import fs from 'fs';
-import path from 'path';
 import { v4 as uuidv4 } from 'uuid';
-import { Table, Player, GamePhase, Card } from './types';
-import { createDeck, shuffleDeck, dealCards } from './cardUtils';
+import {
+  Table,
+  Player,
+  PlayerAvatar,
+  GamePhase,
+  Card,
+  ShowdownResult,
+  BettingAction,
+  TableOptions,
+  HandHistoryEntry,
+  DealtCard,
+  MissedBlinds
+} from './types';
+import { createDeck, dealCards } from './cardUtils';
+import {
+  createShuffleSeeds,
+  combineClientSeeds,
+  shuffleDeckWithSeeds,
+  MAX_CLIENT_SEED_LENGTH,
+  CLIENT_SEED_SEPARATOR
+} from './provablyFair';
+import { createHostSecret, createHandoffCode, hashOneTimeCode, HANDOFF_CODE_LIFETIME_MS } from './hostAuth';
+import { generateRejoinCode, normalizeRejoinCode, REJOIN_CODE_LIFETIME_MS } from './playerSession';
+import { compareHands } from './handEvaluator';
+import {
+  getTableVariant,
+  getNextVariant,
+  getNextStreet,
+  getCardsKept,
+  evaluatePlayerHand
+} from './gameVariants';
+import { resolveTableSettings, validateTableSettings, getTableSettings, applyTableSettings } from './tableSettings';
+import { setTournamentStructure, applyTournamentLevel, setClockRunning } from './tournament';
+import { recordLedgerEntry, hasCashedOut, isLedgerKept, openLedger } from './ledger';
+import { getPlayerAlias, assertNicknameFree } from './playerIdentity';
+import { addProfileSession } from './profiles';
+import { emitTableChange } from './tableEvents';
+import { getTableStore } from './tableStore';
+import { TableRuleError } from './tableErrors';
+import {
+  getEmptySeats,
+  seatPlayer,
+  assignBlindSeats,
+  moveButton,
+  getPlayerInSeat,
+  isSittingIn,
+  addMissedBlind,
+  migrateLegacySeats
+} from './seats';
+import { startHandRecord, recordAction, recordDealtCards, createHistoryEntry } from './handHistory';
+import {
+  postBlinds,
+  startBettingRound,
+  applyBettingAction,
+  foldPlayer,
+  getLivePlayers,
+  getPendingDiscards,
+  isInHand,
+  isHandDecided,
+  distributePot,
+  refundBets,
+  resetBettingState
+} from './betting';
 
-const TABLES_DIR = path.join(process.cwd(), 'tables');
+// Thrown when a table was saved by someone else since it was read
+export class StaleTableError extends Error {
+  constructor(tableGuid: string, expectedVersion: number, actualVersion: number) {
+    super(`Table ${tableGuid} changed while saving (expected version ${expectedVersion}, found ${actualVersion})`);
+    this.name = 'StaleTableError';
+  }
+}
+
+// Pending mutations per table, shared across route bundles in the same server process
+const globalForQueues = globalThis as unknown as { tableQueues?: Map<string, Promise<void>> };
+const tableQueues = globalForQueues.tableQueues ?? new Map<string, Promise<void>>();
+globalForQueues.tableQueues = tableQueues;
 
-// Ensure tables directory exists
-if (!fs.existsSync(TABLES_DIR)) {
-  fs.mkdirSync(TABLES_DIR, { recursive: true });
+// How many times to re-read and re-apply a mutation that lost a race with another process
+const MAX_MUTATION_ATTEMPTS = 3;
+
+// Run fn once every earlier mutation of the same table has finished
+// Multi-table tournaments queue on their own guid, which never matches a table's
+export function withTableLock<T>(tableGuid: string, fn: () => T | Promise<T>): Promise<T> {
+  const previous = tableQueues.get(tableGuid) || Promise.resolve();
+  const run = previous.then(fn);
+  const settled = run.then(() => undefined, () => undefined);
+  
+  tableQueues.set(tableGuid, settled);
+  
+  // Drop the queue entry once it's idle so the map doesn't grow forever
+  settled.then(() => {
+    if (tableQueues.get(tableGuid) === settled) {
+      tableQueues.delete(tableGuid);
+    }
+  });
+  
+  return run;
 }
 
-// Create a new table
-export function createTable(): Table {
+// Read, change and save a table as one serialized step
+function mutateTable<T>(tableGuid: string, mutate: (table: Table) => T): Promise<T> {
+  return withTableLock(tableGuid, () => {
+    for (let attempt = 1; ; attempt++) {
+      const table = getTable(tableGuid);
+      
+      if (!table) {
+        throw new Error(`Table with guid ${tableGuid} not found`);
+      }
+      
+      const result = mutate(table);
+      
+      try {
+        saveTable(table);
+        return result;
+      } catch (error) {
+        // Another process saved first: start again from its version
+        if (error instanceof StaleTableError && attempt < MAX_MUTATION_ATTEMPTS) {
+          continue;
+        }
+        throw error;
+      }
+    }
+  });
+}
+
+// Create a new table, optionally as one of a multi-table tournament's tables
+export function createTable(options: TableOptions = {}, tournamentGuid?: string): Table {
+  const settings = resolveTableSettings(options);
+  const deckOptions = { jokers: settings.jokers, deucesWild: settings.deucesWild };
   const tableGuid = uuidv4();
-  const deck = shuffleDeck(createDeck());
+  
+  // The deck is shuffled from the committed seeds when the first hand is dealt
+  const deck = createDeck(deckOptions);
   
   const table: Table = {
     tableGuid,
@@ -23,12 +140,43 @@ export function createTable(): Table {
     players: [],
     deck,
     handNumber: 0, // Start with hand #0
-    maxPlayers: 10,
-    bigBlindPosition: 0, // Initialize big blind at first position
-    smallBlindPosition: 0, // Initialize small blind at first position (will be updated when players join)
-    dealerPosition: 0 // Initialize dealer button at first position
+    maxPlayers: settings.maxPlayers,
+    bigBlindSeat: null, // Placed when the first player sits down
+    smallBlindSeat: null,
+    dealerSeat: null,
+    buttonRule: settings.buttonRule,
+    version: 0, // Not saved yet
+    bettingEnabled: settings.bettingEnabled,
+    smallBlind: settings.smallBlind,
+    bigBlind: settings.bigBlind,
+    ante: 0,
+    startingStack: settings.startingStack,
+    pot: 0,
+    currentBet: 0,
+    minRaise: settings.bigBlind,
+    actionSeat: null,
+    variant: settings.variant,
+    deckOptions,
+    burnCards: settings.burnCards,
+    burnedCards: [],
+    shuffleSeeds: createShuffleSeeds(),
+    hostSecret: createHostSecret(),
+    variantRotation: settings.variantRotation,
+    handsInVariant: 0,
+    showHandsAtShowdown: settings.showHandsAtShowdown,
+    oddsOverlay: settings.oddsOverlay,
+    handStrengthHint: settings.handStrengthHint,
+    autoAdvance: settings.autoAdvance,
+    ledger: []
   };
   
+  // Tournament tables take their blinds and starting stack from the first level
+  setTournamentStructure(table, settings.tournament);
+  
+  if (tournamentGuid) {
+    table.tournamentGuid = tournamentGuid;
+  }
+  
   // Save the table to disk
   saveTable(table);
   
@@ -37,397 +185,841 @@ export function createTable(): Table {
 
 // Get all tables
 export function getAllTables(): Table[] {
-  if (!fs.existsSync(TABLES_DIR)) {
-    return [];
-  }
-  
-  const tableFiles = fs.readdirSync(TABLES_DIR)
-    .filter(file => file.endsWith('.json'));
-  
-  const tables: Table[] = [];
-  
-  for (const file of tableFiles) {
-    const filePath = path.join(TABLES_DIR, file);
-    const tableData = fs.readFileSync(filePath, 'utf-8');
-    tables.push(JSON.parse(tableData));
-  }
-  
-  return tables;
+  return getTableStore().getAll().map(migrateLegacySeats);
 }
 
 // Get a single table by guid
 export function getTable(tableGuid: string): Table | null {
-  const filePath = path.join(TABLES_DIR, `${tableGuid}.json`);
-  
-  if (!fs.existsSync(filePath)) {
-    return null;
-  }
-  
-  const tableData = fs.readFileSync(filePath, 'utf-8');
-  return JSON.parse(tableData);
+  const table = getTableStore().get(tableGuid);
+  return table && migrateLegacySeats(table);
 }
 
-// Save a table to disk
+// Save a table, rejecting the write if the table changed since it was read
 export function saveTable(table: Table): void {
-  const filePath = path.join(TABLES_DIR, `${table.tableGuid}.json`);
-  fs.writeFileSync(filePath, JSON.stringify(table, null, 2));
-}
-
-// Add a player to a table
-export function addPlayer(tableGuid: string): { player: Player; table: Table } {
-  const table = getTable(tableGuid);
+  const store = getTableStore();
+  const expectedVersion = table.version ?? 0;
   
-  if (!table) {
-    throw new Error(`Table with guid ${tableGuid} not found`);
-  }
+  table.version = expectedVersion + 1;
   
-  if (table.players.length >= table.maxPlayers) {
-    throw new Error(`Table is full (${table.maxPlayers} players maximum)`);
+  if (!store.put(table, expectedVersion)) {
+    table.version = expectedVersion;
+    throw new StaleTableError(table.tableGuid, expectedVersion, store.get(table.tableGuid)?.version ?? 0);
   }
   
-  // Create a new player
-  const playerGuid = uuidv4();
-  
-  // Create the player with empty pocket cards initially
-  const player: Player = {
-    playerGuid,
-    pocketCards: []
-  };
-  
-  // Only deal cards if we're in a hand
-  if (table.gamePhase !== 'Waiting') {
-    // Deal two pocket cards to the player
-    const { cards: pocketCards, remainingDeck } = dealCards(table.deck, 2);
-    player.pocketCards = pocketCards;
-    table.deck = remainingDeck;
-  }
-  
-  // Update the table
-  table.players.push(player);
-  
-  // Only update positions when a player joins if game is in Waiting state or it's the first player
-  if (table.players.length === 1) {
-    // First player gets all positions
-    table.dealerPosition = 0;
-    table.bigBlindPosition = 0;
-    table.smallBlindPosition = 0;
-  } else if (table.gamePhase === 'Waiting') {
-    // Only adjust positions if game is in waiting state (between hands)
-    if (table.players.length === 2) {
-      // In heads-up (2 players), we follow heads-up rules
-      // The dealer/button has the small blind, the other player has the big blind
-      table.dealerPosition = 0;
-      table.smallBlindPosition = 0;
-      table.bigBlindPosition = 1;
-    } else {
-      // For more than 2 players, properly set all positions
-      // Small blind is to the left of the dealer
-      table.smallBlindPosition = (table.dealerPosition + 1) % table.players.length;
-      // Big blind is to the left of the small blind
-      table.bigBlindPosition = (table.smallBlindPosition + 1) % table.players.length;
+  emitTableChange(table.tableGuid);
+}
+
+// Add a player to a table, in the seat they picked or the first empty one, with the nickname and avatar they chose
+// A player who cashed out earlier (returningPlayerGuid) sits down under the same guid, as a rebuy
+// Players are linked to their device's profile, or to a new one if the device doesn't have one yet
+export function addPlayer(
+  tableGuid: string,
+  seat?: number,
+  returningPlayerGuid?: string,
+  identity: { nickname?: string; avatar?: PlayerAvatar; profileId?: string } = {}
+): Promise<{ player: Player; table: Table }> {
+  return mutateTable(tableGuid, table => {
+    const emptySeats = getEmptySeats(table);
+    
+    if (emptySeats.length === 0) {
+      throw new TableRuleError(`Table is full (${table.maxPlayers} players maximum)`);
     }
-  }
-  // If it's during an active hand (not 'Waiting'), keep the positions as they are
-  // This ensures blinds and dealer don't move when a player sits down mid-hand
-  
-  // Save the updated table
-  saveTable(table);
-  
-  return { player, table };
+    
+    if (seat !== undefined && !emptySeats.includes(seat)) {
+      throw new TableRuleError(
+        seat >= 1 && seat <= table.maxPlayers ? `Seat ${seat} is taken` : `Seat must be between 1 and ${table.maxPlayers}`
+      );
+    }
+    
+    // Create a new player, or bring back one who left so the ledger keeps one line per person
+    const isRebuy = returningPlayerGuid !== undefined && hasCashedOut(table, returningPlayerGuid);
+    const playerGuid = isRebuy ? returningPlayerGuid : uuidv4();
+    
+    if (identity.nickname !== undefined) {
+      assertNicknameFree(table, playerGuid, identity.nickname);
+    }
+    
+    // Create the player with empty pocket cards initially
+    const player: Player = {
+      playerGuid,
+      seat: seat ?? emptySeats[0],
+      pocketCards: [],
+      playerAlias: identity.nickname,
+      avatar: identity.avatar,
+      profileId: identity.profileId ?? uuidv4(),
+      stack: table.startingStack,
+      currentBet: 0,
+      totalBet: 0
+    };
+    
+    // Only deal cards if we're in a hand, and never mid-hand when betting (the blinds are already in)
+    if (table.gamePhase !== 'Waiting' && !table.bettingEnabled) {
+      // Deal a full hand, or the cards that would be kept once the discards are done
+      const variant = getTableVariant(table);
+      const cardCount = table.gamePhase === 'Pre-Flop' ? variant.holeCards : getCardsKept(variant);
+      player.pocketCards = dealFromDeck(table, cardCount, 'player', playerGuid);
+    }
+    
+    // Update the table
+    seatPlayer(table, player);
+    recordLedgerEntry(table, playerGuid, isRebuy ? 'rebuy' : 'buy-in', player.stack);
+    
+    // Place the button and blinds around the new player, but never move them during a hand
+    if (table.players.length === 1 || table.gamePhase === 'Waiting') {
+      assignBlindSeats(table);
+    }
+    
+    return { player, table };
+  });
 }
 
 // Advance to the next game phase
-export function advanceGamePhase(tableGuid: string): Table {
-  const table = getTable(tableGuid);
-  
-  if (!table) {
-    throw new Error(`Table with guid ${tableGuid} not found`);
-  }
-  
-  switch (table.gamePhase) {
-    case 'Waiting':
-      // Deal pocket cards to all players (start the hand)
-      dealPocketCards(table);
-      table.gamePhase = 'Pre-Flop';
-      break;
-      
-    case 'Pre-Flop':
-      // Deal the flop (3 community cards)
-      const flopResult = dealCards(table.deck, 3);
-      table.communityCards = flopResult.cards;
-      table.deck = flopResult.remainingDeck;
-      table.gamePhase = 'Flop';
-      break;
-      
-    case 'Flop':
-      // Deal the turn (1 more community card)
-      const turnResult = dealCards(table.deck, 1);
-      table.communityCards = [...table.communityCards, ...turnResult.cards];
-      table.deck = turnResult.remainingDeck;
-      table.gamePhase = 'Turn';
-      break;
-      
-    case 'Turn':
-      // Deal the river (1 more community card)
-      const riverResult = dealCards(table.deck, 1);
-      table.communityCards = [...table.communityCards, ...riverResult.cards];
-      table.deck = riverResult.remainingDeck;
-      table.gamePhase = 'River';
-      break;
+export function advanceGamePhase(tableGuid: string): Promise<Table> {
+  return mutateTable(tableGuid, table => {
+    let finishedHand: HandHistoryEntry | null = null;
+    
+    if (table.gamePhase !== 'Waiting' && table.gamePhase !== 'Showdown') {
+      // The host can't deal the next street while players still have decisions to make
+      if (table.bettingEnabled && table.actionSeat !== null) {
+        throw new TableRuleError('The current betting round is not complete');
+      }
       
-    case 'River':
-      // Reset to waiting state
-      resetToWaitingState(table);
-      break;
+      // Everyone else folded: any pot has been awarded, so the hand ends without dealing the rest of the board
+      if (isHandDecided(table) || (table.bettingEnabled && getLivePlayers(table).length <= 1)) {
+        finishedHand = resetToWaitingState(table);
+        return { table, finishedHand };
+      }
+    }
+    
+    switch (table.gamePhase) {
+      case 'Waiting':
+        // Deal pocket cards to all players (start the hand)
+        shuffleForHand(table);
+        startHandRecord(table);
+        table.gamePhase = 'Pre-Flop';
+        dealPocketCards(table);
+        if (table.bettingEnabled) {
+          // Posting clears the blinds players owe, so note them first for the hand record
+          const missedBlinds = Object.fromEntries(table.players.map(player => [player.playerGuid, player.missedBlinds]));
+          postBlinds(table);
+          recordBlinds(table, missedBlinds);
+        }
+        break;
+        
+      case 'Showdown':
+        // Reset to waiting state
+        finishedHand = resetToWaitingState(table);
+        break;
+        
+      default: {
+        // Everyone still in the hand has to discard before the flop is dealt
+        if (table.gamePhase === 'Pre-Flop' && getPendingDiscards(table).length > 0) {
+          throw new TableRuleError('Waiting for players to discard');
+        }
+        
+        // Deal the variant's next street, or reveal and rank the hands once the board is complete
+        const street = getNextStreet(getTableVariant(table), table.gamePhase);
+        
+        if (!street) {
+          table.showdown = resolveShowdown(table);
+          table.gamePhase = 'Showdown';
+          break;
+        }
+        
+        table.gamePhase = street.phase;
+        if (table.burnCards) {
+          table.burnedCards = [...(table.burnedCards ?? []), ...dealFromDeck(table, 1, 'burn')];
+        }
+        table.communityCards = [...table.communityCards, ...dealFromDeck(table, street.cards, 'board')];
+        if (table.bettingEnabled) {
+          startBettingRound(table);
+        }
+        break;
+      }
+    }
+    
+    return { table, finishedHand };
+  }).then(recordFinishedHand);
+}
+
+// Add a finished hand to the table's history once the table it was cleared from has been saved
+// (the mutation can be retried or fail to save, and a hand must only be recorded once it really ended)
+function recordFinishedHand({ table, finishedHand }: { table: Table; finishedHand: HandHistoryEntry | null }): Table {
+  if (finishedHand) {
+    getTableStore().addHandHistory(finishedHand);
   }
   
-  // Save the updated table
-  saveTable(table);
-  
   return table;
 }
 
+// Shuffle a fresh deck from the committed server seed and the seeds of the players seated now
+function shuffleForHand(table: Table): void {
+  const seeds = table.shuffleSeeds ?? createShuffleSeeds();
+  const clientSeeds: Record<string, string> = {};
+  
+  for (const player of table.players) {
+    const seed = seeds.clientSeeds[player.playerGuid];
+    if (seed !== undefined) {
+      clientSeeds[player.playerGuid] = seed;
+    }
+  }
+  
+  table.shuffleSeeds = { ...seeds, clientSeeds };
+  table.deck = shuffleDeckWithSeeds(createDeck(table.deckOptions), seeds.serverSeed, combineClientSeeds(clientSeeds));
+}
+
+// Deal cards off the top of the deck, recording where each one went
+function dealFromDeck(table: Table, count: number, destination: DealtCard['destination'], playerGuid?: string): Card[] {
+  const { cards, remainingDeck } = dealCards(table.deck, count);
+  table.deck = remainingDeck;
+  recordDealtCards(table, cards, destination, playerGuid);
+  return cards;
+}
+
 // Deal pocket cards to all players
 function dealPocketCards(table: Table): void {
   // No need to generate a new hand ID since we're using handNumber now
   
   // Deal new pocket cards to all players
   for (const player of table.players) {
-    const { cards, remainingDeck } = dealCards(table.deck, 2);
-    player.pocketCards = cards;
-    table.deck = remainingDeck;
+    // Players who are sitting out or out of chips are dealt out
+    if (!isSittingIn(table, player)) {
+      continue;
+    }
+    
+    player.pocketCards = dealFromDeck(table, getTableVariant(table).holeCards, 'player', player.playerGuid);
   }
 }
 
-// Update dealer button and blind positions according to poker rules
-function updateBlindPositions(table: Table): void {
-  const numPlayers = table.players.length;
+// Log the antes and blinds posted at the start of a hand
+// missedBlinds holds what each player owed from sitting out before the blinds went in
+function recordBlinds(table: Table, missedBlinds: Record<string, MissedBlinds | undefined>): void {
+  const ante = table.ante ?? 0;
   
-  if (numPlayers === 0) {
-    // No players, reset all positions to 0
-    table.dealerPosition = 0;
-    table.bigBlindPosition = 0;
-    table.smallBlindPosition = 0;
-    return;
+  // Everyone dealt in puts in the ante first, or as much of it as they had
+  if (ante > 0) {
+    for (const player of getLivePlayers(table)) {
+      const startingStack = table.currentHand?.startingStacks[player.playerGuid] ?? ante;
+      recordAction(table, {
+        playerGuid: player.playerGuid,
+        action: 'ante',
+        amount: Math.min(ante, startingStack),
+        isAllIn: startingStack <= ante
+      });
+    }
   }
   
-  if (numPlayers === 1) {
-    // Only one player, they have all positions (theoretical)
-    table.dealerPosition = 0;
-    table.bigBlindPosition = 0;
-    table.smallBlindPosition = 0;
-    return;
+  const blinds: [number | null, 'small blind' | 'big blind'][] = [
+    [table.smallBlindSeat, 'small blind'],
+    [table.bigBlindSeat, 'big blind']
+  ];
+  
+  for (const [seat, action] of blinds) {
+    const player = getPlayerInSeat(table, seat);
+    if (player && player.currentBet > 0) {
+      recordAction(table, {
+        playerGuid: player.playerGuid,
+        action,
+        amount: player.currentBet,
+        isAllIn: player.stack === 0
+      });
+    }
   }
   
-  // Move the dealer button clockwise
-  table.dealerPosition = (table.dealerPosition + 1) % numPlayers;
+  // Anyone else who put in more than the ante was posting blinds missed while sitting out
+  const blindSeats = blinds.map(([seat]) => seat);
+  for (const player of table.players) {
+    const missed = missedBlinds[player.playerGuid];
+    const blindsPosted = player.totalBet - Math.min(ante, player.totalBet);
+    if (missed && blindsPosted > 0 && !blindSeats.includes(player.seat)) {
+      recordAction(table, {
+        playerGuid: player.playerGuid,
+        action: missed.big ? (missed.small ? 'small & big blinds' : 'big blind') : 'small blind',
+        amount: blindsPosted,
+        isAllIn: player.stack === 0
+      });
+    }
+  }
+}
+
+// Rank the hands of every player still in the hand against the board
+function resolveShowdown(table: Table): ShowdownResult {
+  const contenders = table.players.filter(
+    player => !player.markedForRemoval && player.pocketCards.length > 0 && !player.hasFolded
+  );
+  
+  const variant = getTableVariant(table);
+  const evaluated = contenders
+    .map(player => ({
+      player,
+      hand: evaluatePlayerHand(variant, player.pocketCards, table.communityCards)
+    }))
+    .sort((a, b) => compareHands(b.hand, a.hand));
   
-  if (numPlayers === 2) {
-    // Heads-up play: Button/dealer has small blind, other player has big blind
-    table.smallBlindPosition = table.dealerPosition;
-    table.bigBlindPosition = (table.dealerPosition + 1) % 2;
-    return;
+  // Assign ranks, letting tied hands share the same rank
+  const hands = evaluated.map(({ player, hand }, index) => {
+    let rank = index + 1;
+    if (index > 0 && compareHands(hand, evaluated[index - 1].hand) === 0) {
+      rank = evaluated.findIndex(e => compareHands(e.hand, hand) === 0) + 1;
+    }
+    
+    return {
+      playerGuid: player.playerGuid,
+      pocketCards: player.pocketCards,
+      bestCards: hand.cards,
+      handName: hand.description,
+      rank,
+      amountWon: 0
+    };
+  });
+  
+  // Pay out the pot (including any side pots) by showdown rank
+  if (table.bettingEnabled) {
+    const ranks = new Map(hands.map(hand => [hand.playerGuid, hand.rank]));
+    const winnings = distributePot(table, ranks);
+    for (const hand of hands) {
+      hand.amountWon = winnings.get(hand.playerGuid) || 0;
+    }
   }
   
-  // Normal multi-player poker:
-  // Small blind is to the left of the dealer button
-  table.smallBlindPosition = (table.dealerPosition + 1) % numPlayers;
+  const winners = hands.filter(hand => hand.rank === 1);
   
-  // Big blind is to the left of the small blind
-  table.bigBlindPosition = (table.smallBlindPosition + 1) % numPlayers;
+  return {
+    hands,
+    winnerGuids: winners.map(hand => hand.playerGuid),
+    winningHandName: winners[0]?.handName ?? ''
+  };
 }
 
-// Reset to waiting state (between hands)
-function resetToWaitingState(table: Table): void {
-  // Store current blind and dealer positions BEFORE removing players
-  const blindPositionsBeforeRemoval = {
-    dealerPlayerGuid: table.players[table.dealerPosition]?.playerGuid,
-    bigBlindPlayerGuid: table.players[table.bigBlindPosition]?.playerGuid,
-    smallBlindPlayerGuid: table.players[table.smallBlindPosition]?.playerGuid,
-  };
+// Reset to waiting state (between hands), returning the history of the hand that was cleared, if one was dealt
+// The caller records it once the table is saved
+function resetToWaitingState(table: Table): HandHistoryEntry | null {
+  // Return chips from a hand that ended without a result (e.g., a manual reset)
+  if (table.bettingEnabled && table.pot > 0) {
+    refundBets(table);
+  }
   
-  // Find which players are being removed (for proper blind movement)
-  const removingDealer = table.players[table.dealerPosition]?.markedForRemoval === true;
-  const removingBigBlind = table.players[table.bigBlindPosition]?.markedForRemoval === true;
-  const removingSmallBlind = table.players[table.smallBlindPosition]?.markedForRemoval === true;
+  // Keep a permanent record of the hand before its cards are cleared
+  const historyEntry = createHistoryEntry(table);
+  delete table.currentHand;
   
-  // Remove any players that were marked for removal during the hand
+  // Remove any players that were marked for removal during the hand, cashing out what they have left
+  for (const player of table.players.filter(p => p.markedForRemoval)) {
+    recordLedgerEntry(table, player.playerGuid, 'cash-out', player.stack);
+  }
   table.players = table.players.filter(player => !player.markedForRemoval);
   
-  // Create and shuffle a new deck
-  table.deck = shuffleDeck(createDeck());
+  // Switch to the next game in the rotation once the button has gone round the table
+  table.handsInVariant = (table.handsInVariant ?? 0) + 1;
+  const nextVariant = getNextVariant(table);
+  if (nextVariant && table.handsInVariant >= table.players.length) {
+    table.variant = nextVariant.id;
+    table.handsInVariant = 0;
+  }
+  
+  // Commit to the next hand's shuffle; the new deck is shuffled when it is dealt
+  table.deck = createDeck(table.deckOptions);
+  table.shuffleSeeds = createShuffleSeeds();
   
-  // Clear community cards
+  // Clear community cards, the discard pile and the previous showdown
   table.communityCards = [];
+  table.burnedCards = [];
+  delete table.showdown;
   
-  // Clear all players' pocket cards
+  // Clear all players' pocket cards and the muck
   for (const player of table.players) {
     player.pocketCards = [];
+    delete player.muckedCards;
   }
   
+  // Clear bets, folds and the action
+  resetBettingState(table);
+  
   // Increment hand number
   table.handNumber++;
   
-  // Handle positions correctly after player removal
-  if (table.players.length > 0) {
-    // If all positions were removed or we need a full reset, just use the default logic
-    if ((removingDealer && removingBigBlind && removingSmallBlind) || 
-        table.players.length <= 2) {
-      updateBlindPositions(table);
-    } else {
-      // Otherwise, handle each position case individually
-      
-      // Handle dealer position
-      if (removingDealer) {
-        // Dealer was removed, so move to next player position
-        table.dealerPosition = (table.dealerPosition) % table.players.length;
-      } else {
-        // Find where dealer is now after removals
-        const newDealerPos = table.players.findIndex(
-          p => p.playerGuid === blindPositionsBeforeRemoval.dealerPlayerGuid
-        );
-        table.dealerPosition = newDealerPos >= 0 ? newDealerPos : 0;
-      }
-      
-      // For standard poker, move the dealer button clockwise, then set blinds accordingly
-      table.dealerPosition = (table.dealerPosition + 1) % table.players.length;
-      
-      // Now set small and big blind positions based on dealer position
-      if (table.players.length === 2) {
-        // Heads-up: dealer has small blind, other has big blind
-        table.smallBlindPosition = table.dealerPosition;
-        table.bigBlindPosition = (table.dealerPosition + 1) % 2;
-      } else {
-        // Normal play: small blind is left of dealer, big blind is left of small blind
-        table.smallBlindPosition = (table.dealerPosition + 1) % table.players.length;
-        table.bigBlindPosition = (table.smallBlindPosition + 1) % table.players.length;
-      }
-    }
-  }
+  // A tournament level that ended during the hand brings in its blinds now
+  applyTournamentLevel(table);
+  
+  // Move the button and blinds on for the next hand following the table's button rule
+  moveButton(table);
   
   // Set game phase to waiting
   table.gamePhase = 'Waiting';
+  
+  return historyEntry;
 }
 
 // Reset a hand to waiting state immediately (for manual reset)
-export function resetHandToWaiting(tableGuid: string): Table {
-  const table = getTable(tableGuid);
-  
-  if (!table) {
-    throw new Error(`Table with guid ${tableGuid} not found`);
-  }
-  
-  // Only reset if not already in waiting state
-  if (table.gamePhase !== 'Waiting') {
-    resetToWaitingState(table);
-    saveTable(table);
-  }
-  
-  return table;
+export function resetHandToWaiting(tableGuid: string): Promise<Table> {
+  return mutateTable(tableGuid, table => ({
+    table,
+    // Only reset if not already in waiting state
+    finishedHand: table.gamePhase !== 'Waiting' ? resetToWaitingState(table) : null
+  })).then(recordFinishedHand);
 }
 
 // Remove a player from the table
-export function removePlayer(tableGuid: string, playerGuid: string): Table {
-  const table = getTable(tableGuid);
-  
-  if (!table) {
-    throw new Error(`Table with guid ${tableGuid} not found`);
-  }
-  
-  const playerIndex = table.players.findIndex(p => p.playerGuid === playerGuid);
-  
-  if (playerIndex === -1) {
-    throw new Error(`Player with guid ${playerGuid} not found at table ${tableGuid}`);
-  }
-  
-  // If we're in the waiting state, remove the player immediately
-  // Otherwise, mark them for removal at the end of the hand
-  if (table.gamePhase === 'Waiting') {
-    // Check if removed player had a position
-    const hadBigBlind = playerIndex === table.bigBlindPosition;
-    const hadSmallBlind = playerIndex === table.smallBlindPosition;
-    const hadDealer = playerIndex === table.dealerPosition;
-    
-    // Remove the player
-    table.players.splice(playerIndex, 1);
-    
-    // Adjust positions after player removal
-    if (table.players.length > 0) {
-      // Handle dealer position
-      if (hadDealer || playerIndex < table.dealerPosition) {
-        if (hadDealer) {
-          // If the dealer was removed, move it to the next available player
-          table.dealerPosition = table.players.length > 0 ? 0 : 0;
-        } else {
-          // If a player before the dealer was removed, adjust the index
-          table.dealerPosition--;
-        }
-      }
+export function removePlayer(tableGuid: string, playerGuid: string): Promise<Table> {
+  return mutateTable(tableGuid, table => {
+    const playerIndex = table.players.findIndex(p => p.playerGuid === playerGuid);
+    
+    if (playerIndex === -1) {
+      throw new Error(`Player with guid ${playerGuid} not found at table ${tableGuid}`);
+    }
+    
+    // If we're in the waiting state, remove the player immediately
+    // Otherwise, mark them for removal at the end of the hand
+    if (table.gamePhase === 'Waiting') {
+      // Remove the player with whatever they have left; their seat becomes empty
+      recordLedgerEntry(table, playerGuid, 'cash-out', table.players[playerIndex].stack);
+      table.players.splice(playerIndex, 1);
       
-      // Handle big blind position
-      if (hadBigBlind || playerIndex < table.bigBlindPosition) {
-        if (hadBigBlind) {
-          // If the big blind was removed, move it to the next available player
-          table.bigBlindPosition = table.players.length > 0 ? 0 : 0;
-        } else {
-          // If a player before the big blind was removed, adjust the index
-          table.bigBlindPosition--;
-        }
-      }
+      // Nobody's seat number changes, so only a vacated button or blind needs placing again
+      assignBlindSeats(table);
+    } else {
+      // Mark the player for removal instead of removing immediately
+      table.players[playerIndex].markedForRemoval = true;
       
-      // Handle small blind position
-      if (hadSmallBlind || playerIndex < table.smallBlindPosition) {
-        if (hadSmallBlind) {
-          // If the small blind was removed, reassign it
-          if (table.players.length <= 1) {
-            table.smallBlindPosition = 0;
-          } else {
-            // Place it appropriately based on dealer position
-            table.smallBlindPosition = (table.dealerPosition + 1) % table.players.length;
-          }
-        } else {
-          // If a player before the small blind was removed, adjust the index
-          table.smallBlindPosition--;
-        }
+      // A player leaving mid-hand forfeits their hand
+      if (isInHand(table.players[playerIndex])) {
+        foldPlayer(table, playerGuid);
+        recordAction(table, { playerGuid, action: 'fold', amount: 0 });
       }
       
-      // Ensure all positions are valid (within range of player count)
-      table.dealerPosition = Math.min(table.dealerPosition, table.players.length - 1);
-      table.bigBlindPosition = Math.min(table.bigBlindPosition, table.players.length - 1);
-      table.smallBlindPosition = Math.min(table.smallBlindPosition, table.players.length - 1);
+      // Positions are seat numbers, so they stay put until the button moves in resetToWaitingState
+    }
+    
+    return table;
+  });
+}
+
+// Move a player and their chips to another table between hands, keeping their guid so their page follows them
+// They are seated at the new table before leaving the old one, so they are never missing from both
+export async function movePlayer(fromTableGuid: string, playerGuid: string, toTableGuid: string): Promise<Player> {
+  const player = getTable(fromTableGuid)?.players.find(p => p.playerGuid === playerGuid);
+  
+  if (!player) {
+    throw new Error(`Player with guid ${playerGuid} not found at table ${fromTableGuid}`);
+  }
+  
+  const movedPlayer = await mutateTable(toTableGuid, table => {
+    const emptySeats = getEmptySeats(table);
+    
+    if (emptySeats.length === 0) {
+      throw new Error(`Table is full (${table.maxPlayers} players maximum)`);
+    }
+    
+    // They join the next hand dealt at their new table, keeping their nickname unless someone there already has it
+    const nicknameTaken = table.players.some(p =>
+      player.playerAlias !== undefined && getPlayerAlias(p).toLowerCase() === player.playerAlias.toLowerCase()
+    );
+    const seated: Player = {
+      playerGuid,
+      seat: emptySeats[0],
+      pocketCards: [],
+      playerAlias: nicknameTaken ? undefined : player.playerAlias,
+      avatar: player.avatar,
+      profileId: player.profileId,
+      stack: player.stack,
+      currentBet: 0,
+      totalBet: 0,
+      sittingOut: player.sittingOut
+    };
+    seatPlayer(table, seated);
+    
+    if (table.players.length === 1 || table.gamePhase === 'Waiting') {
+      assignBlindSeats(table);
+    }
+    
+    return seated;
+  });
+  
+  try {
+    await mutateTable(fromTableGuid, table => {
+      const playerIndex = table.players.findIndex(p => p.playerGuid === playerGuid);
       
-      // For heads-up play (2 players), ensure positions follow heads-up rules
-      if (table.players.length === 2) {
-        // Dealer has small blind, other player has big blind
-        table.smallBlindPosition = table.dealerPosition;
-        table.bigBlindPosition = (table.dealerPosition + 1) % 2;
+      // A hand dealt since the move started keeps the player where they are
+      if (table.gamePhase !== 'Waiting' || playerIndex === -1 || table.players[playerIndex].stack !== player.stack) {
+        throw new Error('Players can only move between hands');
       }
       
-      // For single player, all positions are 0
-      if (table.players.length === 1) {
-        table.dealerPosition = 0;
-        table.bigBlindPosition = 0;
-        table.smallBlindPosition = 0;
+      table.players.splice(playerIndex, 1);
+      assignBlindSeats(table);
+    });
+  } catch (error) {
+    await mutateTable(toTableGuid, table => {
+      table.players = table.players.filter(p => p.playerGuid !== playerGuid);
+      if (table.gamePhase === 'Waiting') {
+        assignBlindSeats(table);
       }
-    }
-  } else {
-    // Mark the player for removal instead of removing immediately
-    table.players[playerIndex].markedForRemoval = true;
+    });
     
-    // Note: We don't adjust positions during active hand, will handle in resetToWaitingState
+    // Save the old table again so the player index points back at it
+    await mutateTable(fromTableGuid, () => undefined);
+    throw error;
   }
   
-  // Save the updated table
-  saveTable(table);
+  // The new table goes on the player's profile; the move itself has happened either way
+  if (movedPlayer.profileId) {
+    try {
+      addProfileSession(movedPlayer.profileId, toTableGuid, playerGuid);
+    } catch (error) {
+      console.error('Error adding a moved player\'s table to their profile:', error);
+    }
+  }
   
-  return table;
+  return movedPlayer;
 }
 
-// Delete a table
-export function deleteTable(tableGuid: string): void {
-  const filePath = path.join(TABLES_DIR, `${tableGuid}.json`);
-  
-  if (fs.existsSync(filePath)) {
-    fs.unlinkSync(filePath);
-  }
+// Apply a betting action for a player at a table
+export function playerAction(
+  tableGuid: string,
+  playerGuid: string,
+  action: BettingAction,
+  amount?: number
+): Promise<Table> {
+  return mutateTable(tableGuid, table => {
+    if (table.gamePhase === 'Waiting' || table.gamePhase === 'Showdown') {
+      throw new TableRuleError('There is no betting round in progress');
+    }
+    
+    const player = table.players.find(p => p.playerGuid === playerGuid);
+    const chipsBefore = player?.totalBet ?? 0;
+    
+    if (table.bettingEnabled) {
+      applyBettingAction(table, playerGuid, action, amount);
+    } else if (action === 'fold' && player && isInHand(player)) {
+      // Without chips there are no turns, so a player can fold whenever they like
+      foldPlayer(table, playerGuid);
+    } else if (action === 'fold') {
+      throw new TableRuleError('You are not in this hand');
+    } else {
+      throw new TableRuleError('Betting is not enabled at this table');
+    }
+    
+    // Log the action for the hand history
+    if (player) {
+      const chipsIn = player.totalBet - chipsBefore;
+      recordAction(table, {
+        playerGuid,
+        action,
+        amount: chipsIn,
+        raiseTo: action === 'bet' || action === 'raise' ? amount : undefined,
+        isAllIn: chipsIn > 0 && player.stack === 0
+      });
+    }
+    
+    return table;
+  });
+}
+
+// Throw away one of a player's pocket cards before the flop (Pineapple)
+export function discardCard(tableGuid: string, playerGuid: string, cardCode: string): Promise<Table> {
+  return mutateTable(tableGuid, table => {
+    const player = table.players.find(p => p.playerGuid === playerGuid);
+    
+    if (!player) {
+      throw new TableRuleError(`Player with guid ${playerGuid} not found at table ${tableGuid}`);
+    }
+    
+    if (table.gamePhase !== 'Pre-Flop') {
+      throw new TableRuleError('Cards can only be discarded before the flop');
+    }
+    
+    if (!getPendingDiscards(table).includes(player)) {
+      throw new TableRuleError('You have no cards to discard');
+    }
+    
+    const cardIndex = player.pocketCards.findIndex(card => card.code === cardCode);
+    
+    if (cardIndex === -1) {
+      throw new TableRuleError(`You do not hold the card ${cardCode}`);
+    }
+    
+    player.pocketCards = player.pocketCards.filter((_, index) => index !== cardIndex);
+    
+    return table;
+  });
+}
+
+// Change the table's settings between hands; anything not given keeps its current value
+export function updateTableSettings(tableGuid: string, options: TableOptions): Promise<Table> {
+  return mutateTable(tableGuid, table => {
+    if (table.gamePhase !== 'Waiting') {
+      throw new TableRuleError('Settings can only be changed between hands');
+    }
+    
+    const current = getTableSettings(table);
+    const settings = resolveTableSettings(options, current);
+    const validationError = validateTableSettings(settings);
+    
+    if (validationError) {
+      throw new TableRuleError(validationError);
+    }
+    
+    // Seat numbers never change, so the table can't shrink past the highest seat taken
+    const highestSeat = Math.max(0, ...table.players.map(player => player.seat));
+    if (settings.maxPlayers < highestSeat) {
+      throw new TableRuleError(`Seat ${highestSeat} is taken, so the table needs at least ${highestSeat} seats`);
+    }
+    
+    // A new game or rotation starts a fresh orbit
+    if (settings.variant !== current.variant || settings.variantRotation.join() !== current.variantRotation.join()) {
+      table.handsInVariant = 0;
+    }
+    
+    applyTableSettings(table, settings);
+    
+    // Players seated before chips were turned on buy in with the stacks they have now
+    openLedger(table);
+    
+    // Rebuild the waiting deck with any new jokers or wild cards
+    table.deck = createDeck(table.deckOptions);
+    
+    // Turning chips on or off can change who is dealt in, so place the blinds again
+    assignBlindSeats(table);
+    
+    return table;
+  });
+}
+
+// Start or pause a tournament table's blind clock
+export function setTournamentClockRunning(tableGuid: string, running: boolean): Promise<Table> {
+  return mutateTable(tableGuid, table => {
+    if (!table.tournament) {
+      throw new TableRuleError('This table is not running a tournament');
+    }
+    
+    setClockRunning(table.tournament, running);
+    
+    // Blinds only change between hands, so a paused table picks up the new level straight away
+    if (table.gamePhase === 'Waiting') {
+      applyTournamentLevel(table);
+    }
+    
+    return table;
+  });
+}
+
+// Buy a player who has lost all their chips back in at their seat with a fresh starting stack
+export function rebuyPlayer(tableGuid: string, playerGuid: string): Promise<Table> {
+  return mutateTable(tableGuid, table => {
+    const player = table.players.find(p => p.playerGuid === playerGuid);
+    
+    if (!player) {
+      throw new TableRuleError(`Player with guid ${playerGuid} not found at table ${tableGuid}`);
+    }
+    
+    if (!isLedgerKept(table)) {
+      throw new TableRuleError('Rebuys are only for cash games');
+    }
+    
+    // Chips still in the pot count, so a player waiting on a showdown isn't out yet
+    if (player.stack > 0 || player.totalBet > 0) {
+      throw new TableRuleError('You can only rebuy once you have no chips left');
+    }
+    
+    player.stack = table.startingStack;
+    recordLedgerEntry(table, playerGuid, 'rebuy', player.stack);
+    
+    // With chips again the player may be the one the blinds were waiting for
+    if (table.gamePhase === 'Waiting') {
+      const bigBlind = getPlayerInSeat(table, table.bigBlindSeat);
+      if (!bigBlind || !isSittingIn(table, bigBlind) || table.smallBlindSeat === table.dealerSeat) {
+        assignBlindSeats(table);
+      }
+    }
+    
+    return table;
+  });
+}
+
+// Sit a player out (keeping their seat) or back in; it takes effect from the next hand
+export function setSittingOut(tableGuid: string, playerGuid: string, sittingOut: boolean): Promise<Table> {
+  return mutateTable(tableGuid, table => {
+    const player = table.players.find(p => p.playerGuid === playerGuid);
+    
+    if (!player) {
+      throw new TableRuleError(`Player with guid ${playerGuid} not found at table ${tableGuid}`);
+    }
+    
+    if ((player.sittingOut ?? false) === sittingOut) {
+      return table;
+    }
+    
+    const wasBigBlind = player.seat === table.bigBlindSeat;
+    const wasSmallBlind = player.seat === table.smallBlindSeat;
+    player.sittingOut = sittingOut;
+    
+    // Mid-hand the change is picked up when the button moves
+    if (table.gamePhase !== 'Waiting') {
+      return table;
+    }
+    
+    // A returning player waits for the blinds to reach them (or posts what they missed) unless the
+    // blinds need placing again: nobody was left to take them, or the table was heads-up
+    if (!sittingOut) {
+      const bigBlind = getPlayerInSeat(table, table.bigBlindSeat);
+      if (!bigBlind || !isSittingIn(table, bigBlind) || table.smallBlindSeat === table.dealerSeat) {
+        assignBlindSeats(table);
+      }
+      return table;
+    }
+    
+    // Someone leaving a blind has to post it when they return
+    if (table.bettingEnabled && (wasBigBlind || wasSmallBlind)) {
+      addMissedBlind(player, wasBigBlind ? 'big' : 'small');
+    }
+    
+    // A dead button leaves an empty small blind where it is
+    if (wasBigBlind || (wasSmallBlind && table.buttonRule !== 'dead')) {
+      assignBlindSeats(table);
+    }
+    
+    return table;
+  });
+}
+
+// Change the nickname and avatar a player goes by; a null nickname goes back to the generated alias
+export function setPlayerIdentity(
+  tableGuid: string,
+  playerGuid: string,
+  nickname: string | null,
+  avatar: PlayerAvatar | null
+): Promise<Table> {
+  return mutateTable(tableGuid, table => {
+    const player = table.players.find(p => p.playerGuid === playerGuid);
+    
+    if (!player) {
+      throw new TableRuleError(`Player with guid ${playerGuid} not found at table ${tableGuid}`);
+    }
+    
+    if (nickname !== null) {
+      assertNicknameFree(table, playerGuid, nickname);
+    }
+    
+    player.playerAlias = nickname ?? undefined;
+    player.avatar = avatar ?? undefined;
+    
+    return table;
+  });
+}
+
+// Contribute a player's seed to the next hand's shuffle
+export function setClientSeed(tableGuid: string, playerGuid: string, clientSeed: string): Promise<Table> {
+  return mutateTable(tableGuid, table => {
+    if (!table.players.some(p => p.playerGuid === playerGuid)) {
+      throw new TableRuleError(`Player with guid ${playerGuid} not found at table ${tableGuid}`);
+    }
+    
+    if (table.gamePhase !== 'Waiting') {
+      throw new TableRuleError('Seeds can only be changed between hands');
+    }
+    
+    if (clientSeed.length === 0 || clientSeed.length > MAX_CLIENT_SEED_LENGTH) {
+      throw new TableRuleError(`A seed must be 1 to ${MAX_CLIENT_SEED_LENGTH} characters`);
+    }
+    
+    if (clientSeed.includes(CLIENT_SEED_SEPARATOR)) {
+      throw new TableRuleError(`A seed can't contain "${CLIENT_SEED_SEPARATOR}", which separates the players' seeds`);
+    }
+    
+    table.shuffleSeeds = table.shuffleSeeds ?? createShuffleSeeds();
+    table.shuffleSeeds.clientSeeds[playerGuid] = clientSeed;
+    
+    return table;
+  });
+}
+
+// Start handing control of a table to another device, returning the one-time code to give it
+export function createHostHandoff(tableGuid: string): Promise<string> {
+  return mutateTable(tableGuid, table => {
+    const code = createHandoffCode();
+    
+    table.hostHandoff = {
+      codeHash: hashOneTimeCode(code),
+      expiresAt: new Date(Date.now() + HANDOFF_CODE_LIFETIME_MS).toISOString(),
+    };
+    
+    return code;
+  });
+}
+
+// Use up a handoff code, throwing if it is wrong or has expired
+export function claimHostHandoff(tableGuid: string, code: string): Promise<Table> {
+  return mutateTable(tableGuid, table => {
+    const handoff = table.hostHandoff;
+    
+    if (!handoff || handoff.codeHash !== hashOneTimeCode(code)) {
+      throw new Error('This handoff link is not valid');
+    }
+    
+    if (new Date(handoff.expiresAt).getTime() < Date.now()) {
+      throw new Error('This handoff link has expired');
+    }
+    
+    // Each code works once
+    delete table.hostHandoff;
+    
+    return table;
+  });
+}
+
+// Create a one-time code a player can use to get back to their seat from another device
+export function createRejoinCode(tableGuid: string, playerGuid: string): Promise<{ code: string; expiresAt: string }> {
+  return mutateTable(tableGuid, table => {
+    const player = table.players.find(p => p.playerGuid === playerGuid);
+    
+    if (!player) {
+      throw new Error('Player not found in this table');
+    }
+    
+    const code = generateRejoinCode();
+    const expiresAt = new Date(Date.now() + REJOIN_CODE_LIFETIME_MS).toISOString();
+    
+    player.rejoinCode = { codeHash: hashOneTimeCode(code), expiresAt };
+    
+    return { code, expiresAt };
+  });
+}
+
+// Use up a rejoin code, returning the player it belongs to, or throwing if it is wrong or has expired
+export function claimRejoinCode(tableGuid: string, code: string): Promise<Player> {
+  return mutateTable(tableGuid, table => {
+    const codeHash = hashOneTimeCode(normalizeRejoinCode(code));
+    const player = table.players.find(p => p.rejoinCode?.codeHash === codeHash && !p.markedForRemoval);
+    
+    if (!player) {
+      throw new Error('This rejoin code is not valid');
+    }
+    
+    if (new Date(player.rejoinCode!.expiresAt).getTime() < Date.now()) {
+      throw new Error('This rejoin code has expired');
+    }
+    
+    // Each code works once
+    delete player.rejoinCode;
+    
+    return player;
+  });
+}
+
+// Get the completed hands played at a table, oldest first
+export function getHandHistory(tableGuid: string): HandHistoryEntry[] {
+  return getTableStore().getHandHistory(tableGuid);
+}
+
+// Find the table a player is seated at
+export function findTableByPlayer(playerGuid: string): Table | null {
+  const table = getTableStore().findByPlayer(playerGuid);
+  return table && migrateLegacySeats(table);
+}
+
+// Delete a table once any pending changes to it have been written
+export function deleteTable(tableGuid: string): Promise<void> {
+  return withTableLock(tableGuid, () => {
+    getTableStore().delete(tableGuid);
+    emitTableChange(tableGuid);
+  });
 }
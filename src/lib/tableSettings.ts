@@ -0,0 +1,182 @@
+import { Table, TableSettings, TableOptions, GameVariantId } from './types';
+import { GAME_VARIANTS, isGameVariantId } from './gameVariants';
+import { setTournamentStructure, validateTournamentStructure } from './tournament';
+
+// Longest an auto-advance timer can wait
+export const MAX_AUTO_ADVANCE_SECONDS = 300;
+
+// Settings for a new table when nothing else is chosen: Hold'em for up to ten players, no chips
+export const DEFAULT_TABLE_SETTINGS: TableSettings = {
+  maxPlayers: 10,
+  variant: 'holdem',
+  variantRotation: [],
+  jokers: 0,
+  deucesWild: false,
+  burnCards: false,
+  bettingEnabled: false,
+  smallBlind: 1,
+  bigBlind: 2,
+  startingStack: 200,
+  buttonRule: 'moving',
+  showHandsAtShowdown: true,
+  oddsOverlay: 'off',
+  handStrengthHint: true,
+  autoAdvance: {
+    dealSeconds: null,
+    streetSeconds: null,
+    showdownSeconds: null,
+  },
+  tournament: null,
+};
+
+// Most seats a table can have while dealing every game in its rotation
+export function getSeatLimit(variant: GameVariantId, variantRotation: GameVariantId[]): number {
+  return Math.min(...[variant, ...variantRotation].filter(isGameVariantId).map(id => GAME_VARIANTS[id].maxPlayers));
+}
+
+// Read a table's settings, filling in defaults for tables saved before a setting existed
+export function getTableSettings(table: Table): TableSettings {
+  return {
+    maxPlayers: table.maxPlayers,
+    variant: table.variant ?? DEFAULT_TABLE_SETTINGS.variant,
+    variantRotation: table.variantRotation ?? [],
+    jokers: table.deckOptions?.jokers ?? 0,
+    deucesWild: table.deckOptions?.deucesWild ?? false,
+    burnCards: table.burnCards ?? false,
+    bettingEnabled: table.bettingEnabled === true,
+    smallBlind: table.smallBlind ?? DEFAULT_TABLE_SETTINGS.smallBlind,
+    bigBlind: table.bigBlind ?? DEFAULT_TABLE_SETTINGS.bigBlind,
+    startingStack: table.startingStack ?? DEFAULT_TABLE_SETTINGS.startingStack,
+    buttonRule: table.buttonRule ?? 'moving',
+    showHandsAtShowdown: table.showHandsAtShowdown ?? true,
+    oddsOverlay: table.oddsOverlay ?? 'off',
+    handStrengthHint: table.handStrengthHint ?? true,
+    autoAdvance: table.autoAdvance ?? DEFAULT_TABLE_SETTINGS.autoAdvance,
+    tournament: table.tournament
+      ? { startingStack: table.tournament.startingStack, levels: table.tournament.levels }
+      : null,
+  };
+}
+
+// Combine chosen options with the current settings (or the defaults for a new table)
+export function resolveTableSettings(options: TableOptions, current: TableSettings = DEFAULT_TABLE_SETTINGS): TableSettings {
+  const chosen = Object.fromEntries(
+    Object.entries(options ?? {}).filter(([, value]) => value !== undefined)
+  ) as TableOptions;
+  const variantRotation = chosen.variantRotation ?? current.variantRotation;
+
+  // A new rotation starts with its first game unless the current one is part of it
+  const keepsVariant = !Array.isArray(variantRotation) || variantRotation.length === 0 ||
+    variantRotation.includes(current.variant);
+  const variant = chosen.variant ?? (keepsVariant ? current.variant : variantRotation[0]);
+
+  return {
+    ...current,
+    ...chosen,
+    variant,
+    variantRotation,
+    // Without a choice, seat as many players as before, as far as the games allow
+    maxPlayers: chosen.maxPlayers ?? Math.min(current.maxPlayers, getSeatLimit(variant, Array.isArray(variantRotation) ? variantRotation : [])),
+  };
+}
+
+// Check every setting, returning an error message for the first one that is invalid
+export function validateTableSettings(settings: TableSettings): string | null {
+  const { variant, variantRotation, maxPlayers, jokers, smallBlind, bigBlind, startingStack, autoAdvance } = settings;
+
+  if (!isGameVariantId(variant)) {
+    return `Unknown game variant ${variant}`;
+  }
+
+  if (!Array.isArray(variantRotation) || !variantRotation.every(isGameVariantId)) {
+    return 'variantRotation must be a list of game variants';
+  }
+
+  if (variantRotation.length > 0 && !variantRotation.includes(variant)) {
+    return 'variant must be part of variantRotation';
+  }
+
+  const seatLimit = getSeatLimit(variant, variantRotation);
+  if (!Number.isInteger(maxPlayers) || maxPlayers < 2 || maxPlayers > seatLimit) {
+    return `maxPlayers must be between 2 and ${seatLimit} for the games chosen`;
+  }
+
+  if (!Number.isInteger(jokers) || jokers < 0 || jokers > 2) {
+    return 'jokers must be 0, 1 or 2';
+  }
+
+  for (const name of ['deucesWild', 'burnCards', 'bettingEnabled', 'showHandsAtShowdown', 'handStrengthHint'] as const) {
+    if (typeof settings[name] !== 'boolean') {
+      return `${name} must be true or false`;
+    }
+  }
+
+  for (const [name, value] of Object.entries({ smallBlind, bigBlind, startingStack })) {
+    if (!Number.isInteger(value) || value <= 0) {
+      return `${name} must be a positive whole number`;
+    }
+  }
+
+  if (smallBlind > bigBlind) {
+    return 'smallBlind cannot be larger than bigBlind';
+  }
+
+  if (startingStack < bigBlind) {
+    return 'startingStack must cover at least one big blind';
+  }
+
+  if (settings.buttonRule !== 'moving' && settings.buttonRule !== 'dead') {
+    return 'buttonRule must be moving or dead';
+  }
+
+  if (!['off', 'always', 'all-in'].includes(settings.oddsOverlay)) {
+    return 'oddsOverlay must be off, always or all-in';
+  }
+
+  if (settings.oddsOverlay === 'all-in' && !settings.bettingEnabled) {
+    return 'Odds for all-in showdowns need chips and betting turned on';
+  }
+
+  if (typeof autoAdvance !== 'object' || autoAdvance === null) {
+    return 'autoAdvance must list dealSeconds, streetSeconds and showdownSeconds';
+  }
+
+  for (const name of ['dealSeconds', 'streetSeconds', 'showdownSeconds'] as const) {
+    const seconds = autoAdvance[name];
+    if (seconds !== null && (!Number.isInteger(seconds) || seconds < 1 || seconds > MAX_AUTO_ADVANCE_SECONDS)) {
+      return `autoAdvance.${name} must be off (null) or between 1 and ${MAX_AUTO_ADVANCE_SECONDS} seconds`;
+    }
+  }
+
+  if (settings.tournament !== null) {
+    if (!settings.bettingEnabled) {
+      return 'A tournament needs chips and betting turned on';
+    }
+
+    return validateTournamentStructure(settings.tournament);
+  }
+
+  return null;
+}
+
+// Copy settings onto a table; the caller checks they are valid and that the table is between hands
+export function applyTableSettings(table: Table, settings: TableSettings): void {
+  table.maxPlayers = settings.maxPlayers;
+  table.variant = settings.variant;
+  table.variantRotation = settings.variantRotation;
+  table.deckOptions = { jokers: settings.jokers, deucesWild: settings.deucesWild };
+  table.burnCards = settings.burnCards;
+  table.bettingEnabled = settings.bettingEnabled;
+  table.smallBlind = settings.smallBlind;
+  table.bigBlind = settings.bigBlind;
+  table.minRaise = settings.bigBlind;
+  table.startingStack = settings.startingStack;
+  table.buttonRule = settings.buttonRule;
+  table.showHandsAtShowdown = settings.showHandsAtShowdown;
+  table.oddsOverlay = settings.oddsOverlay;
+  table.handStrengthHint = settings.handStrengthHint;
+  table.autoAdvance = settings.autoAdvance;
+
+  // A tournament's current level replaces the fixed blinds and its starting stack the table's
+  setTournamentStructure(table, settings.tournament);
+}
@@ -0,0 +1,68 @@
+import { Table, HandHistoryEntry, MultiTableTournament, PlayerProfile } from './types';
+import { FileTableStore } from './fileTableStore';
+import { MemoryTableStore } from './memoryTableStore';
+import { SqliteTableStore } from './sqliteTableStore';
+
+/**
+ * Where tables are persisted. Implementations are synchronous, matching how the
+ * manager reads and writes tables inside its per-table mutation queue.
+ */
+export interface TableStore {
+  // Get every stored table
+  getAll(): Table[];
+  // Get a single table, or null if it doesn't exist
+  get(tableGuid: string): Table | null;
+  // Find the table a player is seated at, or null if they aren't at any table
+  findByPlayer(playerGuid: string): Table | null;
+  // Store a table, but only if the stored version still equals expectedVersion (0 for a new table)
+  // Returns false without writing anything when another write got there first
+  put(table: Table, expectedVersion: number): boolean;
+  // Delete a table if it exists (its hand history is kept)
+  delete(tableGuid: string): void;
+  // Record a completed hand; entries are immutable, so a hand that's already recorded is left alone
+  addHandHistory(entry: HandHistoryEntry): void;
+  // Get a table's completed hands, oldest first
+  getHandHistory(tableGuid: string): HandHistoryEntry[];
+  // Get a multi-table tournament, or null if it doesn't exist
+  getMultiTableTournament(tournamentGuid: string): MultiTableTournament | null;
+  // Store a multi-table tournament, with the same version check as put
+  putMultiTableTournament(tournament: MultiTableTournament, expectedVersion: number): boolean;
+  // Get a player profile, or null if it doesn't exist
+  getProfile(profileId: string): PlayerProfile | null;
+  // Store a player profile, with the same version check as put
+  putProfile(profile: PlayerProfile, expectedVersion: number): boolean;
+}
+
+export type TableStoreKind = 'file' | 'memory' | 'sqlite';
+
+// Keep one store per server process, shared across route bundles and hot reloads
+const globalForStore = globalThis as unknown as { tableStore?: TableStore };
+
+// Create a store of the given kind
+export function createTableStore(kind: TableStoreKind): TableStore {
+  switch (kind) {
+    case 'memory':
+      return new MemoryTableStore();
+    case 'sqlite':
+      return new SqliteTableStore();
+    case 'file':
+      return new FileTableStore();
+    default:
+      throw new Error(`Unknown table store ${kind}`);
+  }
+}
+
+// Get the active store, chosen by the TABLE_STORE environment variable (JSON files by default)
+export function getTableStore(): TableStore {
+  if (!globalForStore.tableStore) {
+    const kind = (process.env.TABLE_STORE || 'file') as TableStoreKind;
+    globalForStore.tableStore = createTableStore(kind);
+  }
+
+  return globalForStore.tableStore;
+}
+
+// Replace the active store (e.g., with an in-memory store in tests)
+export function setTableStore(store: TableStore): void {
+  globalForStore.tableStore = store;
+}
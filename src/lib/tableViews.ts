@@ -0,0 +1,266 @@
+import {
+  Table,
+  Player,
+  ShowdownHand,
+  PublicPlayer,
+  AdminPlayer,
+  TableView,
+  AdminTableView,
+  PlayerView,
+  PublicShowdownResult,
+  OddsView,
+  MultiTableTournament,
+  MultiTableTournamentView
+} from './types';
+import {
+  getAmountToCall,
+  getMinRaiseTo,
+  getMaxRaiseTo,
+  canRaise,
+  isInHand,
+  isHandDecided,
+  getLivePlayers,
+  getPendingDiscards
+} from './betting';
+import { getTableVariant, getNextVariant, getPhaseName, getCardsKept } from './gameVariants';
+import { getTableSettings } from './tableSettings';
+import { createTournamentView } from './tournament';
+import { getPlayerAlias, getAliasByGuid } from './playerIdentity';
+import { getTableEquity } from './equity';
+import { isLedgerKept } from './ledger';
+import { generatePokerPlayerAlias } from '@/app/api/tables/playerNamer';
+import { generateTableName } from '@/app/api/tables/tableNamer';
+
+// Get the hands turned face up at showdown: every hand still in, or only the winners' if the table mucks losing hands
+function getShownHands(table: Table): ShowdownHand[] {
+  if (!table.showdown) {
+    return [];
+  }
+
+  const { hands, winnerGuids } = table.showdown;
+  return table.showHandsAtShowdown === false
+    ? hands.filter(hand => winnerGuids.includes(hand.playerGuid))
+    : hands;
+}
+
+// Project a player down to what anyone at the table may see
+function toPublicPlayer(table: Table, player: Player): PublicPlayer {
+  const shownHand = getShownHands(table).find(hand => hand.playerGuid === player.playerGuid);
+
+  return {
+    playerAlias: getPlayerAlias(player),
+    avatar: player.avatar,
+    seat: player.seat,
+    cardCount: player.pocketCards.length,
+    hasCards: player.pocketCards.length > 0,
+    markedForRemoval: player.markedForRemoval,
+    stack: player.stack ?? 0,
+    currentBet: player.currentBet ?? 0,
+    hasFolded: player.hasFolded === true,
+    isAllIn: table.bettingEnabled === true && player.pocketCards.length > 0 && player.stack === 0,
+    sittingOut: player.sittingOut === true,
+    owesBlinds: player.missedBlinds !== undefined,
+    // Hands that went to showdown are public
+    ...(shownHand && {
+      shownCards: shownHand.pocketCards,
+      shownHandName: shownHand.handName,
+      isWinner: shownHand.rank === 1,
+    }),
+  };
+}
+
+// Project a player for the host, keeping the guid but still hiding pocket cards
+function toAdminPlayer(table: Table, player: Player): AdminPlayer {
+  return {
+    ...toPublicPlayer(table, player),
+    playerGuid: player.playerGuid,
+  };
+}
+
+// Project the showdown result, replacing player guids with aliases
+function toPublicShowdown(table: Table): PublicShowdownResult | undefined {
+  if (!table.showdown) {
+    return undefined;
+  }
+
+  const { winnerGuids, winningHandName } = table.showdown;
+
+  return {
+    hands: getShownHands(table).map(({ playerGuid, ...hand }) => ({
+      ...hand,
+      playerAlias: getAliasByGuid(table, playerGuid),
+      isWinner: winnerGuids.includes(playerGuid),
+    })),
+    winnerAliases: winnerGuids.map(guid => getAliasByGuid(table, guid)),
+    winningHandName,
+    isSplitPot: winnerGuids.length > 1,
+  };
+}
+
+// Project the odds overlay, as percentages by alias; pocket cards and outs only once the hands are tabled
+function toOddsView(table: Table): OddsView | undefined {
+  const odds = getTableEquity(table);
+
+  if (!odds) {
+    return undefined;
+  }
+
+  const toPercent = (fraction: number) => Math.round(fraction * 1000) / 10;
+
+  return {
+    method: odds.method,
+    runouts: odds.runouts,
+    isTabled: odds.isTabled,
+    hands: odds.hands.map(({ playerGuid, equity, tieRate }) => {
+      const player = table.players.find(p => p.playerGuid === playerGuid)!;
+
+      return {
+        playerAlias: getPlayerAlias(player),
+        seat: player.seat,
+        equity: toPercent(equity),
+        tiePercent: toPercent(tieRate),
+        ...(odds.isTabled && {
+          cards: player.pocketCards,
+          outs: odds.outs[playerGuid],
+        }),
+      };
+    }),
+  };
+}
+
+// Fields shared by every table-level view
+function baseTableView(table: Table): Omit<TableView, 'players'> {
+  const variant = getTableVariant(table);
+  const nextVariant = getNextVariant(table);
+
+  return {
+    tableGuid: table.tableGuid,
+    tableName: generateTableName(table.tableGuid),
+    gamePhase: table.gamePhase,
+    communityCards: table.communityCards,
+    handNumber: table.handNumber,
+    maxPlayers: table.maxPlayers,
+    bigBlindSeat: table.bigBlindSeat,
+    smallBlindSeat: table.smallBlindSeat,
+    dealerSeat: table.dealerSeat,
+    buttonRule: table.buttonRule ?? 'moving',
+    deckCount: table.deck.length,
+    burnedCount: (table.burnedCards ?? []).length,
+    serverSeedHash: table.shuffleSeeds?.serverSeedHash ?? '',
+    clientSeedCount: Object.keys(table.shuffleSeeds?.clientSeeds ?? {}).length,
+    variant: variant.id,
+    variantName: variant.name,
+    phaseName: getPhaseName(variant, table.gamePhase),
+    nextVariantName: nextVariant?.name,
+    deckOptions: table.deckOptions ?? {},
+    showdown: toPublicShowdown(table),
+    bettingEnabled: table.bettingEnabled === true,
+    smallBlind: table.smallBlind ?? 0,
+    bigBlind: table.bigBlind ?? 0,
+    ante: table.ante ?? 0,
+    tournament: table.tournament ? createTournamentView(table.tournament) : undefined,
+    tournamentGuid: table.tournamentGuid,
+    pot: table.pot ?? 0,
+    currentBet: table.currentBet ?? 0,
+    actionSeat: table.actionSeat ?? null,
+    pendingDiscards: table.gamePhase === 'Pre-Flop' ? getPendingDiscards(table).length : 0,
+    uncontestedWinner: isHandDecided(table)
+      ? getPlayerAlias(getLivePlayers(table)[0])
+      : undefined,
+    odds: toOddsView(table),
+    lastUpdated: new Date().toISOString(),
+  };
+}
+
+// View for the shared table display: no deck, no pocket cards, no player guids
+export function createTableView(table: Table): TableView {
+  return {
+    ...baseTableView(table),
+    players: table.players.map(player => toPublicPlayer(table, player)),
+  };
+}
+
+// View for the host screen: like the display view, plus player guids for seat management
+export function createAdminView(table: Table): AdminTableView {
+  return {
+    ...baseTableView(table),
+    players: table.players.map(player => toAdminPlayer(table, player)),
+    settings: getTableSettings(table),
+  };
+}
+
+// View for a single player: the only projection that includes pocket cards, and only their own
+export function createPlayerView(table: Table, playerGuid: string): PlayerView | null {
+  const player = table.players.find(p => p.playerGuid === playerGuid);
+
+  if (!player) {
+    return null;
+  }
+
+  const variant = getTableVariant(table);
+  const discardsRequired = table.gamePhase === 'Pre-Flop' && isInHand(player)
+    ? Math.max(player.pocketCards.length - getCardsKept(variant), 0)
+    : 0;
+
+  return {
+    player: {
+      ...player,
+      playerAlias: getPlayerAlias(player),
+    },
+    table: {
+      tableGuid: table.tableGuid,
+      tableName: generateTableName(table.tableGuid),
+      gamePhase: table.gamePhase,
+      phaseName: getPhaseName(variant, table.gamePhase),
+      variant: variant.id,
+      variantName: variant.name,
+      holeCards: variant.holeCards,
+      discardsRequired,
+      handNumber: table.handNumber,
+      communityCards: table.communityCards,
+      handStrengthHint: table.handStrengthHint ?? true,
+      serverSeedHash: table.shuffleSeeds?.serverSeedHash ?? '',
+      clientSeed: table.shuffleSeeds?.clientSeeds[player.playerGuid],
+      isDealer: player.seat === table.dealerSeat,
+      isSmallBlind: player.seat === table.smallBlindSeat,
+      isBigBlind: player.seat === table.bigBlindSeat,
+      bettingEnabled: table.bettingEnabled === true,
+      pot: table.pot ?? 0,
+      currentBet: table.currentBet ?? 0,
+      bigBlind: table.bigBlind ?? 0,
+      isMyTurn: table.actionSeat === player.seat,
+      toCall: table.bettingEnabled ? getAmountToCall(table, player) : 0,
+      minRaiseTo: table.bettingEnabled ? getMinRaiseTo(table) : 0,
+      maxRaiseTo: table.bettingEnabled ? getMaxRaiseTo(table, player) : 0,
+      canRaise: table.bettingEnabled === true && canRaise(table, player),
+      canRebuy: isLedgerKept(table) && player.stack === 0 && player.totalBet === 0,
+    },
+  };
+}
+
+// View for a multi-table tournament's lobby, given its tables (broken ones included)
+export function createMultiTableTournamentView(tournament: MultiTableTournament, tables: Table[]): MultiTableTournamentView {
+  // Chips in the pot still count, so players all-in mid-hand aren't out yet
+  const playersWithChips = (table: Table) =>
+    table.players.filter(player => !player.markedForRemoval && (player.stack > 0 || player.totalBet > 0)).length;
+
+  const summaries = tables.map(table => ({
+    tableGuid: table.tableGuid,
+    tableName: generateTableName(table.tableGuid),
+    gamePhase: table.gamePhase,
+    playerCount: playersWithChips(table),
+    isBroken: tournament.brokenTableGuids.includes(table.tableGuid),
+  }));
+
+  return {
+    tournamentGuid: tournament.tournamentGuid,
+    tables: summaries,
+    playersRemaining: summaries.filter(table => !table.isBroken).reduce((total, table) => total + table.playerCount, 0),
+    seatsPerTable: tournament.seatsPerTable,
+    finalTableGuid: tournament.finalTableGuid,
+    eliminations: tournament.eliminations.map(elimination => ({
+      playerAlias: elimination.playerAlias ?? generatePokerPlayerAlias(elimination.playerGuid),
+      place: elimination.place,
+    })),
+  };
+}
@@ -0,0 +1,191 @@
+import { Table, BlindLevel, Tournament, TournamentStructure, TournamentView } from './types';
+
+// Longest a single level (or break) can last
+export const MAX_LEVEL_MINUTES = 240;
+
+// Most tables a multi-table tournament can open
+export const MAX_TOURNAMENT_TABLES = 10;
+
+// A short home-game structure to start from: 20-minute levels with a break after level four
+export const DEFAULT_TOURNAMENT_STRUCTURE: TournamentStructure = {
+  startingStack: 5000,
+  levels: [
+    { smallBlind: 25, bigBlind: 50, ante: 0, minutes: 20 },
+    { smallBlind: 50, bigBlind: 100, ante: 0, minutes: 20 },
+    { smallBlind: 75, bigBlind: 150, ante: 25, minutes: 20 },
+    { smallBlind: 100, bigBlind: 200, ante: 25, minutes: 20 },
+    { smallBlind: 0, bigBlind: 0, ante: 0, minutes: 10, isBreak: true },
+    { smallBlind: 150, bigBlind: 300, ante: 50, minutes: 20 },
+    { smallBlind: 200, bigBlind: 400, ante: 50, minutes: 20 },
+    { smallBlind: 300, bigBlind: 600, ante: 75, minutes: 20 },
+  ],
+};
+
+// Roll a clock position past any levels whose time has run out; the last level never ends
+export function getClockPosition(
+  levels: BlindLevel[],
+  levelIndex: number,
+  elapsedMs: number
+): { levelIndex: number; elapsedMs: number } {
+  let index = levelIndex;
+  let elapsed = elapsedMs;
+
+  while (index < levels.length - 1 && elapsed >= levels[index].minutes * 60 * 1000) {
+    elapsed -= levels[index].minutes * 60 * 1000;
+    index++;
+  }
+
+  return { levelIndex: index, elapsedMs: elapsed };
+}
+
+// Time left in a level, or null for the last level, which runs until the tournament is over
+export function getLevelRemainingMs(levels: BlindLevel[], levelIndex: number, elapsedMs: number): number | null {
+  if (levelIndex >= levels.length - 1) {
+    return null;
+  }
+
+  return Math.max(levels[levelIndex].minutes * 60 * 1000 - elapsedMs, 0);
+}
+
+// Read the tournament clock as of now
+function readClock(tournament: Tournament, now: number): { levelIndex: number; elapsedMs: number } {
+  const { levelIndex, elapsedMs, runningSince } = tournament.clock;
+  const running = runningSince === null ? 0 : Math.max(now - Date.parse(runningSince), 0);
+
+  return getClockPosition(tournament.levels, levelIndex, elapsedMs + running);
+}
+
+// Get the level whose blinds apply at a point in the structure: a break keeps the blinds of the level before it
+export function getBlindLevel(levels: BlindLevel[], levelIndex: number): BlindLevel | undefined {
+  for (let index = levelIndex; index >= 0; index--) {
+    if (!levels[index]?.isBreak) {
+      return levels[index];
+    }
+  }
+
+  return levels.find(level => !level.isBreak);
+}
+
+// Get the next level that changes the blinds, if there is one
+export function getNextBlindLevel(levels: BlindLevel[], levelIndex: number): BlindLevel | undefined {
+  return levels.slice(levelIndex + 1).find(level => !level.isBreak);
+}
+
+// Check a tournament structure, returning an error message if it is invalid
+export function validateTournamentStructure(structure: TournamentStructure): string | null {
+  if (typeof structure !== 'object' || structure === null || !Array.isArray(structure.levels)) {
+    return 'tournament must have a startingStack and a list of levels';
+  }
+
+  const { startingStack, levels } = structure;
+
+  if (!Number.isInteger(startingStack) || startingStack <= 0) {
+    return 'tournament.startingStack must be a positive whole number';
+  }
+
+  if (!levels.some(level => !level?.isBreak)) {
+    return 'A tournament needs at least one blind level';
+  }
+
+  for (let index = 0; index < levels.length; index++) {
+    const level = levels[index];
+    const name = `Level ${index + 1}`;
+
+    if (typeof level !== 'object' || level === null) {
+      return `${name} must be an object with its minutes and blinds`;
+    }
+
+    if (!Number.isInteger(level.minutes) || level.minutes < 1 || level.minutes > MAX_LEVEL_MINUTES) {
+      return `${name} must last between 1 and ${MAX_LEVEL_MINUTES} minutes`;
+    }
+
+    if (level.isBreak) {
+      continue;
+    }
+
+    if (![level.smallBlind, level.bigBlind].every(chips => Number.isInteger(chips) && chips > 0)) {
+      return `${name} blinds must be positive whole numbers`;
+    }
+
+    if (!Number.isInteger(level.ante) || level.ante < 0) {
+      return `${name} ante must be a whole number (0 for none)`;
+    }
+
+    if (level.smallBlind > level.bigBlind) {
+      return `${name} small blind cannot be larger than its big blind`;
+    }
+  }
+
+  const firstLevel = getBlindLevel(levels, 0);
+  if (firstLevel && startingStack < firstLevel.bigBlind) {
+    return 'tournament.startingStack must cover at least one big blind of the first level';
+  }
+
+  return null;
+}
+
+// Put the blinds of the clock's current level into play; called between hands
+export function applyTournamentLevel(table: Table, now: number = Date.now()): void {
+  if (!table.tournament) {
+    return;
+  }
+
+  const { levelIndex } = readClock(table.tournament, now);
+  const level = getBlindLevel(table.tournament.levels, levelIndex);
+
+  if (level) {
+    table.smallBlind = level.smallBlind;
+    table.bigBlind = level.bigBlind;
+    table.ante = level.ante;
+    table.minRaise = level.bigBlind;
+  }
+
+  table.tournament.blindsLevelIndex = levelIndex;
+}
+
+// Start, change or end a table's tournament; a changed structure keeps the clock where it is
+export function setTournamentStructure(table: Table, structure: TournamentStructure | null): void {
+  if (!structure) {
+    if (table.tournament) {
+      delete table.tournament;
+      table.ante = 0;
+    }
+    return;
+  }
+
+  const clock = table.tournament?.clock ?? { levelIndex: 0, elapsedMs: 0, runningSince: null };
+
+  table.tournament = {
+    startingStack: structure.startingStack,
+    levels: structure.levels,
+    clock: { ...clock, levelIndex: Math.min(clock.levelIndex, structure.levels.length - 1) },
+    blindsLevelIndex: 0,
+  };
+  table.startingStack = structure.startingStack;
+
+  applyTournamentLevel(table);
+}
+
+// Start or pause the blind clock, banking the time run so far
+export function setClockRunning(tournament: Tournament, running: boolean, now: number = Date.now()): void {
+  const { levelIndex, elapsedMs } = readClock(tournament, now);
+
+  tournament.clock = {
+    levelIndex,
+    elapsedMs,
+    runningSince: running ? new Date(now).toISOString() : null,
+  };
+}
+
+// Project the tournament for the table screens
+export function createTournamentView(tournament: Tournament, now: number = Date.now()): TournamentView {
+  const { levelIndex, elapsedMs } = readClock(tournament, now);
+
+  return {
+    levels: tournament.levels,
+    levelIndex,
+    levelElapsedMs: elapsedMs,
+    isRunning: tournament.clock.runningSince !== null,
+    blindsLevelIndex: tournament.blindsLevelIndex,
+  };
+}
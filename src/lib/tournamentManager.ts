@@ -0,0 +1,204 @@
+import { v4 as uuidv4 } from 'uuid';
+import { MultiTableTournament, Table, TableSettings, Player } from './types';
+import {
+  createTable,
+  getTable,
+  movePlayer,
+  removePlayer,
+  setTournamentClockRunning,
+  withTableLock
+} from './tableManager';
+import { getTableStore } from './tableStore';
+import { getPlayerAlias } from './playerIdentity';
+
+// Create a tournament's tables, all with the same settings, and the tournament that owns them
+export function createMultiTableTournament(settings: TableSettings, tableCount: number): MultiTableTournament {
+  const tournamentGuid = uuidv4();
+  const tables = Array.from({ length: tableCount }, () => createTable(settings, tournamentGuid));
+
+  const tournament: MultiTableTournament = {
+    tournamentGuid,
+    tableGuids: tables.map(table => table.tableGuid),
+    brokenTableGuids: [],
+    seatsPerTable: settings.maxPlayers,
+    eliminations: [],
+    finalTableGuid: null,
+    createdAt: new Date().toISOString(),
+    version: 0 // Not saved yet
+  };
+
+  saveMultiTableTournament(tournament);
+
+  return tournament;
+}
+
+// Get a multi-table tournament by guid
+export function getMultiTableTournament(tournamentGuid: string): MultiTableTournament | null {
+  return getTableStore().getMultiTableTournament(tournamentGuid);
+}
+
+// Save a tournament, rejecting the write if it changed since it was read
+function saveMultiTableTournament(tournament: MultiTableTournament): void {
+  const expectedVersion = tournament.version;
+
+  tournament.version = expectedVersion + 1;
+
+  if (!getTableStore().putMultiTableTournament(tournament, expectedVersion)) {
+    tournament.version = expectedVersion;
+    throw new Error(`Tournament ${tournament.tournamentGuid} changed while saving`);
+  }
+}
+
+// Get every table the tournament opened, broken ones included
+export function getTournamentTables(tournament: MultiTableTournament): Table[] {
+  return [...tournament.tableGuids, ...tournament.brokenTableGuids]
+    .map(tableGuid => getTable(tableGuid))
+    .filter((table): table is Table => table !== null);
+}
+
+// Start or pause the blind clock at every table still in play, so the levels stay in step
+export async function setTournamentClocksRunning(tournamentGuid: string, running: boolean): Promise<void> {
+  const tournament = getMultiTableTournament(tournamentGuid);
+
+  if (!tournament) {
+    throw new Error(`Tournament with guid ${tournamentGuid} not found`);
+  }
+
+  for (const tableGuid of tournament.tableGuids) {
+    await setTournamentClockRunning(tableGuid, running);
+  }
+}
+
+// A player is still in while they have chips, counting any in the pot of a hand being played
+function hasChips(player: Player): boolean {
+  return !player.markedForRemoval && (player.stack > 0 || player.totalBet > 0);
+}
+
+// Get the tables still in play with the players left at each
+function getTablesInPlay(tournament: MultiTableTournament): { table: Table; playerCount: number }[] {
+  return tournament.tableGuids
+    .map(tableGuid => getTable(tableGuid))
+    .filter((table): table is Table => table !== null)
+    .map(table => ({ table, playerCount: table.players.filter(hasChips).length }));
+}
+
+// Take busted players off tables that are between hands; everyone out at the same time shares a place
+async function eliminateBustedPlayers(tournament: MultiTableTournament): Promise<void> {
+  const tables = getTablesInPlay(tournament);
+  const playersLeft = tables.reduce((total, { playerCount }) => total + playerCount, 0);
+  const eliminatedAt = new Date().toISOString();
+
+  for (const { table } of tables) {
+    if (table.gamePhase !== 'Waiting') {
+      continue;
+    }
+
+    for (const player of table.players.filter(p => !p.markedForRemoval && p.stack === 0)) {
+      await removePlayer(table.tableGuid, player.playerGuid);
+      tournament.eliminations.unshift({
+        playerGuid: player.playerGuid,
+        playerAlias: getPlayerAlias(player),
+        place: playersLeft + 1,
+        tableGuid: table.tableGuid,
+        eliminatedAt
+      });
+    }
+  }
+}
+
+// Break the smallest tables between hands until the players left fill as few tables as possible
+async function breakTables(tournament: MultiTableTournament): Promise<void> {
+  for (;;) {
+    const tables = getTablesInPlay(tournament);
+    const playersLeft = tables.reduce((total, { playerCount }) => total + playerCount, 0);
+    const tablesNeeded = Math.max(1, Math.ceil(playersLeft / tournament.seatsPerTable));
+
+    const toBreak = tables
+      .filter(({ table }) => table.gamePhase === 'Waiting')
+      .sort((a, b) => a.playerCount - b.playerCount)[0];
+
+    if (tables.length <= tablesNeeded || !toBreak) {
+      return;
+    }
+
+    // Each player goes to whichever remaining table is shortest at the time
+    const others = tables.filter(({ table }) => table.tableGuid !== toBreak.table.tableGuid);
+    for (const player of toBreak.table.players.filter(hasChips)) {
+      const destination = others.sort((a, b) => a.playerCount - b.playerCount)[0];
+      await movePlayer(toBreak.table.tableGuid, player.playerGuid, destination.table.tableGuid);
+      destination.playerCount++;
+    }
+
+    tournament.tableGuids = tournament.tableGuids.filter(tableGuid => tableGuid !== toBreak.table.tableGuid);
+    tournament.brokenTableGuids.push(toBreak.table.tableGuid);
+  }
+}
+
+// Move players from the fullest table to the shortest until no two tables differ by more than one player
+// The player due the big blind moves, so nobody skips or pays the blinds twice
+async function evenTables(tournament: MultiTableTournament): Promise<void> {
+  for (;;) {
+    const tables = getTablesInPlay(tournament);
+    const shortest = [...tables].sort((a, b) => a.playerCount - b.playerCount)[0];
+
+    // Only a table between hands can give up a player; a busy one is evened out after its hand
+    const fullest = tables
+      .filter(({ table }) => table.gamePhase === 'Waiting')
+      .sort((a, b) => b.playerCount - a.playerCount)[0];
+
+    if (!shortest || !fullest || fullest.playerCount - shortest.playerCount <= 1) {
+      return;
+    }
+
+    const bigBlind = fullest.table.players.find(player => player.seat === fullest.table.bigBlindSeat);
+    const mover = bigBlind && hasChips(bigBlind) ? bigBlind : fullest.table.players.find(hasChips);
+
+    if (!mover) {
+      return;
+    }
+
+    await movePlayer(fullest.table.tableGuid, mover.playerGuid, shortest.table.tableGuid);
+  }
+}
+
+// Bring a tournament's tables back into line: knock out busted players, break tables that are no longer
+// needed and even out the rest. Tables in the middle of a hand are left until their hand ends.
+export function balanceTournament(tournamentGuid: string): Promise<MultiTableTournament> {
+  return withTableLock(tournamentGuid, async () => {
+    const tournament = getMultiTableTournament(tournamentGuid);
+
+    if (!tournament) {
+      throw new Error(`Tournament with guid ${tournamentGuid} not found`);
+    }
+
+    try {
+      await eliminateBustedPlayers(tournament);
+      await breakTables(tournament);
+      await evenTables(tournament);
+    } finally {
+      // Keep whatever was done, even if a move was turned down part way through
+      if (!tournament.finalTableGuid && tournament.tableGuids.length === 1) {
+        tournament.finalTableGuid = tournament.tableGuids[0];
+      }
+      saveMultiTableTournament(tournament);
+    }
+
+    return tournament;
+  });
+}
+
+// Once a tournament table's hand is over, rebalance the tournament and return the table as it is now
+export async function balanceAfterHand(table: Table): Promise<Table> {
+  if (!table.tournamentGuid || table.gamePhase !== 'Waiting') {
+    return table;
+  }
+
+  try {
+    await balanceTournament(table.tournamentGuid);
+  } catch (error) {
+    // The hand itself is over either way; the next hand to finish tries again
+    console.error('Error balancing tournament tables:', error);
+  }
+
+  return getTable(table.tableGuid) ?? table;
+}
@@ -2,16 +2,255 @@ export type Card = {
   rank: string;
   suit: string;
   code: string; // e.g., "AS" for Ace of Spades
+  isWild?: boolean; // Jokers, and deuces when deuces are wild, can stand in for any card
+};
+
+// Extra cards and wild cards chosen when creating a table
+export type DeckOptions = {
+  jokers?: number; // Jokers added to the deck (0-2)
+  deucesWild?: boolean;
+};
+
+// A code that can be used once, before it expires (host handoffs and player rejoin codes)
+export type OneTimeCode = {
+  codeHash: string; // SHA-256 of the code (the code itself is only shown to the host)
+  expiresAt: string;
 };
 
 export type Player = {
   playerGuid: string;
+  seat: number; // Seat number from 1 to the table's maxPlayers; seats are numbered clockwise
   pocketCards: Card[];
-  playerAlias?: string; // Optional player alias for display
+  playerAlias?: string; // Nickname the player picked; the alias generated from their guid is used until they do
+  avatar?: PlayerAvatar; // Shown next to their name
+  profileId?: string; // Profile of the device they sat down from, if it has one
   markedForRemoval?: boolean; // Flag to indicate the player should be removed at end of hand
+  stack: number; // Chips behind (only meaningful when betting is enabled)
+  currentBet: number; // Chips put in during the current betting round
+  totalBet: number; // Chips put in during the whole hand (used to build side pots)
+  hasFolded?: boolean; // Player has folded the current hand
+  muckedCards?: Card[]; // Pocket cards thrown away on folding, kept for the hand history
+  hasActed?: boolean; // Player has acted since the last bet or raise in this round
+  rejoinCode?: OneTimeCode; // Pending code for getting back to this seat from another device
+  sittingOut?: boolean; // Keeps the seat but is not dealt in or given the blinds
+  missedBlinds?: MissedBlinds; // Blinds that passed the seat while sitting out, posted on return
 };
 
-export type GamePhase = 'Waiting' | 'Pre-Flop' | 'Flop' | 'Turn' | 'River';
+// An avatar picked by the player: an emoji, or a colour shown behind their initial
+export type PlayerAvatar = { emoji: string } | { color: string };
+
+// Blinds a player skipped while sitting out
+export type MissedBlinds = {
+  small: boolean; // Posted dead (into the pot, not counted towards their bet)
+  big: boolean; // Posted live (counts as their bet, like the big blind)
+};
+
+// How the button and blinds move when seats are empty or players sit out
+// 'moving': the button always moves to the next player dealt in and the blinds follow it
+// 'dead': the big blind moves one player on each hand and the button and small blind follow behind it,
+// even onto a seat nobody is playing from
+export type ButtonRule = 'moving' | 'dead';
+
+// When the table display shows each live hand's chance of winning:
+// 'always': on every street of every hand
+// 'all-in': only once everyone still in is all-in and the rest of the board is just dealt out
+export type OddsOverlay = 'off' | 'always' | 'all-in';
+
+export type BettingAction = 'fold' | 'check' | 'call' | 'bet' | 'raise';
+
+export type GamePhase = 'Waiting' | 'Pre-Flop' | 'Flop' | 'Turn' | 'River' | 'Showdown';
+
+export type GameVariantId = 'holdem' | 'plo' | 'plo5' | 'pineapple';
+
+// A round of community cards dealt during a hand
+export type BoardStreet = {
+  phase: GamePhase; // Phase the table enters once the cards are dealt
+  cards: number; // Community cards dealt on this street
+  name: string; // Display name (e.g., "Flop")
+};
+
+// The rules that differ between the games the table can deal
+export type GameVariant = {
+  id: GameVariantId;
+  name: string; // e.g., "Pot-Limit Omaha"
+  shortName: string; // e.g., "PLO"
+  holeCards: number; // Pocket cards dealt to each player
+  discards: number; // Pocket cards each player throws away before the flop (Pineapple)
+  holeCardsUsed?: number; // Exact number of pocket cards a hand must use (2 in Omaha), any number if unset
+  potLimit: boolean; // Bets and raises are capped at the size of the pot
+  maxPlayers: number; // Most players the deck can deal to
+  boardStreets: BoardStreet[];
+};
+
+// Seconds the table screen waits before advancing on its own; null leaves it to the host
+export type AutoAdvanceTimers = {
+  dealSeconds: number | null; // From waiting to dealing the next hand
+  streetSeconds: number | null; // Before the next street, once nobody has a decision to make
+  showdownSeconds: number | null; // From the end of a hand to clearing the table
+};
+
+// One step of a tournament's blind structure
+export type BlindLevel = {
+  smallBlind: number;
+  bigBlind: number;
+  ante: number; // Chips every player dealt in puts in before the blinds, 0 for none
+  minutes: number; // How long the level lasts (the last level runs until the tournament is over)
+  isBreak?: boolean; // A break in play: the blinds of the level before stay in place
+};
+
+// A tournament's starting stack and blind levels, chosen in the table settings
+export type TournamentStructure = {
+  startingStack: number;
+  levels: BlindLevel[];
+};
+
+// The blind clock: how long it has spent in which level, and whether it is running
+export type TournamentClock = {
+  levelIndex: number;
+  elapsedMs: number; // Time spent in the level before runningSince
+  runningSince: string | null; // When the clock was last started, null while paused
+};
+
+// A table's tournament: its structure, the clock and the level whose blinds are in play
+export type Tournament = TournamentStructure & {
+  clock: TournamentClock;
+  blindsLevelIndex: number; // Catches up with the clock's level between hands
+};
+
+// Everything the host chooses about a table, set when it is created and changeable between hands
+export type TableSettings = {
+  maxPlayers: number;
+  variant: GameVariantId;
+  variantRotation: GameVariantId[]; // Variants to cycle through, switching every orbit
+  jokers: number;
+  deucesWild: boolean;
+  burnCards: boolean;
+  bettingEnabled: boolean;
+  smallBlind: number;
+  bigBlind: number;
+  startingStack: number; // Chips for each player who sits down
+  buttonRule: ButtonRule;
+  showHandsAtShowdown: boolean; // Turn every hand still in face up, or only the winning hands
+  oddsOverlay: OddsOverlay;
+  handStrengthHint: boolean; // Let players' phones name the best hand they hold
+  autoAdvance: AutoAdvanceTimers;
+  tournament: TournamentStructure | null; // Blind levels that replace the fixed blinds and starting stack
+};
+
+// Settings chosen when creating a table or changing it; anything left out keeps its default (or current) value
+export type TableOptions = Partial<TableSettings>;
+
+// A single player's hand as revealed at showdown
+export type ShowdownHand = {
+  playerGuid: string;
+  pocketCards: Card[];
+  bestCards: Card[]; // The five cards that make up the best hand
+  handName: string; // e.g., "Flush, K high"
+  rank: number; // 1 for the winning hand(s); tied hands share a rank
+  amountWon: number; // Chips won from the pot (0 when betting is disabled)
+};
+
+export type ShowdownResult = {
+  hands: ShowdownHand[]; // Ordered from best to worst
+  winnerGuids: string[]; // More than one winner means a split pot
+  winningHandName: string;
+};
+
+// A single entry in the action log of a hand
+export type HandAction = {
+  phase: GamePhase; // Street the action happened on
+  playerGuid: string;
+  action: BettingAction | 'ante' | 'small blind' | 'big blind' | 'small & big blinds';
+  amount: number; // Chips put in by this action
+  raiseTo?: number; // Total bet after a bet or raise
+  isAllIn?: boolean;
+};
+
+// Seeds for the commit-reveal shuffle of a hand
+export type ShuffleSeeds = {
+  serverSeed: string; // Kept secret until the hand is over
+  serverSeedHash: string; // SHA-256 of the server seed, published before the hand is dealt
+  clientSeeds: Record<string, string>; // Seeds contributed from players' phones (by guid)
+};
+
+// The result of re-deriving a finished hand's deck from its revealed seeds
+export type ShuffleVerification = {
+  tableGuid: string;
+  handNumber: number;
+  serverSeed: string;
+  serverSeedHash: string;
+  clientSeeds: { playerAlias: string; clientSeed: string }[]; // In player guid order (guids stay private)
+  clientSeed: string; // Client seeds joined with ':' in player guid order
+  hashMatches: boolean; // The revealed server seed matches the hash published before the hand
+  dealMatches: boolean; // The cards dealt are the top of the re-derived deck, in order
+  deck: string[]; // Card codes of the re-derived deck, top first
+  dealt: string[]; // Card codes in the order they were dealt
+};
+
+// A card taken off the deck, in the order it was dealt
+export type DealtCard = {
+  card: Card;
+  phase: GamePhase; // Phase the table was in when the card was dealt
+  destination: 'player' | 'board' | 'burn';
+  playerGuid?: string; // Set for cards dealt to a player
+};
+
+// Bookkeeping for the hand currently being played, turned into a history entry when it ends
+export type HandInProgress = {
+  startedAt: string;
+  startingStacks: Record<string, number>; // Stack of each player (by guid) when the hand was dealt
+  actions: HandAction[];
+  dealingOrder: DealtCard[];
+};
+
+export type HandHistorySeat = {
+  seat: number; // 1-based seat in the order players sat at the table
+  playerGuid: string;
+  playerAlias: string;
+  startingStack: number;
+  endingStack: number;
+  holeCards: Card[];
+  folded: boolean;
+};
+
+// How a hand finished: shown down, won uncontested after everyone else folded, or ended early by the host
+export type HandEnding = 'showdown' | 'fold' | 'reset';
+
+// An immutable record of a completed hand
+export type HandHistoryEntry = {
+  tableGuid: string;
+  tableName: string;
+  handNumber: number;
+  variant: GameVariantId;
+  startedAt: string;
+  endedAt: string;
+  bettingEnabled: boolean;
+  smallBlind: number;
+  bigBlind: number;
+  buttonSeat: number;
+  smallBlindSeat: number;
+  bigBlindSeat: number;
+  seats: HandHistorySeat[];
+  board: Card[];
+  actions: HandAction[];
+  dealingOrder: DealtCard[]; // Every card taken off the deck, burns included
+  deckOptions: DeckOptions;
+  shuffle?: ShuffleSeeds; // Revealed once the hand is over
+  endedBy: HandEnding;
+  showdown?: ShowdownResult;
+  totalPot: number; // Chips contested, leaving out any uncalled bet
+  winnings: Record<string, number>; // Chips collected from the pot by each winner (by guid)
+  uncalledBet?: { playerGuid: string; amount: number }; // Part of the biggest bet nobody called, handed back to its player
+};
+
+// Chips a player brought to a cash game or took away from it
+export type LedgerEntry = {
+  playerGuid: string;
+  playerAlias?: string; // Name they went by at the time, so it outlasts their seat
+  kind: 'buy-in' | 'rebuy' | 'cash-out';
+  amount: number;
+  at: string;
+};
 
 export type Table = {
   tableGuid: string;
@@ -21,7 +260,305 @@ export type Table = {
   deck: Card[];
   handNumber: number; // Simple sequence number for the current hand (starts at 0)
   maxPlayers: number; // Maximum number of players allowed at the table
-  bigBlindPosition: number; // Index of the player with the big blind
-  smallBlindPosition: number; // Index of the player with the small blind
-  dealerPosition: number; // Index of the player with the dealer button
+  bigBlindSeat: number | null; // Seat of the player with the big blind, null while the table is empty
+  smallBlindSeat: number | null; // Seat of the player with the small blind
+  dealerSeat: number | null; // Seat with the dealer button (under the dead button rule the seat may be empty)
+  buttonRule: ButtonRule;
+  showdown?: ShowdownResult; // Set when the hand reaches the showdown
+  version: number; // Incremented on every save; a save from an older version is rejected
+  bettingEnabled: boolean; // Track chips, blinds and betting rounds
+  smallBlind: number; // Small blind amount
+  bigBlind: number; // Big blind amount
+  ante: number; // Posted by every player dealt in, 0 for none
+  startingStack: number; // Chips each player receives when sitting down
+  pot: number; // All chips put in during the current hand
+  currentBet: number; // Highest bet in the current betting round
+  minRaise: number; // Minimum raise increment in the current betting round
+  actionSeat: number | null; // Seat of the player to act, null when no betting round is open
+  currentHand?: HandInProgress; // Set while a hand is being played
+  variant: GameVariantId; // Game being dealt
+  deckOptions: DeckOptions; // Jokers and wild cards used when building each new deck
+  burnCards: boolean; // Burn a card before dealing each street
+  burnedCards: Card[]; // Cards burned this hand, kept face down until the hand is over
+  shuffleSeeds: ShuffleSeeds; // Seeds for the next (or current) hand's shuffle
+  hostSecret?: string; // Signs host tokens; unset on tables created before hosts were introduced
+  hostHandoff?: OneTimeCode; // Pending code for giving another device control
+  variantRotation: GameVariantId[]; // Variants to cycle through every orbit (empty to always deal the same game)
+  handsInVariant: number; // Hands completed since the variant last changed
+  showHandsAtShowdown: boolean; // Show every hand still in at showdown, or only the winners'
+  oddsOverlay: OddsOverlay; // When the display shows each live hand's chance of winning
+  handStrengthHint: boolean; // Let players' phones name the best hand they hold
+  autoAdvance: AutoAdvanceTimers;
+  tournament?: Tournament; // Set when the blinds follow a tournament clock
+  tournamentGuid?: string; // The multi-table tournament this table is part of
+  ledger: LedgerEntry[]; // Buy-ins, rebuys and cash-outs of the session, oldest first (cash games only)
+};
+
+// A player knocked out of a multi-table tournament and the place they finished in
+export type TournamentElimination = {
+  playerGuid: string;
+  playerAlias?: string; // Name they went by when they busted
+  place: number;
+  tableGuid: string; // Table they busted at
+  eliminatedAt: string;
+};
+
+// One event played across several tables: players are moved to keep the tables even,
+// tables are broken as players bust, and everyone left ends up at a final table
+export type MultiTableTournament = {
+  tournamentGuid: string;
+  tableGuids: string[]; // Tables still in play, in the order they were opened
+  brokenTableGuids: string[]; // Tables whose players were moved elsewhere
+  seatsPerTable: number;
+  eliminations: TournamentElimination[]; // Latest first
+  finalTableGuid: string | null; // Set once everyone left fits at one table
+  createdAt: string;
+  version: number; // Incremented on every save, like Table.version
+};
+
+// A seat taken at a table by someone with a profile; rebuys and tournament moves keep the player guid
+export type ProfileSession = {
+  tableGuid: string;
+  playerGuid: string;
+  joinedAt: string;
+};
+
+// A player's own record, created once per device so regulars are known from one game to the next
+export type PlayerProfile = {
+  profileId: string;
+  nickname: string | null; // Picked up as the default nickname at every table
+  avatar: PlayerAvatar | null;
+  sessions: ProfileSession[]; // Oldest first
+  createdAt: string;
+  secret?: string; // Signs the device cookie that claims the profile (never sent to any client); unset on older profiles
+  version: number; // Incremented on every save, like Table.version
+};
+
+// A player as seen by everyone at the table: no pocket cards, only how many they hold
+export type PublicPlayer = {
+  playerAlias: string;
+  avatar?: PlayerAvatar;
+  seat: number;
+  sittingOut: boolean;
+  owesBlinds: boolean; // Has to post missed blinds when sitting back in
+  cardCount: number;
+  hasCards: boolean;
+  markedForRemoval?: boolean;
+  shownCards?: Card[]; // Pocket cards, only present once revealed at showdown
+  shownHandName?: string; // Best hand made, only present at showdown
+  isWinner?: boolean; // Whether this player won (or split) the pot at showdown
+  stack: number;
+  currentBet: number;
+  hasFolded: boolean;
+  isAllIn: boolean;
+};
+
+// A live hand's chance of winning, as shown on the table display
+export type HandOdds = {
+  playerAlias: string;
+  seat: number;
+  equity: number; // Percentage of the pot the hand wins on average, ties counting as a share
+  tiePercent: number; // Percentage of run-outs that split the pot
+  cards?: Card[]; // Pocket cards, once the hands are tabled
+  outs?: Card[]; // Cards on the next street that put the hand ahead, once the hands are tabled
+};
+
+// Every live hand's chance of winning at the current street
+export type OddsView = {
+  method: 'exact' | 'monte-carlo'; // Every possible run-out, or a random sample of them
+  runouts: number; // Board run-outs the odds were worked out over
+  isTabled: boolean; // Everyone is all-in, so the hands are face up
+  hands: HandOdds[];
+};
+
+// A player as seen by the host, who needs the guid to manage seats
+export type AdminPlayer = PublicPlayer & {
+  playerGuid: string;
+};
+
+// A showdown hand as shown on the display, keyed by alias instead of guid
+export type PublicShowdownHand = Omit<ShowdownHand, 'playerGuid'> & {
+  playerAlias: string;
+  isWinner: boolean;
+};
+
+export type PublicShowdownResult = {
+  hands: PublicShowdownHand[];
+  winnerAliases: string[];
+  winningHandName: string;
+  isSplitPot: boolean;
+};
+
+// The tournament clock as of when the view was made; screens count down from there
+export type TournamentView = {
+  levels: BlindLevel[];
+  levelIndex: number;
+  levelElapsedMs: number;
+  isRunning: boolean;
+  blindsLevelIndex: number; // Level whose blinds are in play this hand
+};
+
+// The table as shown on the shared display
+export type TableView = {
+  tableGuid: string;
+  tableName: string;
+  gamePhase: GamePhase;
+  communityCards: Card[];
+  players: PublicPlayer[];
+  handNumber: number;
+  maxPlayers: number;
+  bigBlindSeat: number | null;
+  smallBlindSeat: number | null;
+  dealerSeat: number | null;
+  buttonRule: ButtonRule;
+  deckCount: number; // Number of cards left in the deck (the deck itself is never exposed)
+  burnedCount: number; // Cards in the discard pile (the cards themselves stay hidden)
+  serverSeedHash: string; // Commitment to the next (or current) hand's shuffle
+  clientSeedCount: number; // Players who have contributed a seed to the shuffle
+  variant: GameVariantId;
+  variantName: string;
+  phaseName: string; // Display name of the current phase for this variant
+  nextVariantName?: string; // Game dealt after this orbit, when variants rotate
+  deckOptions: DeckOptions;
+  showdown?: PublicShowdownResult;
+  bettingEnabled: boolean;
+  smallBlind: number;
+  bigBlind: number;
+  ante: number;
+  tournament?: TournamentView;
+  tournamentGuid?: string; // Multi-table tournament the table is part of
+  pot: number;
+  currentBet: number;
+  actionSeat: number | null;
+  pendingDiscards: number; // Players who still have to throw away pocket cards before the flop
+  uncontestedWinner?: string; // Alias of the last player in once everyone else has folded, so the hand can end early
+  odds?: OddsView; // Only while the host has the odds overlay on for this point of the hand
+  lastUpdated: string; // Timestamp for client synchronization
+};
+
+// The table as shown to the host controlling it
+export type AdminTableView = Omit<TableView, 'players'> & {
+  players: AdminPlayer[];
+  settings: TableSettings;
+};
+
+// Everything a single player may see: their own pocket cards plus their role at the table
+export type PlayerView = {
+  player: Player & { playerAlias: string };
+  table: {
+    tableGuid: string;
+    tableName: string;
+    gamePhase: GamePhase;
+    phaseName: string;
+    variant: GameVariantId;
+    variantName: string;
+    holeCards: number; // Pocket cards dealt in this variant
+    discardsRequired: number; // Pocket cards the player still has to throw away before the flop
+    handNumber: number;
+    communityCards: Card[];
+    handStrengthHint: boolean; // The host lets the phone name the player's best hand
+    serverSeedHash: string;
+    clientSeed?: string; // This player's contribution to the shuffle
+    isDealer: boolean;
+    isSmallBlind: boolean;
+    isBigBlind: boolean;
+    bettingEnabled: boolean;
+    pot: number;
+    currentBet: number;
+    bigBlind: number;
+    isMyTurn: boolean;
+    toCall: number; // Chips needed to call
+    minRaiseTo: number; // Smallest legal total for a bet or raise
+    maxRaiseTo: number; // Largest legal total for a bet or raise (the pot in pot-limit games)
+    canRaise: boolean; // False after a short all-in, when the player can only call or fold
+    canRebuy: boolean; // Out of chips at a cash game, so the player can buy back in without leaving the seat
+  };
+};
+
+// A table of a multi-table tournament, as listed in the tournament lobby
+export type TournamentTableSummary = {
+  tableGuid: string;
+  tableName: string;
+  gamePhase: GamePhase;
+  playerCount: number; // Players with chips
+  isBroken: boolean;
+};
+
+// A multi-table tournament as shown in its lobby
+export type MultiTableTournamentView = {
+  tournamentGuid: string;
+  tables: TournamentTableSummary[];
+  playersRemaining: number;
+  seatsPerTable: number;
+  finalTableGuid: string | null;
+  eliminations: { playerAlias: string; place: number }[];
+};
+
+// A player's totals for the session; net is how much they are up (negative when down)
+export type LedgerBalance = {
+  playerAlias: string;
+  boughtIn: number;
+  cashedOut: number;
+  atTable: number; // Chips still in front of a player who hasn't left
+  net: number;
+};
+
+// One payment in the end-of-session settlement
+export type LedgerPayment = {
+  from: string; // Alias of the player paying
+  to: string; // Alias of the player being paid
+  amount: number;
+};
+
+// A table's session ledger and how to settle it, as shown to the host
+export type LedgerView = {
+  entries: (Omit<LedgerEntry, 'playerGuid'> & { playerAlias: string })[];
+  balances: LedgerBalance[];
+  payments: LedgerPayment[];
+  unsettled: number; // Chips the balances don't add up by, e.g. while a pot is still being played
+};
+
+// A player's results over a set of hands, worked out from the hand histories
+export type PlayerStats = {
+  handsDealt: number;
+  handsWon: number; // Hands they won or split, at showdown or not
+  vpip: number | null; // Percentage of hands with chips in play where they called or raised before the flop
+  showdownsSeen: number;
+  showdownsWon: number; // Showdowns they won or split
+  biggestPot: number; // Largest pot they won (or won a share of)
+  bestHand: string | null; // Best hand they made at a showdown (e.g., "Flush, K high")
+  netResult: number; // Chips won less chips lost
+};
+
+// A profile's stats over every table it played at
+export type ProfileStats = PlayerStats & {
+  tablesPlayed: number;
+};
+
+// One session on a profile page; player guids stay private
+export type ProfileSessionView = {
+  tableGuid: string;
+  tableName: string;
+  joinedAt: string;
+  lastHandAt: string | null;
+  stats: PlayerStats;
+  isSeated: boolean; // Still at the table
+};
+
+export type ProfileView = {
+  profileId: string;
+  playerAlias: string;
+  nickname: string | null;
+  avatar: PlayerAvatar | null;
+  createdAt: string;
+  stats: ProfileStats;
+  sessions: ProfileSessionView[]; // Latest first
+};
+
+// A player's line on a table's leaderboard
+export type LeaderboardEntry = {
+  playerAlias: string;
+  avatar?: PlayerAvatar;
+  isSeated: boolean;
+  stats: PlayerStats;
 };
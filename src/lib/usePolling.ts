@@ -1,6 +1,6 @@
 import { useState, useEffect, useRef, useCallback } from 'react';
 
-interface PollingOptions {
+export interface PollingOptions {
   interval?: number;
   onData?: (data: any) => void;
   onError?: (error: any) => void;
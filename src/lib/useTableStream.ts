@@ -0,0 +1,95 @@
+import { useState, useEffect, useRef } from 'react';
+import { usePolling, PollingOptions } from './usePolling';
+
+/**
+ * Subscribe to a Server-Sent Events stream, falling back to polling pollUrl while the stream is down.
+ * Returns the same shape as usePolling so pages can switch between the two.
+ */
+export function useTableStream(streamUrl: string, pollUrl: string, options: PollingOptions = {}) {
+  const [isStreaming, setIsStreaming] = useState<boolean>(false);
+  const [streamData, setStreamData] = useState<any>(null);
+  const [streamError, setStreamError] = useState<any>(null);
+  const [streamUpdated, setStreamUpdated] = useState<Date | null>(null);
+  
+  // Use a ref so the stream isn't reopened every time the callbacks change
+  const optionsRef = useRef(options);
+  
+  useEffect(() => {
+    optionsRef.current = options;
+  }, [options]);
+  
+  const streamEnabled = options.enabled !== undefined ? options.enabled : true;
+  
+  // Open the stream and keep it open for as long as the URL stays the same
+  useEffect(() => {
+    if (!streamEnabled || typeof EventSource === 'undefined') {
+      return;
+    }
+    
+    console.log(`[Stream] Connecting to ${streamUrl}`);
+    const source = new EventSource(streamUrl);
+    
+    source.onopen = () => {
+      console.log(`[Stream] Connected to ${streamUrl}`);
+      setIsStreaming(true);
+      setStreamError(null);
+    };
+    
+    source.onmessage = (event: MessageEvent) => {
+      try {
+        const data = JSON.parse(event.data);
+        setStreamData(data);
+        setStreamUpdated(new Date());
+        setStreamError(null);
+        
+        if (optionsRef.current.onData) {
+          optionsRef.current.onData(data);
+        }
+      } catch (err) {
+        console.error(`[Stream] Invalid message from ${streamUrl}:`, err);
+      }
+    };
+    
+    // The server sends 'gone' when the table or player no longer exists
+    source.addEventListener('gone', () => {
+      const err = new Error('Not found');
+      setStreamError(err);
+      setIsStreaming(false);
+      source.close();
+      
+      if (optionsRef.current.onError) {
+        optionsRef.current.onError(err);
+      }
+    });
+    
+    // EventSource retries on its own; polling covers the gap until it reconnects
+    source.onerror = () => {
+      console.warn(`[Stream] Connection to ${streamUrl} dropped, falling back to polling`);
+      setIsStreaming(false);
+    };
+    
+    return () => {
+      console.log(`[Stream] Closing ${streamUrl}`);
+      source.close();
+      setIsStreaming(false);
+    };
+  }, [streamUrl, streamEnabled]);
+  
+  // Poll only while the stream is down
+  const polling = usePolling(pollUrl, {
+    ...options,
+    enabled: streamEnabled && !isStreaming,
+  });
+  
+  // Prefer whichever source delivered the most recent data
+  const streamIsNewer = streamUpdated !== null &&
+    (polling.lastUpdated === null || streamUpdated > polling.lastUpdated);
+  
+  return {
+    data: streamIsNewer ? streamData : polling.data,
+    error: isStreaming ? null : (polling.error || streamError),
+    isLoading: polling.isLoading,
+    lastUpdated: streamIsNewer ? streamUpdated : polling.lastUpdated,
+    refetch: polling.refetch,
+  };
+}